@@ -0,0 +1,36 @@
+/**
+ * copy-vendor-assets.mjs - 把解码器和 MediaPipe 资源复制到 public/libs/
+ *
+ * 离线部署时由 Vite 直接提供这些文件（见 src/types/assetConfig.ts）。
+ * 在 npm install、dev、build 前自动执行；public/libs/ 不提交到仓库。
+ */
+
+import { cpSync, existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'libs');
+
+// 源目录 → 目标目录
+const COPIES = [
+  ['node_modules/three/examples/jsm/libs/draco/gltf', 'draco'],
+  ['node_modules/three/examples/jsm/libs/basis', 'basis'],
+  ['node_modules/@mediapipe/hands', 'mediapipe/hands'],
+  ['node_modules/@mediapipe/camera_utils', 'mediapipe/camera_utils']
+];
+
+let missing = 0;
+for (const [from, to] of COPIES) {
+  const source = join(root, from);
+  if (!existsSync(source)) {
+    console.warn(`[copy-vendor-assets] 未找到 ${from}，将使用 CDN 回退`);
+    missing++;
+    continue;
+  }
+  const dest = join(target, to);
+  mkdirSync(dest, { recursive: true });
+  cpSync(source, dest, { recursive: true });
+}
+
+console.log(`[copy-vendor-assets] 已复制 ${COPIES.length - missing}/${COPIES.length} 个资源目录到 public/libs/`);
@@ -8,7 +8,7 @@
  * - 右手：根据当前模式执行具体操作
  * 
  * ===== 四种模式 =====
- * 1. 监视模式（左手比划1）：右手张开控制视角旋转
+ * 1. 监视模式（左手比划1）：右手张开控制视角旋转，握拳保持 1 秒切换姿态
  * 2. 缩放模式（左手比划2）：右手张开放大，握拳缩小
  * 3. 拆解模式（左手比划3）：右手张开拆解，食指点击选择，握拳聚合
  * 4. 组件模式（左手比划4）：右手张开挥动切换材质/组件
@@ -18,8 +18,16 @@
  * - 手势切换每个模式至少持续 5 秒
  * - 鼠标点击切换不受 5 秒限制
  * - 60 秒无交互自动回到监视模式
+ *
+ * ===== 撤销/重做、书签 =====
+ * - 左手张开向左挥：撤销；向右挥：重做（任意模式）
+ * - 左手张开向上挥：上一个书签；向下挥：下一个书签（任意模式）
+ * - 左手握拳保持 1 秒：播放 / 暂停导览
  */
 
+import { ASSET_CONFIG } from '../types/assetConfig';
+import { getCurrentLang } from '../types/mechConfig';
+
 // ============================================
 // MediaPipe 类型声明
 // ============================================
@@ -62,10 +70,14 @@ interface CameraInterface {
   stop(): void;
 }
 
-async function loadMediaPipeScripts(): Promise<void> {
+/**
+ * 加载 MediaPipe 脚本
+ * @param assetBase 资源目录（本地 /libs/mediapipe/ 或 CDN，见 assetConfig.ts）
+ */
+async function loadMediaPipeScripts(assetBase: string): Promise<void> {
   const scripts = [
-    'https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js',
-    'https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js',
+    `${assetBase}hands/hands.js`,
+    `${assetBase}camera_utils/camera_utils.js`,
   ];
   
   for (const src of scripts) {
@@ -139,6 +151,13 @@ export interface GestureCallbacks {
   onNavigateUpDown?: (direction: 'up' | 'down') => void;        // 上下切换材质
   onNavigateLeftRight?: (direction: 'left' | 'right') => void;  // 左右切换组件
   
+  // 撤销/重做、书签回调（左手张开挥动）
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onBookmarkCycle?: (direction: 1 | -1) => void;   // 切换到下一个/上一个书签
+  onTourToggle?: () => void;                        // 播放/暂停导览（左手握拳保持）
+  onPoseCycle?: () => void;                         // 切换到下一个姿态（监视模式右手握拳保持）
+  
   // 通用回调
   onGestureChange?: (gesture: string, hand: 'left' | 'right' | 'both') => void;
 }
@@ -184,6 +203,13 @@ const CONFIG = {
   
   // 光标
   MOUSE_SMOOTHING: 0.25,              // 光标平滑系数
+  
+  // 撤销/重做、书签（左手张开挥动）
+  LEFT_SWIPE_DISTANCE: 0.15,          // 挥动距离阈值
+  LEFT_SWIPE_TIME: 600,               // 需在该时间内完成挥动 (ms)
+  LEFT_SWIPE_COOLDOWN: 1200,          // 冷却 (ms)
+  TOUR_TOGGLE_HOLD: 1000,             // 左手握拳保持该时间切换导览播放 (ms)
+  POSE_CYCLE_HOLD: 1000,              // 监视模式右手握拳保持该时间切换姿态 (ms)
 };
 
 /** 关键点索引 */
@@ -262,6 +288,17 @@ export class GestureController {
   private lastComponentSwipeTime: number = 0;
   private rightPositionHistory: { x: number; y: number; time: number }[] = [];
   
+  // 撤销/重做、书签挥动状态（左手）
+  private leftSwipeStart = { x: 0, y: 0 };
+  private leftSwipeStartTime: number = 0;
+  private lastLeftSwipeTime: number = 0;
+  private leftFistStartTime: number = 0;      // 0 表示未握拳
+  private leftFistTriggered: boolean = false; // 本次握拳已触发
+  
+  // 姿态切换状态（监视模式右手握拳）
+  private rightFistStartTime: number = 0;     // 0 表示未握拳
+  private rightFistTriggered: boolean = false;
+  
   // UI 元素
   private modeDisplayElement: HTMLElement | null = null;
   
@@ -272,7 +309,7 @@ export class GestureController {
   // ============================================
   // 初始化
   // ============================================
-  async init(): Promise<boolean> {
+  async init(assetBase: string = ASSET_CONFIG.mediapipe.BASES[0]): Promise<boolean> {
     try {
       this.videoElement = document.getElementById('webcam') as HTMLVideoElement;
       this.canvasElement = document.getElementById('hand-canvas') as HTMLCanvasElement;
@@ -285,7 +322,7 @@ export class GestureController {
       this.canvasCtx = this.canvasElement.getContext('2d');
       
       console.log('[GestureController] 加载 MediaPipe 脚本...');
-      await loadMediaPipeScripts();
+      await loadMediaPipeScripts(assetBase);
       await new Promise(resolve => setTimeout(resolve, 100));
       
       if (!window.Hands || !window.Camera) {
@@ -294,7 +331,7 @@ export class GestureController {
       }
       
       this.hands = new window.Hands({
-        locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`
+        locateFile: (file: string) => `${assetBase}hands/${file}`
       });
       
       this.hands.setOptions({
@@ -578,6 +615,68 @@ export class GestureController {
     }
   }
   
+  /** 检查左手张开挥动：左右撤销/重做，上下切换书签 */
+  private checkLeftHandSwipe(leftHand: NormalizedLandmark[], now: number): void {
+    if (this.leftShape !== 'open' || !this.isShapeStable(this.leftShapeStableCount)) {
+      this.leftSwipeStartTime = 0;
+      return;
+    }
+    
+    // 画面是镜像的
+    const palm = this.getPalmCenter(leftHand);
+    const x = 1 - palm.x;
+    const y = palm.y;
+    if (this.leftSwipeStartTime === 0 || now - this.leftSwipeStartTime > CONFIG.LEFT_SWIPE_TIME) {
+      this.leftSwipeStart = { x, y };
+      this.leftSwipeStartTime = now;
+      return;
+    }
+    
+    const dx = x - this.leftSwipeStart.x;
+    const dy = y - this.leftSwipeStart.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < CONFIG.LEFT_SWIPE_DISTANCE) return;
+    if (now - this.lastLeftSwipeTime < CONFIG.LEFT_SWIPE_COOLDOWN) return;
+    
+    if (Math.abs(dx) >= Math.abs(dy)) {
+      if (dx < 0) {
+        console.log('[撤销] 左手向左挥动');
+        this.callbacks.onUndo?.();
+        this.callbacks.onGestureChange?.('swipe_left', 'left');
+      } else {
+        console.log('[重做] 左手向右挥动');
+        this.callbacks.onRedo?.();
+        this.callbacks.onGestureChange?.('swipe_right', 'left');
+      }
+    } else {
+      // 图像坐标 y 向下
+      console.log(`[书签] 左手向${dy < 0 ? '上' : '下'}挥动`);
+      this.callbacks.onBookmarkCycle?.(dy < 0 ? -1 : 1);
+      this.callbacks.onGestureChange?.(dy < 0 ? 'swipe_up' : 'swipe_down', 'left');
+    }
+    this.lastLeftSwipeTime = now;
+    this.lastInteractionTime = now;
+    this.leftSwipeStartTime = 0;
+  }
+  
+  /** 检查左手握拳保持：播放/暂停导览（每次握拳只触发一次） */
+  private checkLeftHandFistHold(now: number): void {
+    if (this.leftShape !== 'fist' || !this.isShapeStable(this.leftShapeStableCount)) {
+      this.leftFistStartTime = 0;
+      this.leftFistTriggered = false;
+      return;
+    }
+    
+    if (this.leftFistStartTime === 0) {
+      this.leftFistStartTime = now;
+    } else if (!this.leftFistTriggered && now - this.leftFistStartTime >= CONFIG.TOUR_TOGGLE_HOLD) {
+      console.log('[导览] 左手握拳保持');
+      this.leftFistTriggered = true;
+      this.lastInteractionTime = now;
+      this.callbacks.onTourToggle?.();
+      this.callbacks.onGestureChange?.('fist_hold', 'left');
+    }
+  }
+  
   /** 检查自动回退到监视模式 */
   private checkAutoReset(now: number): void {
     if (this.currentMode !== 'watch' && now - this.lastInteractionTime > CONFIG.AUTO_RESET_TIMEOUT) {
@@ -631,9 +730,15 @@ export class GestureController {
     // 检查自动回退
     this.checkAutoReset(now);
     
-    // 检查左手模式切换
+    // 检查左手模式切换和挥动（撤销/重做、书签）
     if (leftHand) {
       this.checkLeftHandModeSwitch(now);
+      this.checkLeftHandSwipe(leftHand, now);
+      this.checkLeftHandFistHold(now);
+    } else {
+      this.leftSwipeStartTime = 0;
+      this.leftFistStartTime = 0;
+      this.leftFistTriggered = false;
     }
     
     // 根据当前模式处理右手操作
@@ -699,7 +804,7 @@ export class GestureController {
   }
   
   // ============================================
-  // 模式一：监视模式（只旋转）
+  // 模式一：监视模式（旋转、切换姿态）
   // ============================================
   private processWatchMode(rightHand: NormalizedLandmark[], now: number): void {
     // 右手五指张开 → 旋转模式
@@ -710,6 +815,26 @@ export class GestureController {
     } else {
       this.isRotating = false;
     }
+    this.checkRightHandFistHold(now);
+  }
+  
+  /** 检查右手握拳保持：切换到下一个姿态（每次握拳只触发一次） */
+  private checkRightHandFistHold(now: number): void {
+    if (this.rightShape !== 'fist' || !this.isShapeStable(this.rightShapeStableCount)) {
+      this.rightFistStartTime = 0;
+      this.rightFistTriggered = false;
+      return;
+    }
+    
+    if (this.rightFistStartTime === 0) {
+      this.rightFistStartTime = now;
+    } else if (!this.rightFistTriggered && now - this.rightFistStartTime >= CONFIG.POSE_CYCLE_HOLD) {
+      console.log('[姿态] 右手握拳保持');
+      this.rightFistTriggered = true;
+      this.lastInteractionTime = now;
+      this.callbacks.onPoseCycle?.();
+      this.callbacks.onGestureChange?.('fist_hold', 'right');
+    }
   }
   
   /** 处理视角旋转 */
@@ -1056,6 +1181,8 @@ export class GestureController {
   // ============================================
   private resetRightHandState(): void {
     this.isRotating = false;
+    this.rightFistStartTime = 0;
+    this.rightFistTriggered = false;
     this.isZooming = false;
     this.zoomDirection = 0;
     this.isPinching = false;
@@ -1151,9 +1278,7 @@ export class GestureController {
   // ============================================
   
   private isEnglish(): boolean {
-    return (typeof (window as unknown as { currentLang?: string }).currentLang !== 'undefined' 
-      && (window as unknown as { currentLang?: string }).currentLang === 'en') 
-      || localStorage.getItem('jarvis-lang') === 'en';
+    return getCurrentLang() === 'en';
   }
   
   private updateHandStatus(online: boolean): void {
@@ -7,6 +7,12 @@
  * - 上/下箭头：切换材质模式
  * - 左/右箭头：切换零件
  * - ESC：返回上级
+ * - Ctrl+Z / Ctrl+Shift+Z（或 Ctrl+Y）：撤销 / 重做
+ * - B：保存当前视图为书签；1-9：恢复对应书签
+ * - P：播放 / 暂停导览；[ / ]：导览上一步 / 下一步
+ * - I：装配说明；Shift+I：拆卸说明
+ * - C：切换拆解编排（同时 / 依次 / 径向）
+ * - E：切换拆解方式（预设 / 径向 / 轴向 / 逐级）
  */
 
 export interface KeyboardCallbacks {
@@ -16,6 +22,15 @@ export interface KeyboardCallbacks {
   onEscape?: () => void;
   onEnter?: () => void;  // 确认选择
   onMaterialModeChange?: (direction: 'up' | 'down') => void; // 材质模式循环
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onSaveBookmark?: () => void;
+  onBookmark?: (index: number) => void;   // 数字键 1-9 → 0-8
+  onTourToggle?: () => void;
+  onTourStep?: (direction: 1 | -1) => void;
+  onAssemblyGuide?: (mode: 'assemble' | 'disassemble') => void;
+  onChoreographyChange?: () => void;      // 切换到下一个拆解编排
+  onExplodeStrategyChange?: () => void;   // 切换到下一个拆解方式
 }
 
 export class KeyboardController {
@@ -23,8 +38,9 @@ export class KeyboardController {
   private keysPressed: Set<string> = new Set();
   private enabled: boolean = true;
   
-  // 拆解速度
+  // 拆解速度（按下时的单次变化量；按住时每秒变化 explosionRate）
   private explosionSpeed: number = 0.02;
+  private explosionRate: number = 1.2;
   
   constructor(callbacks: KeyboardCallbacks = {}) {
     this.callbacks = callbacks;
@@ -45,6 +61,20 @@ export class KeyboardController {
     const isNewKey = !this.keysPressed.has(key);
     this.keysPressed.add(key);
     
+    // 撤销 / 重做（Mac 上为 Cmd）
+    if (event.ctrlKey || event.metaKey) {
+      if (key === 'z' || key === 'y') {
+        event.preventDefault();
+        if (!isNewKey) return;
+        if (key === 'y' || event.shiftKey) {
+          this.callbacks.onRedo?.();
+        } else {
+          this.callbacks.onUndo?.();
+        }
+      }
+      return;
+    }
+    
     switch (key) {
       case 'a':
         // A键：立即触发拆解效果（每次按下都触发）
@@ -76,6 +106,32 @@ export class KeyboardController {
       case 'enter':
         if (isNewKey) this.callbacks.onEnter?.();
         break;
+      case 'b':
+        if (isNewKey) this.callbacks.onSaveBookmark?.();
+        break;
+      case 'p':
+        if (isNewKey) this.callbacks.onTourToggle?.();
+        break;
+      case '[':
+        if (isNewKey) this.callbacks.onTourStep?.(-1);
+        break;
+      case ']':
+        if (isNewKey) this.callbacks.onTourStep?.(1);
+        break;
+      case 'i':
+        if (isNewKey) this.callbacks.onAssemblyGuide?.(event.shiftKey ? 'disassemble' : 'assemble');
+        break;
+      case 'c':
+        if (isNewKey) this.callbacks.onChoreographyChange?.();
+        break;
+      case 'e':
+        if (isNewKey) this.callbacks.onExplodeStrategyChange?.();
+        break;
+      default:
+        if (isNewKey && /^[1-9]$/.test(key)) {
+          this.callbacks.onBookmark?.(Number(key) - 1);
+        }
+        break;
     }
   }
   
@@ -85,19 +141,21 @@ export class KeyboardController {
   }
   
   /**
-   * 每帧更新（在动画循环中调用）
+   * 每帧更新（在动画循环中调用，deltaTime 为毫秒，按住时的速度与帧率无关）
    */
-  update(): void {
+  update(deltaTime: number): void {
     if (!this.enabled) return;
     
+    const delta = this.explosionRate * deltaTime / 1000;
+    
     // A键：拆解
     if (this.keysPressed.has('a')) {
-      this.callbacks.onExplosionChange?.(this.explosionSpeed);
+      this.callbacks.onExplosionChange?.(delta);
     }
     
     // S键：聚拢
     if (this.keysPressed.has('s')) {
-      this.callbacks.onExplosionChange?.(-this.explosionSpeed);
+      this.callbacks.onExplosionChange?.(-delta);
     }
   }
   
@@ -0,0 +1,174 @@
+/**
+ * modelDropController.ts - 本地模型拖放导入
+ *
+ * 功能：
+ * - 把 .glb / .gltf 拖到画布上直接加载（无需重新构建）
+ * - .gltf 的外部资源（.bin、贴图）一起拖入即可，按文件名映射为 blob URL
+ * - 同时拖入 *.manifest.json 时使用该清单，否则由加载器推导部件树
+ */
+
+import { MechManifest, parseMechManifest } from '../types/mechManifest';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 一次拖放得到的模型文件集合 */
+export interface DroppedModel {
+  modelUrl: string;                    // 主模型的 blob URL
+  modelName: string;                   // 文件名（去掉扩展名）
+  resourceUrls: Map<string, string>;   // 其余文件：文件名 → blob URL
+  manifest: MechManifest | null;       // 一起拖入的清单
+  revoke: () => void;                  // 释放所有 blob URL
+}
+
+export interface ModelDropCallbacks {
+  onDragStateChange?: (active: boolean) => void;
+  onModelDropped?: (model: DroppedModel) => void;
+  onError?: (message: string) => void;
+}
+
+const MODEL_FILE_PATTERN = /\.(glb|gltf)$/i;
+const MANIFEST_FILE_PATTERN = /\.manifest\.json$/i;
+
+// ============================================
+// 拖放控制器
+// ============================================
+
+export class ModelDropController {
+  private container: HTMLElement;
+  private callbacks: ModelDropCallbacks;
+  private enabled: boolean = true;
+  private dragDepth: number = 0;  // dragenter/dragleave 在子元素间会成对触发
+
+  // 绑定的事件处理函数引用
+  private boundOnDragEnter: (event: DragEvent) => void;
+  private boundOnDragOver: (event: DragEvent) => void;
+  private boundOnDragLeave: (event: DragEvent) => void;
+  private boundOnDrop: (event: DragEvent) => void;
+
+  constructor(container: HTMLElement, callbacks: ModelDropCallbacks = {}) {
+    this.container = container;
+    this.callbacks = callbacks;
+
+    this.boundOnDragEnter = this.onDragEnter.bind(this);
+    this.boundOnDragOver = this.onDragOver.bind(this);
+    this.boundOnDragLeave = this.onDragLeave.bind(this);
+    this.boundOnDrop = this.onDrop.bind(this);
+
+    this.bindEvents();
+  }
+
+  private bindEvents(): void {
+    this.container.addEventListener('dragenter', this.boundOnDragEnter);
+    this.container.addEventListener('dragover', this.boundOnDragOver);
+    this.container.addEventListener('dragleave', this.boundOnDragLeave);
+    this.container.addEventListener('drop', this.boundOnDrop);
+  }
+
+  private onDragEnter(event: DragEvent): void {
+    if (!this.enabled || !this.hasFiles(event)) return;
+    event.preventDefault();
+
+    this.dragDepth++;
+    if (this.dragDepth === 1) {
+      this.callbacks.onDragStateChange?.(true);
+    }
+  }
+
+  private onDragOver(event: DragEvent): void {
+    if (!this.enabled || !this.hasFiles(event)) return;
+    // 必须阻止默认行为，否则浏览器不会触发 drop
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'copy';
+    }
+  }
+
+  private onDragLeave(_event: DragEvent): void {
+    if (!this.enabled || this.dragDepth === 0) return;
+
+    this.dragDepth--;
+    if (this.dragDepth === 0) {
+      this.callbacks.onDragStateChange?.(false);
+    }
+  }
+
+  private onDrop(event: DragEvent): void {
+    if (!this.enabled || !this.hasFiles(event)) return;
+    event.preventDefault();
+
+    this.dragDepth = 0;
+    this.callbacks.onDragStateChange?.(false);
+
+    const files = Array.from(event.dataTransfer?.files || []);
+    this.handleFiles(files);
+  }
+
+  private hasFiles(event: DragEvent): boolean {
+    return !!event.dataTransfer && Array.from(event.dataTransfer.types).includes('Files');
+  }
+
+  /**
+   * 整理拖入的文件，生成 blob URL
+   */
+  private async handleFiles(files: File[]): Promise<void> {
+    const modelFile = files.find(file => MODEL_FILE_PATTERN.test(file.name));
+    if (!modelFile) {
+      this.callbacks.onError?.('No .glb / .gltf file found');
+      return;
+    }
+
+    // 清单文件（可选）
+    let manifest: MechManifest | null = null;
+    const manifestFile = files.find(file => MANIFEST_FILE_PATTERN.test(file.name));
+    if (manifestFile) {
+      try {
+        manifest = parseMechManifest(JSON.parse(await manifestFile.text()));
+      } catch (error) {
+        this.callbacks.onError?.(`Invalid manifest: ${(error as Error).message}`);
+        return;
+      }
+    }
+
+    // 其余文件按文件名映射（.bin、贴图等）
+    const resourceUrls = new Map<string, string>();
+    files.forEach(file => {
+      if (file === modelFile || file === manifestFile) return;
+      resourceUrls.set(file.name, URL.createObjectURL(file));
+    });
+    const modelUrl = URL.createObjectURL(modelFile);
+
+    //console.log(`[ModelDropController] 导入模型: ${modelFile.name}，附带 ${resourceUrls.size} 个资源`);
+
+    this.callbacks.onModelDropped?.({
+      modelUrl,
+      modelName: modelFile.name.replace(MODEL_FILE_PATTERN, ''),
+      resourceUrls,
+      manifest,
+      revoke: () => {
+        URL.revokeObjectURL(modelUrl);
+        resourceUrls.forEach(url => URL.revokeObjectURL(url));
+      }
+    });
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.dragDepth = 0;
+  }
+
+  dispose(): void {
+    this.container.removeEventListener('dragenter', this.boundOnDragEnter);
+    this.container.removeEventListener('dragover', this.boundOnDragOver);
+    this.container.removeEventListener('dragleave', this.boundOnDragLeave);
+    this.container.removeEventListener('drop', this.boundOnDrop);
+  }
+}
+
+export function createModelDropController(
+  container: HTMLElement,
+  callbacks?: ModelDropCallbacks
+): ModelDropController {
+  return new ModelDropController(container, callbacks);
+}
@@ -4,12 +4,15 @@
  * 功能：
  * - 鼠标悬停检测部件
  * - 双击左键选择部件
- * - 精确高亮被hover的mesh
+ * - 精确高亮被hover的mesh（高亮按时间淡入淡出，需每帧调用 update）
+ * - 固定高亮的部件（装配说明的当前步骤）由外部控制，hover 不改动它的材质
  */
 
 import * as THREE from 'three';
 import { MechModel } from '../three/loadMech';
 import { PartId, HIGHLIGHT_CONFIG } from '../types/mechConfig';
+import { getManifestPart } from '../types/mechManifest';
+import { TweenGroup, TWEEN_CONFIG } from '../three/tween';
 
 export interface SimpleMouseCallbacks {
   onHover?: (partId: PartId | null, hoveredMeshes: THREE.Mesh[]) => void;
@@ -38,6 +41,11 @@ export class SimpleMouseController {
   private originalEmissives: Map<string, { color: THREE.Color, intensity: number }> = new Map();
   // 当前高亮的mesh keys，用于精确清除
   private currentHighlightedKeys: Set<string> = new Set();
+  // 各材质的高亮程度 0-1（淡入淡出补间，key 同上）
+  private highlightAmounts: Map<string, number> = new Map();
+  private highlightTweens: TweenGroup = new TweenGroup();
+  // 固定高亮部件的材质 keys（淡入淡出跳过这些材质）
+  private pinnedKeys: Set<string> = new Set();
   
   // 防止初始化时自动hover
   private hasMouseMoved: boolean = false;
@@ -61,6 +69,14 @@ export class SimpleMouseController {
   }
   
   setModel(model: MechModel): void {
+    // 切换模型时立即清除旧模型的悬停状态
+    this.clearHoverHighlight(true);
+    this.highlightTweens.cancelAll();
+    this.highlightAmounts.clear();
+    this.pinnedKeys.clear();
+    this.hoveredPartId = null;
+    this.hoveredMeshes = [];
+    
     this.model = model;
     // 初始化时存储所有mesh的原始emissive值
     this.storeAllOriginalEmissives();
@@ -152,6 +168,25 @@ export class SimpleMouseController {
     this.interactableParts = new Set(partIds);
   }
   
+  /**
+   * 设置固定高亮的部件（null 取消），其高亮由调用方负责
+   * 该部件上进行中的 hover 淡入淡出立即停止，避免覆盖调用方设置的高亮
+   */
+  setPinnedPart(partId: PartId | null): void {
+    this.pinnedKeys.clear();
+    if (!partId) return;
+    
+    this.getMeshesForPart(partId).forEach(mesh => {
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      materials.forEach((_mat, index) => {
+        const key = `${mesh.uuid}_${index}`;
+        this.pinnedKeys.add(key);
+        this.highlightTweens.cancel(key);
+        this.highlightAmounts.delete(key);
+      });
+    });
+  }
+  
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
     if (!enabled) {
@@ -203,14 +238,12 @@ export class SimpleMouseController {
       const hitMesh = intersects[0].object as THREE.Mesh;
       let hitPartId = hitMesh.userData.partId as PartId;
       
-      // 如果命中的是躯干部件，尝试找更具体的部件
-      if ((hitPartId === 'mainbody' || hitPartId === 'neck') && intersects.length > 1) {
+      // 如果命中的是低优先级部件（如躯干），尝试找身后更具体的部件
+      const hitPriority = this.getPickPriority(hitPartId);
+      if (intersects.length > 1) {
         for (let i = 1; i < Math.min(intersects.length, 5); i++) {
           const otherPartId = intersects[i].object.userData.partId as PartId;
-          if (otherPartId && 
-              (otherPartId.includes('arm') || otherPartId.includes('leg') || 
-               otherPartId.includes('Arm') || otherPartId.includes('Leg') ||
-               otherPartId === 'Head')) {
+          if (otherPartId && this.getPickPriority(otherPartId) > hitPriority) {
             hitPartId = otherPartId;
             break;
           }
@@ -252,6 +285,14 @@ export class SimpleMouseController {
     }
   }
   
+  /**
+   * 部件的拾取优先级（来自清单，默认 1）
+   */
+  private getPickPriority(partId: PartId): number {
+    if (!this.model) return 1;
+    return getManifestPart(this.model.manifest, partId)?.pickPriority ?? 1;
+  }
+  
   /**
    * 应用hover高亮效果
    */
@@ -265,32 +306,28 @@ export class SimpleMouseController {
           const key = `${mesh.uuid}_${index}`;
           this.currentHighlightedKeys.add(key);
           
-          // 应用红色高亮
-          mat.emissive.setHex(HIGHLIGHT_CONFIG.SELECTED_EMISSIVE);
-          mat.emissiveIntensity = HIGHLIGHT_CONFIG.SELECTED_EMISSIVE_INTENSITY;
+          // 红色高亮淡入
+          this.fadeHighlight(mat, key, 1);
         }
       });
     });
   }
   
   /**
-   * 清除hover高亮效果 - 恢复到原始值
+   * 清除hover高亮效果 - 淡出到原始值（immediate 时直接恢复）
    */
-  private clearHoverHighlight(): void {
+  private clearHoverHighlight(immediate: boolean = false): void {
     // 遍历当前高亮的mesh，恢复原始值
     this.hoveredMeshes.forEach(mesh => {
       const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
       materials.forEach((mat, index) => {
         if (mat instanceof THREE.MeshStandardMaterial) {
           const key = `${mesh.uuid}_${index}`;
-          const original = this.originalEmissives.get(key);
-          if (original) {
-            mat.emissive.copy(original.color);
-            mat.emissiveIntensity = original.intensity;
+          if (immediate) {
+            this.highlightTweens.cancel(key);
+            this.setHighlightAmount(mat, key, 0);
           } else {
-            // 如果没有存储原始值（不应该发生），设置为默认值
-            mat.emissive.setHex(0x000000);
-            mat.emissiveIntensity = 0;
+            this.fadeHighlight(mat, key, 0);
           }
         }
       });
@@ -299,6 +336,44 @@ export class SimpleMouseController {
     this.currentHighlightedKeys.clear();
   }
   
+  /**
+   * 高亮程度过渡到 target（0 = 原始值，1 = 高亮），时长按剩余距离缩短
+   */
+  private fadeHighlight(mat: THREE.MeshStandardMaterial, key: string, target: number): void {
+    if (this.pinnedKeys.has(key)) return;
+    const from = this.highlightAmounts.get(key) ?? 0;
+    const duration = TWEEN_CONFIG.HIGHLIGHT_FADE_DURATION * Math.abs(target - from);
+    this.highlightTweens.start(key, { from, to: target, duration, easing: 'easeOutQuad' }, amount => {
+      this.setHighlightAmount(mat, key, amount);
+    });
+  }
+  
+  /**
+   * 按高亮程度在原始值和高亮色之间插值
+   */
+  private setHighlightAmount(mat: THREE.MeshStandardMaterial, key: string, amount: number): void {
+    // 如果没有存储原始值（不应该发生），按无发光处理
+    const original = this.originalEmissives.get(key);
+    const color = original ? original.color : new THREE.Color(0x000000);
+    const intensity = original ? original.intensity : 0;
+    
+    mat.emissive.copy(color).lerp(new THREE.Color(HIGHLIGHT_CONFIG.SELECTED_EMISSIVE), amount);
+    mat.emissiveIntensity = THREE.MathUtils.lerp(intensity, HIGHLIGHT_CONFIG.SELECTED_EMISSIVE_INTENSITY, amount);
+    
+    if (amount > 0) {
+      this.highlightAmounts.set(key, amount);
+    } else {
+      this.highlightAmounts.delete(key);
+    }
+  }
+  
+  /**
+   * 每帧更新高亮淡入淡出（deltaTime 为毫秒）
+   */
+  update(deltaTime: number): void {
+    this.highlightTweens.update(deltaTime);
+  }
+  
   private onClick(_event: MouseEvent): void {
     if (!this.enabled) return;
     
@@ -320,7 +395,9 @@ export class SimpleMouseController {
   }
   
   dispose(): void {
-    this.clearHoverHighlight();
+    this.clearHoverHighlight(true);
+    this.highlightTweens.cancelAll();
+    this.highlightAmounts.clear();
     this.container.removeEventListener('mousemove', this.boundOnMouseMove);
     this.container.removeEventListener('click', this.boundOnClick);
     this.originalEmissives.clear();
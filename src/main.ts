@@ -7,7 +7,12 @@
  * - S键长按：聚拢
  * - 上/下箭头：切换材质模式（默认/金属/线框）
  * - 左/右箭头：切换零件
+ * - Enter：确认选择 / 深入下一级
  * - ESC：返回上级
+ * - Ctrl+Z / Ctrl+Shift+Z：撤销 / 重做视图操作
+ * - B：保存视图书签；1-9：恢复对应书签
+ * - P：播放 / 暂停导览；[ / ]：导览上一步 / 下一步
+ * - I / Shift+I：分步装配 / 拆卸说明（左/右箭头切换步骤，ESC 退出）
  * 
  * ===== 手势控制 =====
  * - 五指张开：拆解（分离）
@@ -16,42 +21,107 @@
  * - 食指指向：控制鼠标位置
  * - 食指+大拇指捏合两下：双击选择
  * - 三指（食指+大拇指+中指）：旋转视角 + 缩放
+ * - 左手张开向左/右挥：撤销 / 重做视图操作
+ * - 左手张开向上/下挥：上一个 / 下一个书签
+ * - 左手握拳保持 1 秒：播放 / 暂停导览（导览中左右挥切换步骤）
+ * 
+ * ===== 导览 =====
+ * - 底部导览栏选择并播放脚本导览，用户操作时自动暂停
+ * - 顶部装配说明面板按清单编写的顺序逐个装回 / 拆下部件（右手左右挥切换步骤）
  * 
  * ===== 鼠标控制 =====
  * - 鼠标悬停：高亮部件（标红）
- * - 双击左键：进入组件页面
+ * - 双击左键：进入组件页面；组件页面中双击当前部件的子零件深入一级（如 左臂 → 左手）
+ * - 拖入 .glb/.gltf（可连同贴图、清单一起）：直接加载本地模型
+ * 
+ * ===== 模型切换 =====
+ * - 左上角下拉框或 URL 参数 ?model=<id> 切换模型库中的模型
+ * - 当前视图（状态、部件、拆解、材质、相机、语言）实时写入 URL hash，可直接分享
  */
 
 import { initScene, updateSceneEffects, SceneContext } from './three/initScene';
-import { loadMechModel, MechModel, updateGlowEffects, applyMaterialMode } from './three/loadMech';
+import {
+  loadMechModel,
+  loadModelCatalog,
+  MechModel,
+  updateGlowEffects,
+  applyMaterialMode,
+  disposeMechModel
+} from './three/loadMech';
+import { Tween, createTween } from './three/tween';
 import { KeyboardController, createKeyboardController } from './interaction/keyboardController';
 import { SimpleMouseController, createSimpleMouseController } from './interaction/simpleMouseController';
 import { GestureController, createGestureController } from './interaction/gestureController';
-import { SimpleStateMachine, createSimpleStateMachine, SimpleViewState } from './state/SimpleStateMachine';
-import { PartId, PART_DISPLAY_NAMES, PART_DISPLAY_NAMES_EN, MECH_HIERARCHY, MaterialMode } from './types/mechConfig';
+import { ModelDropController, createModelDropController, DroppedModel } from './interaction/modelDropController';
+import {
+  SimpleStateMachine,
+  createSimpleStateMachine,
+  SimpleViewState,
+  MechEvent,
+  MechEventSource,
+  MechEventRejection
+} from './state/SimpleStateMachine';
+import {
+  ViewHistory,
+  ViewSnapshot,
+  CameraPose,
+  ContinuousAction,
+  createViewHistory,
+  VIEW_HISTORY_CONFIG
+} from './state/viewHistory';
+import { serializeViewHash, parseViewHash, URL_STATE_CONFIG } from './state/urlState';
+import { BookmarkStore, ViewBookmark, createBookmarkStore, BOOKMARK_CONFIG } from './state/bookmarks';
+import {
+  TourPlayer,
+  TourStatus,
+  createTourPlayer,
+  getTourStepSnapshot,
+  getTourStepTransition,
+  loadTours
+} from './state/tourPlayer';
+import { DiagnosticsPanel, createDiagnosticsPanel } from './ui/diagnosticsPanel';
+import { BookmarkStrip, createBookmarkStrip } from './ui/bookmarkStrip';
+import { TourPanel, createTourPanel } from './ui/tourPanel';
+import { AssemblyPanel, createAssemblyPanel } from './ui/assemblyPanel';
+import { PosePanel, createPosePanel } from './ui/posePanel';
+import { AssemblyStep, AssemblyMode, getAssemblyCaption } from './three/assemblyGuide';
+import { PartId, MaterialMode, Lang, getPartDisplayName, getCurrentLang } from './types/mechConfig';
+import {
+  ModelCatalogEntry,
+  MODEL_CATALOG,
+  DEFAULT_MODEL_ID,
+  getCatalogEntry,
+  mergeModelCatalogs
+} from './types/modelCatalog';
+import { AssetId, ResolvedAsset, ASSET_CONFIG, resolveAssetBase } from './types/assetConfig';
+import { Vec3Tuple, ExplodeStrategyId, JointAngles } from './types/mechManifest';
+import { TourDefinition, TourStep, BUILTIN_TOURS, mergeTours } from './types/tourConfig';
+import { BUILTIN_POSES, mergePoses } from './types/poseConfig';
+import { loadPoses } from './three/jointPose';
 
-// 获取当前语言（从全局变量或 localStorage）
-function getCurrentLang(): 'zh' | 'en' {
-  // 优先从全局变量获取
-  if (typeof (window as any).currentLang !== 'undefined') {
-    return (window as any).currentLang;
+declare global {
+  interface Window {
+    dispatchMechEvent?: (event: MechEvent) => boolean;  // 外部脚本控制状态机
+    setJointAngle?: (partId: PartId, angles: JointAngles) => boolean;  // 外部脚本摆姿态（角度单位为度）
+    applyLanguage?: (lang: Lang) => void;                // index.html 中定义
   }
-  // 否则从 localStorage 获取
-  const saved = localStorage.getItem('jarvis-lang');
-  return (saved === 'en') ? 'en' : 'zh';
 }
 
-// 获取部件显示名称（支持多语言）
+// 获取部件显示名称（支持多语言，名称来自当前模型的清单）
 function getPartName(partId: PartId): string {
-  const lang = getCurrentLang();
-  return lang === 'en' ? PART_DISPLAY_NAMES_EN[partId] : PART_DISPLAY_NAMES[partId];
+  if (!appState.mechModel) return partId;
+  return getPartDisplayName(appState.mechModel.manifest, partId, getCurrentLang());
 }
 
 // ============================================
 // 应用配置
 // ============================================
 const APP_CONFIG = {
-  MODEL_PATH: '/assets/models/robot.glb',
+  CATALOG_PATH: '/assets/models/catalog.json',  // 可选的外部模型库
+  TOURS_PATH: '/assets/tours/tours.json',        // 可选的外部导览
+  POSES_PATH: '/assets/poses/poses.json',        // 可选的外部姿态库
+  DEFAULT_MODEL: DEFAULT_MODEL_ID,
+  AUTO_EXPLODE: true,   // 清单未指定拆解向量的部件按几何体自动计算
   DEBUG_MODE: true
 };
 
@@ -65,9 +135,26 @@ interface AppState {
   keyboardController: KeyboardController | null;
   mouseController: SimpleMouseController | null;
   gestureController: GestureController | null;
+  dropController: ModelDropController | null;
+  diagnosticsPanel: DiagnosticsPanel | null;
+  bookmarks: BookmarkStore | null;
+  bookmarkStrip: BookmarkStrip | null;
+  activeBookmarkId: string | null;  // 最近恢复的书签（视图改变后清空）
+  tours: TourDefinition[];
+  tourPlayer: TourPlayer | null;
+  tourPanel: TourPanel | null;
+  assemblyPanel: AssemblyPanel | null;
+  posePanel: PosePanel | null;
+  modelCatalog: ModelCatalogEntry[];
+  currentModelId: string | null;    // 模型库中的当前模型（本地导入时为 null）
+  isLoadingModel: boolean;
+  assets: Record<AssetId, ResolvedAsset>;   // 解码器 / MediaPipe 的实际加载位置
   isRunning: boolean;
   lastTime: number;
   materialMode: MaterialMode;
+  history: ViewHistory;             // 视图撤销/重做
+  cameraTween: CameraTween | null;  // 撤销/重做时的相机过渡
+  lastHashUpdate: number;           // 上次写入 URL hash 的时间
   // 手势模拟鼠标位置
   gestureMouseX: number;
   gestureMouseY: number;
@@ -80,13 +167,41 @@ const appState: AppState = {
   keyboardController: null,
   mouseController: null,
   gestureController: null,
+  dropController: null,
+  diagnosticsPanel: null,
+  bookmarks: null,
+  bookmarkStrip: null,
+  activeBookmarkId: null,
+  tours: BUILTIN_TOURS,
+  tourPlayer: null,
+  tourPanel: null,
+  assemblyPanel: null,
+  posePanel: null,
+  modelCatalog: MODEL_CATALOG,
+  currentModelId: null,
+  isLoadingModel: false,
+  assets: {
+    draco: { base: ASSET_CONFIG.draco.BASES[0], status: 'local' },
+    basis: { base: ASSET_CONFIG.basis.BASES[0], status: 'local' },
+    mediapipe: { base: ASSET_CONFIG.mediapipe.BASES[0], status: 'local' }
+  },
   isRunning: false,
   lastTime: 0,
   materialMode: 'default',
+  history: createViewHistory(),
+  cameraTween: null,
+  lastHashUpdate: 0,
   gestureMouseX: 0.5,
   gestureMouseY: 0.5
 };
 
+/** 相机过渡动画 */
+interface CameraTween {
+  from: CameraPose;
+  to: CameraPose;
+  tween: Tween;
+}
+
 // 材质模式序列
 const MATERIAL_MODES: MaterialMode[] = ['default', 'metal', 'wire'];
 
@@ -119,13 +234,35 @@ async function init(): Promise<void> {
     updateLoadingStatus('加载机甲模型...');
     updateLoadingProgress(25);
     
-    // 2. 加载机甲模型
+    // 2. 探测本地解码器和 MediaPipe 资源，缺失时回退到 CDN
+    const [draco, basis, mediapipe] = await Promise.all([
+      resolveAssetBase('draco'),
+      resolveAssetBase('basis'),
+      resolveAssetBase('mediapipe')
+    ]);
+    appState.assets = { draco, basis, mediapipe };
+    updateAssetStatus();
+    
+    // 加载模型库，按 ?model= 参数选择模型
+    appState.modelCatalog = mergeModelCatalogs(MODEL_CATALOG, await loadModelCatalog(APP_CONFIG.CATALOG_PATH));
+    const initialEntry = getInitialCatalogEntry();
+    appState.currentModelId = initialEntry.id;
+    
+    // 加载机甲模型
     appState.mechModel = await loadMechModel(appState.sceneContext.scene, {
-      modelPath: APP_CONFIG.MODEL_PATH,
-      onProgress: (progress) => {
+      modelPath: initialEntry.modelPath,
+      manifestPath: initialEntry.manifestPath,
+      modelName: initialEntry.names.en || initialEntry.id,
+      onProgress: (progress, detail) => {
         updateLoadingProgress(25 + progress * 0.25);
+        // 解码阶段显示每个资源的耗时
+        if (detail) updateLoadingStatus(getCurrentLang() === 'en' ? `Decoding ${detail}` : `解码 ${detail}`);
       },
-      scale: 1
+      scale: 1,
+      autoExplode: APP_CONFIG.AUTO_EXPLODE,
+      dracoDecoderPath: appState.assets.draco.base,
+      basisTranscoderPath: appState.assets.basis.base,
+      renderer: appState.sceneContext.renderer
     });
     // 默认材质模式
     applyMaterialMode(appState.mechModel, appState.materialMode);
@@ -140,9 +277,30 @@ async function init(): Promise<void> {
       onStateChange: handleStateChange,
       onExplosionChange: handleExplosionChange,
       onHoverChange: handleHoverChange,
-      onPartListChange: handlePartListChange
+      onPartListChange: handlePartListChange,
+      onFocusPathChange: handleFocusPathChange,
+      onEventRejected: handleEventRejected,
+      onAssemblyStep: handleAssemblyStep,
+      onPoseChange: handlePoseChange
     });
-    appState.stateMachine.init(appState.mechModel, appState.sceneContext.scene);
+    appState.stateMachine.init(appState.mechModel, appState.sceneContext.scene, appState.sceneContext.camera);
+    
+    // 装配说明面板（步骤由状态机的 Assembly 状态驱动）
+    appState.assemblyPanel = createAssemblyPanel({
+      onStart: (mode) => dispatchMechEvent({ type: 'ASSEMBLY', mode, source: 'mouse' }),
+      onPrev: () => dispatchMechEvent({ type: 'NAVIGATE', direction: 'left', source: 'mouse' }),
+      onNext: () => dispatchMechEvent({ type: 'NAVIGATE', direction: 'right', source: 'mouse' }),
+      onExit: () => dispatchMechEvent({ type: 'BACK', source: 'mouse' })
+    });
+    // 姿态面板（整机 / 拆解状态下可用）
+    appState.posePanel = createPosePanel({
+      onJointChange: (partId, axis, degrees) => setJointAngle(partId, { [axis]: degrees }, false),
+      onReset: resetPose
+    });
+    updatePosePanel();
+    // 暴露给外部脚本（API 输入源）
+    window.dispatchMechEvent = (event) => dispatchMechEvent({ source: 'api', ...event });
+    window.setJointAngle = (partId, angles) => setJointAngle(partId, angles);
     
     updateLoadingStatus('初始化控制器...');
     updateLoadingProgress(70);
@@ -151,22 +309,34 @@ async function init(): Promise<void> {
     
     // 5. 初始化键盘控制器
     appState.keyboardController = createKeyboardController({
-      onExplosionChange: (delta) => {
-        appState.stateMachine?.adjustExplosion(delta);
-      },
+      onExplosionChange: (delta) => adjustExplosion(delta, 'keyboard'),
       onNavigateLeftRight: (direction) => {
-        appState.stateMachine?.navigateLeftRight(direction);
+        dispatchMechEvent({ type: 'NAVIGATE', direction, source: 'keyboard' });
       },
       onMaterialModeChange: (direction) => {
         cycleMaterialMode(direction);
       },
       onEscape: () => {
-        appState.stateMachine?.goBack();
+        dispatchMechEvent({ type: 'BACK', source: 'keyboard' });
       },
       onEnter: () => {
         // Enter 键确认选择当前高亮的部件
-        appState.stateMachine?.selectHoveredPart();
-      }
+        dispatchMechEvent({ type: 'SELECT', source: 'keyboard' });
+      },
+      onUndo: undoView,
+      onRedo: redoView,
+      onSaveBookmark: saveBookmark,
+      onBookmark: (index) => {
+        const bookmark = appState.bookmarks?.getAll()[index];
+        if (bookmark) restoreBookmark(bookmark);
+      },
+      onTourToggle: () => toggleTour(),
+      onTourStep: stepTour,
+      onAssemblyGuide: (mode) => {
+        dispatchMechEvent({ type: 'ASSEMBLY', mode, source: 'keyboard' });
+      },
+      onChoreographyChange: cycleChoreography,
+      onExplodeStrategyChange: cycleExplodeStrategy
     });
     
     // 5. 初始化鼠标控制器（高亮由鼠标控制器自己处理）
@@ -176,15 +346,15 @@ async function init(): Promise<void> {
       {
         onHover: (partId, _hoveredMeshes) => {
           // 只更新状态，高亮已由鼠标控制器处理
-          appState.stateMachine?.setHoveredPartId(partId);
+          dispatchMechEvent({ type: 'HOVER', partId, source: 'mouse' });
         },
         onDoubleClick: (_partId) => {
-          appState.stateMachine?.selectHoveredPart();
+          dispatchMechEvent({ type: 'SELECT', source: 'mouse' });
         }
       }
     );
     appState.mouseController.setModel(appState.mechModel);
-    appState.mouseController.setInteractableParts([...MECH_HIERARCHY.majorParts]);
+    appState.mouseController.setInteractableParts(appState.stateMachine.getInteractableParts());
     
     updateLoadingStatus('初始化手势控制...');
     updateLoadingProgress(85);
@@ -194,14 +364,12 @@ async function init(): Promise<void> {
     // 左手：视角控制（握拳旋转、捏合缩放）
     appState.gestureController = createGestureController({
       // ===== 右手回调 =====
-      onExplosionChange: (delta) => {
-        appState.stateMachine?.adjustExplosion(delta);
-      },
+      onExplosionChange: (delta) => adjustExplosion(delta, 'gesture'),
       onNavigateUpDown: (direction) => {
         cycleMaterialMode(direction === 'up' ? 'up' : 'down');
       },
       onNavigateLeftRight: (direction) => {
-        appState.stateMachine?.navigateLeftRight(direction);
+        dispatchMechEvent({ type: 'NAVIGATE', direction, source: 'gesture' });
       },
       onMouseMove: (x, y) => {
         appState.gestureMouseX = x;
@@ -210,15 +378,22 @@ async function init(): Promise<void> {
       },
       onClick: () => {
         // 单次捏合点击 = 选择/确认
-        appState.stateMachine?.selectHoveredPart();
+        dispatchMechEvent({ type: 'SELECT', source: 'gesture' });
       },
       onEscape: () => {
-        appState.stateMachine?.goBack();
+        dispatchMechEvent({ type: 'BACK', source: 'gesture' });
       },
+      // 导览中左右挥切换步骤，否则撤销/重做
+      onUndo: () => appState.tourPlayer?.isActive() ? stepTour(-1) : undoView(),
+      onRedo: () => appState.tourPlayer?.isActive() ? stepTour(1) : redoView(),
+      onBookmarkCycle: cycleBookmark,
+      onTourToggle: () => toggleTour(),
+      onPoseCycle: cyclePose,
       
       // ===== 左手回调 =====
       onRotateView: (deltaX, deltaY) => {
         // 左手握拳拖动 → 旋转视角
+        pauseTourForUser();
         if (appState.sceneContext?.controls) {
           const controls = appState.sceneContext.controls;
           // 水平旋转（方位角）
@@ -243,10 +418,12 @@ async function init(): Promise<void> {
           ).add(controls.target);
           
           controls.update();
+          recordHistory('camera');
         }
       },
       onZoom: (delta) => {
         // 左手捏合 → 缩放
+        pauseTourForUser();
         if (appState.sceneContext?.camera && appState.sceneContext?.controls) {
           const camera = appState.sceneContext.camera;
           const controls = appState.sceneContext.controls;
@@ -261,6 +438,7 @@ async function init(): Promise<void> {
           
           camera.position.copy(target).add(direction.multiplyScalar(newDistance));
           controls.update();
+          recordHistory('camera');
         }
       },
       // ===== 通用 =====
@@ -269,8 +447,77 @@ async function init(): Promise<void> {
       }
     });
     
+    // 7. 本地模型拖放导入
+    appState.dropController = createModelDropController(canvasContainer, {
+      onDragStateChange: (active) => {
+        if (active) {
+          showDropOverlay(getCurrentLang() === 'en' ? 'Drop to load GLB / GLTF model' : '松开以加载 GLB / GLTF 模型');
+        } else {
+          hideDropOverlay();
+        }
+      },
+      onModelDropped: (dropped) => {
+        importDroppedModel(dropped);
+      },
+      onError: (message) => {
+        showDropOverlay(message);
+        setTimeout(hideDropOverlay, 2000);
+      }
+    });
+    
+    // 8. 视图历史：鼠标拖动视角结束时记录，开始拖动时打断撤销动画
+    const controls = appState.sceneContext.controls;
+    if (controls) {
+      controls.addEventListener('start', () => {
+        stopCameraTween();
+        pauseTourForUser();
+      });
+      controls.addEventListener('end', () => recordHistory('camera'));
+    }
+    
+    // 恢复分享链接中的视图（之后地址栏随导航实时更新）
+    restoreViewFromUrl(false);
+    window.addEventListener('hashchange', () => restoreViewFromUrl(true));
+    appState.history.clear(captureViewSnapshot() ?? undefined);
+    
+    // 8. 模型切换、拆解方式和姿态下拉框（姿态库 = 内置 + 外部 poses.json）
+    initModelSelect();
+    initExplodeStrategySelect();
+    appState.stateMachine.setPoseLibrary(mergePoses(BUILTIN_POSES, await loadPoses(APP_CONFIG.POSES_PATH)));
+    initPoseSelect();
+    
+    // 9. 模型诊断面板（绑定检查报告）
+    appState.diagnosticsPanel = createDiagnosticsPanel();
+    appState.diagnosticsPanel.update(appState.mechModel.report);
+    
+    // 10. 视图书签栏
+    appState.bookmarks = createBookmarkStore();
+    appState.bookmarkStrip = createBookmarkStrip({
+      onSave: saveBookmark,
+      onRestore: restoreBookmark,
+      onRename: renameBookmark,
+      onDelete: deleteBookmark,
+      onExport: exportBookmarks,
+      onImport: importBookmarks
+    });
+    appState.bookmarkStrip.update(appState.bookmarks.getAll());
+    
+    // 11. 导览（内置 + 外部 tours.json）
+    appState.tours = mergeTours(BUILTIN_TOURS, await loadTours(APP_CONFIG.TOURS_PATH));
+    appState.tourPlayer = createTourPlayer({
+      onStep: applyTourStep,
+      onStatusChange: handleTourStatusChange
+    });
+    appState.tourPanel = createTourPanel({
+      onToggle: toggleTour,
+      onPrev: () => stepTour(-1),
+      onNext: () => stepTour(1),
+      onStop: () => appState.tourPlayer?.stop()
+    });
+    appState.tourPanel.setTours(appState.tours);
+    
     // 异步初始化手势控制器（不阻塞主流程）
-    appState.gestureController.init().then((success) => {
+    appState.gestureController.init(appState.assets.mediapipe.base).then((success) => {
       if (success) {
         //console.log('✅ 双手手势控制器 V2 初始化成功');
       } else {
@@ -280,9 +527,7 @@ async function init(): Promise<void> {
     
     updateLoadingProgress(100);
     // 根据语言显示加载完成文字
-    const isEn = (typeof (window as any).currentLang !== 'undefined' && (window as any).currentLang === 'en') 
-      || localStorage.getItem('jarvis-lang') === 'en';
-    updateLoadingStatus(isEn ? 'Ready!' : '准备就绪！');
+    updateLoadingStatus(getCurrentLang() === 'en' ? 'Ready!' : '准备就绪！');
     
     // 隐藏加载屏幕
     setTimeout(() => {
@@ -319,6 +564,10 @@ function handleStateChange(newState: SimpleViewState, oldState: SimpleViewState)
     appState.mouseController.setInteractableParts(parts);
   }
   
+  // 只有整机 / 拆解状态下可以摆姿态
+  appState.posePanel?.setEnabled(appState.stateMachine?.canPose() ?? false);
+  updatePoseSelect();
+  
   // 组件视图时隐藏光标指示器
   const cursor = document.getElementById('gesture-cursor');
   if (cursor) {
@@ -349,12 +598,602 @@ function handlePartListChange(parts: PartId[], currentIndex: number, selectedPar
   
 }
 
+function handleFocusPathChange(path: PartId[]): void {
+  updateFocusPath(path);
+}
+
+function handleAssemblyStep(step: AssemblyStep | null, index: number, total: number, mode: AssemblyMode): void {
+  // 当前步骤的部件由装配说明高亮，鼠标悬停的淡出不能覆盖它
+  appState.mouseController?.setPinnedPart(step?.partId ?? null);
+  
+  const model = appState.mechModel;
+  if (!step || !model) {
+    appState.assemblyPanel?.update(null);
+    return;
+  }
+  
+  const partName = getPartName(step.partId);
+  appState.assemblyPanel?.update({
+    mode,
+    index,
+    total,
+    partName,
+    caption: getAssemblyCaption(model.manifest, step, mode, getCurrentLang())
+  });
+  updateHoveredPart(partName);
+}
+
+function handlePoseChange(_poseId: string | null): void {
+  // 过渡结束后滑块显示最终转角
+  updatePosePanel();
+  updatePoseSelect();
+}
+
+function handleEventRejected(rejection: MechEventRejection): void {
+  //console.warn(`[StateMachine] 拒绝 ${rejection.event.type}（${rejection.event.source || 'api'}，状态 ${rejection.state}）: ${rejection.reason}`);
+}
+
+/**
+ * 持续调整拆解程度（按住 A / S、手势张开 / 握拳时每帧调用）
+ * 当前状态不接受时不发送（如装配说明中），避免每帧产生一次拒绝
+ */
+function adjustExplosion(delta: number, source: MechEventSource): void {
+  const event: MechEvent = { type: 'ADJUST_EXPLOSION', delta, source };
+  if (!appState.stateMachine?.canDispatch(event)) return;
+  dispatchMechEvent(event);
+}
+
+/**
+ * 向状态机发送事件（键盘、鼠标、手势和 window.dispatchMechEvent 共用）
+ */
+function dispatchMechEvent(event: MechEvent): boolean {
+  if (event.type !== 'HOVER' && event.type !== 'RESTORE') {
+    pauseTourForUser();
+  }
+  const accepted = appState.stateMachine?.dispatch(event) ?? false;
+  // 悬停不计入历史；RESTORE 由撤销/重做自己发出
+  if (accepted && event.type !== 'HOVER' && event.type !== 'RESTORE') {
+    recordHistory(event.type === 'ADJUST_EXPLOSION' ? 'explosion' : null);
+  }
+  return accepted;
+}
+
+// ============================================
+// 视图历史（撤销/重做）
+// ============================================
+
+/**
+ * 当前视图快照：状态机 + 材质模式 + 相机姿态
+ */
+function captureViewSnapshot(): ViewSnapshot | null {
+  const { stateMachine, sceneContext } = appState;
+  if (!stateMachine || !sceneContext) return null;
+  
+  const camera = sceneContext.camera.position;
+  const target = sceneContext.controls?.target;
+  return {
+    mech: stateMachine.getSnapshot(),
+    materialMode: appState.materialMode,
+    camera: {
+      position: [camera.x, camera.y, camera.z],
+      target: target ? [target.x, target.y, target.z] : [0, 0, 0]
+    }
+  };
+}
+
+/**
+ * 记录当前视图
+ * @param action 连续操作（按住拆解、拖动 / 手势调整视角），同类的相邻记录会合并
+ */
+function recordHistory(action: ContinuousAction | null = null): void {
+  // 撤销动画过程中的相机变化不计入历史
+  if (appState.cameraTween) return;
+  const snapshot = captureViewSnapshot();
+  if (!snapshot) return;
+  appState.history.record(snapshot, action);
+  setActiveBookmark(null);
+}
+
+function undoView(): void {
+  pauseTourForUser();
+  const snapshot = appState.history.undo();
+  if (snapshot) applyViewSnapshot(snapshot);
+}
+
+function redoView(): void {
+  pauseTourForUser();
+  const snapshot = appState.history.redo();
+  if (snapshot) applyViewSnapshot(snapshot);
+}
+
+/**
+ * 恢复快照：部件位置由状态机平滑过渡，相机由 updateCameraTween 过渡（transitionTime 为 0 时直接跳转）
+ * 返回的 Promise 在相机和部件的过渡都结束（或相机过渡被打断）时 resolve
+ */
+function applyViewSnapshot(
+  snapshot: ViewSnapshot,
+  transitionTime: number = VIEW_HISTORY_CONFIG.CAMERA_TRANSITION_TIME
+): Promise<void> {
+  appState.stateMachine?.dispatch({ type: 'RESTORE', snapshot: snapshot.mech, source: 'api' });
+  
+  if (appState.mechModel && snapshot.materialMode !== appState.materialMode) {
+    appState.materialMode = snapshot.materialMode;
+    applyMaterialMode(appState.mechModel, snapshot.materialMode);
+  }
+  
+  const current = captureViewSnapshot();
+  stopCameraTween();
+  let cameraDone: Promise<unknown> = Promise.resolve();
+  if (transitionTime <= 0) {
+    applyCameraPose(snapshot.camera);
+  } else if (current) {
+    const tween = createTween({ duration: transitionTime, easing: 'smoothstep' });
+    appState.cameraTween = { from: current.camera, to: snapshot.camera, tween };
+    cameraDone = tween.finished;
+  }
+  
+  const partsDone = appState.stateMachine?.whenSettled() ?? Promise.resolve();
+  return Promise.all([cameraDone, partsDone]).then(() => undefined);
+}
+
+function updateCameraTween(deltaTime: number): void {
+  const cameraTween = appState.cameraTween;
+  if (!cameraTween) return;
+  
+  const eased = cameraTween.tween.update(deltaTime);
+  const lerp = (a: Vec3Tuple, b: Vec3Tuple): Vec3Tuple => [
+    a[0] + (b[0] - a[0]) * eased,
+    a[1] + (b[1] - a[1]) * eased,
+    a[2] + (b[2] - a[2]) * eased
+  ];
+  
+  const { from, to } = cameraTween;
+  applyCameraPose({ position: lerp(from.position, to.position), target: lerp(from.target, to.target) });
+  
+  if (cameraTween.tween.isDone()) appState.cameraTween = null;
+}
+
+/**
+ * 打断相机过渡（等待中的调用方随之结束）
+ */
+function stopCameraTween(): void {
+  appState.cameraTween?.tween.cancel();
+  appState.cameraTween = null;
+}
+
+function applyCameraPose(pose: CameraPose): void {
+  if (!appState.sceneContext) return;
+  const controls = appState.sceneContext.controls;
+  appState.sceneContext.camera.position.set(...pose.position);
+  if (controls) {
+    controls.target.set(...pose.target);
+    controls.update();
+  }
+}
+
+// ============================================
+// 视图书签
+// ============================================
+
+/**
+ * 保存当前视图为书签（名称自动生成，双击可重命名）
+ */
+function saveBookmark(): void {
+  const snapshot = captureViewSnapshot();
+  if (!snapshot || !appState.bookmarks) return;
+  
+  const { bookmark, saved } = appState.bookmarks.add(describeView(snapshot), snapshot, appState.currentModelId, captureThumbnail());
+  appState.bookmarkStrip?.update(appState.bookmarks.getAll());
+  setActiveBookmark(bookmark.id);
+  if (!saved) {
+    showBookmarkMessage(getBookmarkNotSavedText());
+  }
+}
+
+/**
+ * 恢复书签，书签属于模型库中的其他模型时先切换模型
+ */
+async function restoreBookmark(bookmark: ViewBookmark): Promise<void> {
+  pauseTourForUser();
+  const { modelId, snapshot } = bookmark;
+  if (modelId && modelId !== appState.currentModelId && getCatalogEntry(appState.modelCatalog, modelId)) {
+    await switchToCatalogModel(modelId);
+    // 加载失败或被其他加载占用
+    if (appState.currentModelId !== modelId) return;
+  }
+  
+  applyViewSnapshot(snapshot);
+  // 相机过渡期间不会记录历史，直接记录最终视图
+  const current = captureViewSnapshot();
+  if (current) appState.history.record({ ...current, camera: snapshot.camera });
+  setActiveBookmark(bookmark.id);
+}
+
+/**
+ * 按顺序切换书签（手势），当前没有书签时从头 / 尾开始
+ */
+function cycleBookmark(direction: 1 | -1): void {
+  const bookmarks = appState.bookmarks?.getAll() ?? [];
+  if (bookmarks.length === 0) return;
+  
+  const currentIndex = bookmarks.findIndex(bookmark => bookmark.id === appState.activeBookmarkId);
+  const nextIndex = currentIndex === -1
+    ? (direction > 0 ? 0 : bookmarks.length - 1)
+    : (currentIndex + direction + bookmarks.length) % bookmarks.length;
+  restoreBookmark(bookmarks[nextIndex]);
+}
+
+function renameBookmark(bookmark: ViewBookmark): void {
+  const isEn = getCurrentLang() === 'en';
+  const name = window.prompt(isEn ? 'Bookmark name' : '书签名称', bookmark.name);
+  if (!name?.trim() || !appState.bookmarks) return;
+  appState.bookmarks.rename(bookmark.id, name.trim());
+  appState.bookmarkStrip?.update(appState.bookmarks.getAll());
+}
+
+function deleteBookmark(bookmark: ViewBookmark): void {
+  const isEn = getCurrentLang() === 'en';
+  if (!appState.bookmarks || !window.confirm(isEn ? `Delete "${bookmark.name}"?` : `删除「${bookmark.name}」？`)) return;
+  appState.bookmarks.remove(bookmark.id);
+  appState.bookmarkStrip?.update(appState.bookmarks.getAll());
+}
+
+function exportBookmarks(): void {
+  if (!appState.bookmarks) return;
+  const blob = new Blob([appState.bookmarks.exportJSON()], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'jarvis-bookmarks.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function importBookmarks(text: string): void {
+  if (!appState.bookmarks) return;
+  const isEn = getCurrentLang() === 'en';
+  try {
+    const { imported, skipped, saved } = appState.bookmarks.importJSON(text);
+    appState.bookmarkStrip?.update(appState.bookmarks.getAll());
+    const messages = [isEn ? `Imported ${imported} bookmarks` : `已导入 ${imported} 个书签`];
+    if (skipped > 0) {
+      messages.push(isEn
+        ? `${skipped} skipped (limit ${BOOKMARK_CONFIG.MAX_BOOKMARKS}, delete some bookmarks first)`
+        : `${skipped} 个超出上限 ${BOOKMARK_CONFIG.MAX_BOOKMARKS} 未导入，请先删除部分书签`);
+    }
+    if (!saved) {
+      messages.push(getBookmarkNotSavedText());
+    }
+    showBookmarkMessage(messages.join(isEn ? '. ' : '，'));
+  } catch (error) {
+    showBookmarkMessage(isEn ? `Invalid bookmark file: ${(error as Error).message}` : `书签文件无效：${(error as Error).message}`);
+  }
+}
+
+/**
+ * 书签提示（借用拖放遮罩显示，2 秒后隐藏）
+ */
+function showBookmarkMessage(text: string): void {
+  showDropOverlay(text);
+  setTimeout(hideDropOverlay, 2000);
+}
+
+/**
+ * 书签写入 localStorage 失败（超出存储配额）时的提示
+ */
+function getBookmarkNotSavedText(): string {
+  return getCurrentLang() === 'en'
+    ? 'Browser storage is full: bookmarks will be lost on reload, export them to keep them'
+    : '浏览器存储已满：书签刷新后会丢失，请导出保存';
+}
+
+function setActiveBookmark(id: string | null): void {
+  appState.activeBookmarkId = id;
+  appState.bookmarkStrip?.setActive(id);
+}
+
+/**
+ * 书签默认名称：部件 · 视图状态 · 材质
+ */
+function describeView(snapshot: ViewSnapshot): string {
+  const isEn = getCurrentLang() === 'en';
+  const { focusPath, state } = snapshot.mech;
+  const subject = focusPath.length > 0
+    ? getPartName(focusPath[focusPath.length - 1])
+    : (isEn ? 'Robot' : '机器人');
+  const stateNames: Record<SimpleViewState, [string, string]> = {
+    'Assembled': ['组装', 'Assembled'],
+    'Exploded': ['拆解', 'Exploded'],
+    'PartView': ['组件视图', 'Part view'],
+    'Assembly': ['装配说明', 'Assembly guide']
+  };
+  const materialNames: Record<MaterialMode, [string, string]> = {
+    'default': ['默认', 'Default'],
+    'metal': ['金属', 'Metal'],
+    'wire': ['线框', 'Wireframe']
+  };
+  const lang = isEn ? 1 : 0;
+  return `${subject} · ${stateNames[state][lang]} · ${materialNames[snapshot.materialMode][lang]}`;
+}
+
+/**
+ * 渲染当前画面的缩略图（按缩略图比例裁剪画面中心）
+ */
+function captureThumbnail(): string {
+  if (!appState.sceneContext) return '';
+  const { renderer, scene, camera } = appState.sceneContext;
+  const { THUMBNAIL_WIDTH: width, THUMBNAIL_HEIGHT: height } = BOOKMARK_CONFIG;
+  
+  // 画布没有 preserveDrawingBuffer，渲染后立即读取
+  renderer.render(scene, camera);
+  const source = renderer.domElement;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  
+  const scale = Math.min(source.width / width, source.height / height);
+  ctx.drawImage(
+    source,
+    (source.width - width * scale) / 2, (source.height - height * scale) / 2, width * scale, height * scale,
+    0, 0, width, height
+  );
+  return canvas.toDataURL('image/jpeg', BOOKMARK_CONFIG.THUMBNAIL_QUALITY);
+}
+
+// ============================================
+// 导览
+// ============================================
+
+/**
+ * 播放导览，导览属于模型库中的其他模型时先切换模型
+ */
+async function startTour(tourId: string): Promise<void> {
+  const tour = appState.tours.find(t => t.id === tourId);
+  if (!tour || !appState.tourPlayer) return;
+  
+  const { modelId } = tour;
+  if (modelId && modelId !== appState.currentModelId && getCatalogEntry(appState.modelCatalog, modelId)) {
+    await switchToCatalogModel(modelId);
+    if (appState.currentModelId !== modelId) return;
+  }
+  appState.tourPlayer.start(tour);
+}
+
+/**
+ * 播放 / 暂停；未播放时播放指定的（或导览栏中选中的）导览
+ */
+function toggleTour(tourId?: string): void {
+  const player = appState.tourPlayer;
+  if (!player) return;
+  if (player.isActive()) {
+    player.toggle();
+    return;
+  }
+  const id = tourId ?? appState.tourPanel?.getSelectedTourId();
+  if (id) startTour(id);
+}
+
+function stepTour(direction: 1 | -1): void {
+  if (direction > 0) {
+    appState.tourPlayer?.next();
+  } else {
+    appState.tourPlayer?.prev();
+  }
+}
+
+/**
+ * 用户操作时暂停正在播放的导览
+ */
+function pauseTourForUser(): void {
+  appState.tourPlayer?.pause();
+}
+
+function applyTourStep(step: TourStep): void {
+  const current = captureViewSnapshot();
+  if (current) {
+    applyViewSnapshot(getTourStepSnapshot(step, current), getTourStepTransition(step));
+  }
+  updateTourPanel();
+}
+
+function handleTourStatusChange(_status: TourStatus): void {
+  updateTourPanel();
+}
+
+function updateTourPanel(): void {
+  const player = appState.tourPlayer;
+  if (!player) return;
+  appState.tourPanel?.update(player.getStatus(), player.getTour(), player.getStepIndex());
+}
+
+// ============================================
+// URL 视图状态（分享链接）
+// ============================================
+
+/**
+ * 按 URL hash 恢复视图（页面加载时直接跳转，hash 被手动修改时平滑过渡）
+ */
+function restoreViewFromUrl(animate: boolean): void {
+  const current = captureViewSnapshot();
+  if (!current) return;
+  const parsed = parseViewHash(window.location.hash, current);
+  if (!parsed) return;
+  
+  if (parsed.lang && parsed.lang !== getCurrentLang()) {
+    window.applyLanguage?.(parsed.lang);
+  }
+  applyViewSnapshot(parsed.snapshot, animate ? VIEW_HISTORY_CONFIG.CAMERA_TRANSITION_TIME : 0);
+}
+
+/**
+ * 把当前视图写入地址栏（按 UPDATE_INTERVAL 节流，replaceState 不产生浏览记录）
+ */
+function updateViewHash(currentTime: number): void {
+  if (currentTime - appState.lastHashUpdate < URL_STATE_CONFIG.UPDATE_INTERVAL) return;
+  appState.lastHashUpdate = currentTime;
+  
+  const snapshot = captureViewSnapshot();
+  if (!snapshot) return;
+  const hash = serializeViewHash(snapshot, getCurrentLang());
+  if (hash !== window.location.hash) {
+    window.history.replaceState(null, '', hash);
+  }
+}
+
+// ============================================
+// 模型切换（本地导入）
+// ============================================
+
+/**
+ * 按 URL 参数 ?model= 选择初始模型，找不到时使用默认模型
+ */
+function getInitialCatalogEntry(): ModelCatalogEntry {
+  const requested = new URLSearchParams(window.location.search).get('model');
+  return (requested && getCatalogEntry(appState.modelCatalog, requested))
+    || getCatalogEntry(appState.modelCatalog, APP_CONFIG.DEFAULT_MODEL)
+    || appState.modelCatalog[0];
+}
+
+/**
+ * 切换到模型库中的模型
+ */
+async function switchToCatalogModel(modelId: string): Promise<void> {
+  const entry = getCatalogEntry(appState.modelCatalog, modelId);
+  if (!entry || !appState.sceneContext || appState.isLoadingModel) return;
+  if (modelId === appState.currentModelId) return;
+  
+  appState.isLoadingModel = true;
+  const name = getCatalogEntryName(entry);
+  const isEn = getCurrentLang() === 'en';
+  showDropOverlay(isEn ? `Loading ${name}...` : `正在加载 ${name}...`);
+  
+  try {
+    const model = await loadMechModel(appState.sceneContext.scene, {
+      modelPath: entry.modelPath,
+      manifestPath: entry.manifestPath,
+      modelName: entry.names.en || entry.id,
+      onProgress: (progress, detail) => {
+        const text = isEn ? `Loading ${name}... ${Math.round(progress)}%` : `正在加载 ${name}... ${Math.round(progress)}%`;
+        showDropOverlay(detail ? `${text} · ${detail}` : text);
+      },
+      scale: 1,
+      autoExplode: APP_CONFIG.AUTO_EXPLODE,
+      dracoDecoderPath: appState.assets.draco.base,
+      basisTranscoderPath: appState.assets.basis.base,
+      renderer: appState.sceneContext.renderer
+    });
+    switchModel(model);
+    appState.currentModelId = entry.id;
+    updateModelUrlParam(entry.id);
+  } finally {
+    appState.isLoadingModel = false;
+    hideDropOverlay();
+    updateModelSelect();
+  }
+}
+
+/**
+ * 加载拖入的本地模型并替换当前模型
+ */
+async function importDroppedModel(dropped: DroppedModel): Promise<void> {
+  if (!appState.sceneContext || appState.isLoadingModel) {
+    dropped.revoke();
+    return;
+  }
+  
+  appState.isLoadingModel = true;
+  const isEn = getCurrentLang() === 'en';
+  showDropOverlay(isEn ? `Loading ${dropped.modelName}...` : `正在加载 ${dropped.modelName}...`);
+  
+  let loadError: string | null = null;
+  try {
+    const { scene, renderer } = appState.sceneContext;
+    const model = await loadMechModel(scene, {
+      modelPath: dropped.modelUrl,
+      modelName: dropped.modelName,
+      resourceUrls: dropped.resourceUrls,
+      manifest: dropped.manifest ?? undefined,
+      onProgress: (progress, detail) => {
+        const text = isEn
+          ? `Loading ${dropped.modelName}... ${Math.round(progress)}%`
+          : `正在加载 ${dropped.modelName}... ${Math.round(progress)}%`;
+        showDropOverlay(detail ? `${text} · ${detail}` : text);
+      },
+      scale: 1,
+      autoExplode: APP_CONFIG.AUTO_EXPLODE,
+      dracoDecoderPath: appState.assets.draco.base,
+      basisTranscoderPath: appState.assets.basis.base,
+      renderer
+    });
+    loadError = model.report.loadError;
+    if (loadError) {
+      // 加载失败时得到的是占位模型：丢弃它，保留当前模型
+      disposeMechModel(scene, model);
+    } else {
+      switchModel(model);
+      appState.currentModelId = null;
+      updateModelUrlParam(null);
+      //console.log(`📦 已导入 ${dropped.modelName}，绑定部件数:`, model.parts.size);
+    }
+  } finally {
+    // 贴图和几何体已上传，blob URL 不再需要
+    dropped.revoke();
+    appState.isLoadingModel = false;
+    if (loadError) {
+      showDropOverlay(isEn ? `Failed to load ${dropped.modelName}: ${loadError}` : `${dropped.modelName} 加载失败：${loadError}`);
+      setTimeout(hideDropOverlay, 4000);
+      // 当前模型不变（本地导入的模型以它的名称显示）
+      updateModelSelect(appState.mechModel?.report.modelName);
+    } else {
+      hideDropOverlay();
+      updateModelSelect(dropped.modelName);
+    }
+  }
+}
+
+/**
+ * 用新模型替换当前模型，并把状态机、鼠标控制器和材质模式重新绑定
+ */
+function switchModel(model: MechModel): void {
+  const { sceneContext, stateMachine, mouseController } = appState;
+  if (!sceneContext || !stateMachine || !mouseController) return;
+  
+  // 释放旧模型和旧的圆环装饰
+  stateMachine.dispose();
+  if (appState.mechModel) {
+    disposeMechModel(sceneContext.scene, appState.mechModel);
+  }
+  
+  appState.mechModel = model;
+  applyMaterialMode(model, appState.materialMode);
+  
+  stateMachine.init(model, sceneContext.scene, sceneContext.camera);
+  stateMachine.reset();
+  updateExplodeStrategySelect();
+  updatePosePanel();
+  updatePoseSelect();
+  
+  mouseController.setModel(model);
+  mouseController.setInteractableParts(stateMachine.getInteractableParts());
+  updateHoveredPart(null);
+  
+  appState.diagnosticsPanel?.update(model.report);
+  
+  // 旧模型的历史和导览不再适用
+  appState.tourPlayer?.stop();
+  stopCameraTween();
+  appState.history.clear(captureViewSnapshot() ?? undefined);
+}
+
 // ============================================
 // 材质模式切换
 // ============================================
 
 function cycleMaterialMode(direction: 'up' | 'down'): void {
   if (!appState.mechModel) return;
+  pauseTourForUser();
   
   const currentIndex = MATERIAL_MODES.indexOf(appState.materialMode);
   const delta = direction === 'up' ? 1 : -1;
@@ -363,11 +1202,165 @@ function cycleMaterialMode(direction: 'up' | 'down'): void {
   
   appState.materialMode = nextMode;
   applyMaterialMode(appState.mechModel, nextMode);
+  recordHistory();
   
   const label = nextMode === 'default' ? '默认' : nextMode === 'metal' ? '金属' : '线框';
   //console.log(`[MaterialMode] 切换到 ${label}`);
 }
 
+/**
+ * 切换到下一个拆解编排，并短暂提示编排名称
+ */
+function cycleChoreography(): void {
+  const stateMachine = appState.stateMachine;
+  if (!stateMachine) return;
+  pauseTourForUser();
+  
+  const choreographies = stateMachine.getChoreographies();
+  if (choreographies.length === 0) return;
+  const currentIndex = choreographies.findIndex(choreography => choreography.id === stateMachine.getChoreography());
+  const next = choreographies[(currentIndex + 1) % choreographies.length];
+  stateMachine.setChoreography(next.id);
+  
+  showDropOverlay(getCurrentLang() === 'en' ? `Explosion: ${next.name}` : `拆解编排：${next.name}`);
+  setTimeout(hideDropOverlay, 1200);
+}
+
+/**
+ * 切换到下一个拆解方式（键盘），同步 HUD 下拉框
+ */
+function cycleExplodeStrategy(): void {
+  const stateMachine = appState.stateMachine;
+  if (!stateMachine) return;
+  
+  const strategies = stateMachine.getExplodeStrategies();
+  if (strategies.length === 0) return;
+  const currentIndex = strategies.findIndex(strategy => strategy.id === stateMachine.getExplodeStrategy());
+  setExplodeStrategy(strategies[(currentIndex + 1) % strategies.length].id);
+}
+
+function setExplodeStrategy(strategy: ExplodeStrategyId): void {
+  if (!appState.stateMachine?.setExplodeStrategy(strategy)) return;
+  pauseTourForUser();
+  updateExplodeStrategySelect();
+}
+
+function initExplodeStrategySelect(): void {
+  const select = document.getElementById('explode-strategy-select') as HTMLSelectElement | null;
+  if (!select) return;
+  
+  select.addEventListener('change', () => {
+    setExplodeStrategy(select.value as ExplodeStrategyId);
+    select.blur();  // 交还键盘焦点（方向键不再切换选项）
+  });
+  updateExplodeStrategySelect();
+}
+
+function updateExplodeStrategySelect(): void {
+  const select = document.getElementById('explode-strategy-select') as HTMLSelectElement | null;
+  if (select && appState.stateMachine) {
+    select.value = appState.stateMachine.getExplodeStrategy();
+  }
+}
+
+// ============================================
+// 姿态
+// ============================================
+
+/**
+ * 摆姿态（面板拖动时不刷新面板，避免重建正在拖动的滑块）
+ */
+function setJointAngle(partId: PartId, angles: JointAngles, refreshPanel: boolean = true): boolean {
+  if (!appState.stateMachine?.setJointAngle(partId, angles)) return false;
+  pauseTourForUser();
+  if (refreshPanel) updatePosePanel();
+  updatePoseSelect();
+  return true;
+}
+
+function resetPose(): void {
+  if (!appState.stateMachine?.resetPose()) return;
+  pauseTourForUser();
+  updatePosePanel();
+  updatePoseSelect();
+}
+
+/**
+ * 平滑过渡到姿态库中的命名姿态（面板在过渡结束时同步，见 handlePoseChange）
+ */
+function setPose(poseId: string): void {
+  if (appState.stateMachine?.setPose(poseId)) {
+    pauseTourForUser();
+  }
+  updatePoseSelect();
+}
+
+/**
+ * 切换到下一个姿态（手势），同步 HUD 下拉框
+ */
+function cyclePose(): void {
+  const stateMachine = appState.stateMachine;
+  if (!stateMachine) return;
+  
+  const poses = stateMachine.getPoses();
+  if (poses.length === 0) return;
+  const currentIndex = poses.findIndex(pose => pose.id === stateMachine.getPose());
+  setPose(poses[(currentIndex + 1) % poses.length].id);
+}
+
+function initPoseSelect(): void {
+  const select = document.getElementById('pose-select') as HTMLSelectElement | null;
+  if (!select) return;
+  
+  select.addEventListener('change', () => {
+    if (select.value) {
+      setPose(select.value);
+    }
+    select.blur();  // 交还键盘焦点（方向键不再切换选项）
+  });
+  updatePoseSelect();
+}
+
+/**
+ * 刷新姿态下拉框：选项为当前模型可用的姿态，手动调整过关节时显示“自定义”
+ * 没有关节的模型隐藏整行，组件视图和装配说明中禁用
+ */
+function updatePoseSelect(): void {
+  const select = document.getElementById('pose-select') as HTMLSelectElement | null;
+  const row = document.getElementById('pose-row');
+  const stateMachine = appState.stateMachine;
+  if (!select || !stateMachine) return;
+  
+  const poses = stateMachine.getPoses();
+  if (row) row.style.display = poses.length > 0 ? '' : 'none';
+  
+  select.innerHTML = '';
+  poses.forEach(pose => select.appendChild(new Option(pose.name, pose.id)));
+  const current = stateMachine.getPose();
+  if (current && poses.some(pose => pose.id === current)) {
+    select.value = current;
+  } else {
+    const option = new Option(getCurrentLang() === 'en' ? 'Custom' : '自定义', '');
+    select.insertBefore(option, select.firstChild);
+    select.value = '';
+  }
+  select.disabled = !stateMachine.canPose();
+}
+
+function updatePosePanel(): void {
+  const { stateMachine, posePanel } = appState;
+  if (!stateMachine || !posePanel) return;
+  
+  posePanel.setJoints(stateMachine.getJoints().map(({ id, name }) => ({
+    id,
+    name,
+    kind: appState.mechModel?.parts.get(id)?.joint?.kind,
+    limits: stateMachine.getJointLimits(id),
+    angles: stateMachine.getJointAngle(id)
+  })));
+  posePanel.setEnabled(stateMachine.canPose());
+}
+
 // ============================================
 // 手势模拟鼠标移动
 // ============================================
@@ -414,7 +1407,8 @@ function updateModeStatus(state: SimpleViewState): void {
     const names: Record<SimpleViewState, string> = {
       'Assembled': '组装',
       'Exploded': '拆解',
-      'PartView': '组件视图'
+      'PartView': '组件视图',
+      'Assembly': '装配说明'
     };
     el.textContent = names[state];
   }
@@ -440,13 +1434,123 @@ function updateHoveredPart(displayName: string | null): void {
     if (displayName) {
       name.textContent = displayName;
     } else {
-      // 默认显示"机器人/Robot"
+      // 默认显示模型名称（内置模型为"机器人/Robot"）
       const lang = getCurrentLang();
-      name.textContent = lang === 'en' ? 'Robot' : '机器人';
+      const names = appState.mechModel?.manifest.names;
+      name.textContent = names?.[lang] || names?.en || (lang === 'en' ? 'Robot' : '机器人');
     }
   }
 }
 
+function getCatalogEntryName(entry: ModelCatalogEntry): string {
+  return entry.names[getCurrentLang()] || entry.names.en || entry.id;
+}
+
+/**
+ * 初始化模型下拉框
+ */
+function initModelSelect(): void {
+  const select = document.getElementById('model-select') as HTMLSelectElement | null;
+  if (!select) return;
+  
+  select.addEventListener('change', () => {
+    if (select.value) {
+      switchToCatalogModel(select.value);
+    }
+  });
+  updateModelSelect();
+}
+
+/**
+ * 刷新模型下拉框选项
+ * @param localModelName 当前为本地导入模型时显示的名称
+ */
+function updateModelSelect(localModelName?: string): void {
+  const select = document.getElementById('model-select') as HTMLSelectElement | null;
+  if (!select) return;
+  
+  select.innerHTML = '';
+  appState.modelCatalog.forEach(entry => {
+    select.appendChild(new Option(getCatalogEntryName(entry), entry.id));
+  });
+  
+  if (appState.currentModelId) {
+    select.value = appState.currentModelId;
+  } else if (localModelName) {
+    // 本地导入的模型不在模型库中，作为临时选项显示
+    const option = new Option(localModelName, '');
+    select.insertBefore(option, select.firstChild);
+    select.value = '';
+  }
+  select.disabled = appState.isLoadingModel;
+}
+
+/**
+ * 同步 URL 参数 ?model=（不刷新页面）
+ */
+function updateModelUrlParam(modelId: string | null): void {
+  const url = new URL(window.location.href);
+  if (modelId) {
+    url.searchParams.set('model', modelId);
+  } else {
+    url.searchParams.delete('model');
+  }
+  window.history.replaceState(null, '', url);
+}
+
+function showDropOverlay(text: string): void {
+  const overlay = document.getElementById('drop-overlay');
+  const el = document.getElementById('drop-overlay-text');
+  if (el) el.textContent = text;
+  if (overlay) overlay.classList.remove('hidden');
+}
+
+function hideDropOverlay(): void {
+  const overlay = document.getElementById('drop-overlay');
+  if (overlay) overlay.classList.add('hidden');
+}
+
+function updateFocusPath(path: PartId[]): void {
+  const row = document.getElementById('focus-path-row');
+  const el = document.getElementById('focus-path');
+  
+  // 只有深入到第二级及以上才显示面包屑
+  if (row) row.style.display = path.length > 1 ? '' : 'none';
+  if (el) el.textContent = path.map(getPartName).join(' › ');
+}
+
+/**
+ * 更新离线资源状态：全部使用本地资源时隐藏
+ */
+function updateAssetStatus(): void {
+  const row = document.getElementById('asset-row');
+  const el = document.getElementById('asset-status');
+  const isEn = getCurrentLang() === 'en';
+  const names: Record<AssetId, string> = {
+    draco: 'Draco',
+    basis: 'KTX2',
+    mediapipe: isEn ? 'Hand tracking' : '手势识别'
+  };
+  const statusText = {
+    local: '',
+    fallback: 'CDN',
+    failed: isEn ? 'unavailable' : '不可用'
+  };
+  
+  const issues = (Object.keys(appState.assets) as AssetId[])
+    .filter(id => appState.assets[id].status !== 'local')
+    .map(id => `${names[id]}: ${statusText[appState.assets[id].status]}`);
+  
+  if (row) row.style.display = issues.length > 0 ? '' : 'none';
+  if (el) {
+    el.textContent = issues.join(' · ');
+    // 回退到 CDN 为提示，不可用为错误
+    const failed = Object.values(appState.assets).some(asset => asset.status === 'failed');
+    el.classList.toggle('highlight', issues.length > 0 && !failed);
+    el.classList.toggle('error', failed);
+  }
+}
+
 // updateHint 函数保留，可能在其他地方使用
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 function updateHint(hint: string): void {
@@ -476,11 +1580,23 @@ function animate(): void {
   appState.lastTime = currentTime;
   
   // 更新键盘控制器（检测A/S键）
-  appState.keyboardController?.update();
+  appState.keyboardController?.update(deltaTime);
+  
+  // 悬停高亮淡入淡出（先于状态机，装配说明的高亮每帧覆盖在其上）
+  appState.mouseController?.update(deltaTime);
   
   // 更新状态机
   appState.stateMachine?.update(deltaTime);
   
+  // 导览推进
+  appState.tourPlayer?.update(deltaTime);
+  
+  // 撤销/重做、书签和导览的相机过渡
+  updateCameraTween(deltaTime);
+  
+  // 地址栏始终是当前视图的分享链接
+  updateViewHash(currentTime);
+  
   // 更新场景效果
   if (appState.sceneContext) {
     updateSceneEffects(appState.sceneContext, currentTime);
@@ -517,6 +1633,11 @@ function cleanup(): void {
   appState.keyboardController?.dispose();
   appState.mouseController?.dispose();
   appState.gestureController?.dispose();
+  appState.dropController?.dispose();
+  appState.diagnosticsPanel?.dispose();
+  appState.bookmarkStrip?.dispose();
+  appState.tourPanel?.dispose();
+  appState.posePanel?.dispose();
   appState.stateMachine?.dispose();
   
   if (appState.sceneContext) {
@@ -4,66 +4,121 @@
  * 状态：
  * 1. Assembled - 整机组装状态
  * 2. Exploded - 拆解状态（可选择大部件）
- * 3. PartView - 组件视图（选中部件居中，其余环状排列）
+ * 3. PartView - 组件视图（选中部件居中，同级部件环状排列）
+ * 4. Assembly - 分步装配 / 拆卸说明（见 three/assemblyGuide.ts）
  * 
- * 交互：
- * - A键长按：拆解
- * - S键长按：聚拢
- * - 鼠标悬停：高亮部件（由鼠标控制器处理）
- * - 双击左键：进入组件视图
- * - 上下/左右箭头：切换零件
- * - ESC：返回
+ * 组件视图支持任意深度的部件树：focusPath 记录从大部件到当前部件的路径，
+ * 每一级都使用同一套圆环布局（当前部件进大圆环，同级部件进小圆环），
+ * 末级零件（如左手）同样可以单独聚焦，左右切换它的同级零件。
+ * 
+ * 状态转换由声明式状态图描述（见 stateChart.ts 与 createChartDefinition），
+ * 键盘、鼠标、手势和 API 都通过 dispatch 发送命名事件：
+ * - ADJUST_EXPLOSION：拆解 / 聚拢（A / S 键、手势）
+ * - HOVER：悬停部件（高亮由鼠标控制器处理）
+ * - SELECT：进入组件视图；在组件视图中选择当前部件的子零件则深入一级（双击 / Enter / 捏合）
+ * - NAVIGATE：切换同级零件（左右箭头、挥手）
+ * - BACK：返回上一级（ESC）
+ * - RESET：回到初始状态（切换模型时）
+ * - RESTORE：恢复快照（撤销/重做，见 viewHistory.ts）
+ * - ASSEMBLY：开始装配 / 拆卸说明（I / Shift+I），其中 NAVIGATE 切换步骤、BACK 退出
+ * 当前状态不接受的事件会被拒绝，并通过 onEventRejected 报告。
+ * 
+ * 拆解、布局过渡和圆环装饰都按每帧的 deltaTime 推进（见 three/tween.ts），与刷新率无关，
+ * 可通过 whenSettled() 等待动画结束。
+ * 
+ * 部件的拆解位移全部由 ExplodeController 负责（见 three/explodeController.ts），状态机只下发拆解目标和聚焦根：
+ * 普通拆解中部件的偏移由拆解方式决定（预设 / 径向 / 轴向 / 逐级），各大部件按当前拆解编排错峰移动，
+ * 可通过 setExplodeStrategy() / setChoreography() 随时切换。
+ * 
+ * 整机和拆解状态下可以通过 setJointAngle() 摆姿态，或用 setPose() 平滑过渡到姿态库中的命名姿态
+ * （见 three/jointPose.ts、types/poseConfig.ts），拆解以当前姿态为基准。
  */
 
 import * as THREE from 'three';
 import {
   PartId,
   MajorPartId,
-  MECH_HIERARCHY,
+  MechViewState,
+  Lang,
+  getMechHierarchy,
   getChildParts,
-  PART_DISPLAY_NAMES,
-  PART_DISPLAY_NAMES_EN,
-  EXPLODE_OFFSETS
+  getDescendantParts,
+  getPartDisplayName,
+  getCurrentLang
 } from '../types/mechConfig';
+import { Vec3Tuple, ExplodeStrategyId, JointAxis, JointAngles, getManifestPart } from '../types/mechManifest';
+import { StateChart, StateChartDefinition, ChartRejection, ChartTransition, createStateChart } from './stateChart';
+import { TweenGroup, TWEEN_CONFIG } from '../three/tween';
+import { AssemblyGuide, AssemblyMode, AssemblyStep, createAssemblyGuide } from '../three/assemblyGuide';
+import { ExplodeController, createExplodeController } from '../three/explodeController';
+import { getChoreographyName } from '../three/explodeChoreography';
+import { getExplodeStrategyName } from '../three/explodeStrategy';
+import { PoseController, createPoseController } from '../three/jointPose';
+import { PoseDefinition, BUILTIN_POSES, getPoseName, isPoseApplicable } from '../types/poseConfig';
+import {
+  RING_LAYOUT_CONFIG,
+  RingPartBounds,
+  measureRingBounds,
+  getFitScale,
+  getCenteredOrigin,
+  getMainRingCenter,
+  computeSubRingLayout
+} from '../three/ringLayout';
 
-// 获取当前语言
-function getCurrentLang(): 'zh' | 'en' {
-  if (typeof (window as any).currentLang !== 'undefined') {
-    return (window as any).currentLang;
-  }
-  const saved = localStorage.getItem('jarvis-lang');
-  return (saved === 'en') ? 'en' : 'zh';
-}
-
-// 获取部件显示名称（支持多语言）
-function getPartName(partId: PartId): string {
-  const lang = getCurrentLang();
-  return lang === 'en' ? PART_DISPLAY_NAMES_EN[partId] : PART_DISPLAY_NAMES[partId];
-}
 import { MechModel } from '../three/loadMech';
 
 // ============================================
 // 类型定义
 // ============================================
 
-export type SimpleViewState = 'Assembled' | 'Exploded' | 'PartView';
+export type SimpleViewState = MechViewState;
 
 export interface SimpleUIState {
   state: SimpleViewState;
   globalExplosion: number;       // 全局拆解因子 0-1
   partExplosion: number;         // 部件拆解因子 0-1
   hoveredPart: PartId | null;    // 鼠标悬停的部件
-  selectedMajorPart: MajorPartId | null;  // 选中的大部件
-  currentPartIndex: number;      // 当前零件索引（在PartView中）
-  partList: PartId[];            // 当前显示的零件列表（所有大部件）
+  selectedMajorPart: MajorPartId | null;  // 选中的大部件（focusPath 的第一项）
+  focusPath: PartId[];           // 聚焦路径：大部件 → … → 当前部件（PartView 中至少一项）
+  currentPartIndex: number;      // 当前零件在同级列表中的索引
+  partList: PartId[];            // 当前层级的同级零件列表（第一级为所有大部件）
+}
+
+/** 事件来源（用于报告被拒绝的事件） */
+export type MechEventSource = 'keyboard' | 'mouse' | 'gesture' | 'api';
+
+/** 状态机事件 */
+export type MechEvent =
+  | { type: 'ADJUST_EXPLOSION'; delta: number; source?: MechEventSource }   // 正值拆解，负值聚拢
+  | { type: 'HOVER'; partId: PartId | null; source?: MechEventSource }
+  | { type: 'SELECT'; partId?: PartId; source?: MechEventSource }          // 缺省为当前悬停的部件
+  | { type: 'NAVIGATE'; direction: 'up' | 'down' | 'left' | 'right'; source?: MechEventSource }
+  | { type: 'BACK'; source?: MechEventSource }
+  | { type: 'RESET'; source?: MechEventSource }
+  | { type: 'RESTORE'; snapshot: MechStateSnapshot; source?: MechEventSource }
+  | { type: 'ASSEMBLY'; mode: AssemblyMode; source?: MechEventSource };
+
+/** 状态机快照（撤销/重做用），拆解程度记录的是目标值 */
+export interface MechStateSnapshot {
+  state: SimpleViewState;
+  focusPath: PartId[];
+  globalExplosion: number;
+  partExplosion: number;
+  assembly?: { mode: AssemblyMode; step: number };  // 仅 Assembly 状态
 }
 
+export type MechEventRejection = ChartRejection<SimpleViewState, MechEvent>;
+
 export interface SimpleCallbacks {
   onStateChange?: (newState: SimpleViewState, oldState: SimpleViewState) => void;
   onExplosionChange?: (global: number, part: number) => void;
   onHoverChange?: (partId: PartId | null, displayName: string | null) => void;
   onPartListChange?: (parts: PartId[], currentIndex: number, selectedPart: PartId | null) => void;
-  onPartViewLayout?: (selectedPart: MajorPartId, otherParts: MajorPartId[]) => void;
+  onPartViewLayout?: (selectedPart: PartId, otherParts: PartId[]) => void;
+  onFocusPathChange?: (path: PartId[]) => void;  // 聚焦路径变化（用于 HUD 面包屑）
+  onEventRejected?: (rejection: MechEventRejection) => void;  // 当前状态不接受的事件
+  onAssemblyStep?: (step: AssemblyStep | null, index: number, total: number, mode: AssemblyMode) => void;  // 离开 Assembly 时 step 为 null
+  onPoseChange?: (poseId: string | null) => void;  // 姿态过渡结束
 }
 
 // ============================================
@@ -74,108 +129,258 @@ export class SimpleStateMachine {
   private model: MechModel | null = null;
   private scene: THREE.Scene | null = null;
   private callbacks: SimpleCallbacks;
+  private chart: StateChart<SimpleViewState, MechEvent>;
   
-  // UI 状态
-  private uiState: SimpleUIState = {
-    state: 'Assembled',
-    globalExplosion: 0,
-    partExplosion: 0,
+  // UI 状态（当前状态由状态图保存，拆解程度由拆解控制器保存）
+  private uiState: Omit<SimpleUIState, 'state' | 'globalExplosion' | 'partExplosion'> = {
     hoveredPart: null,
     selectedMajorPart: null,
+    focusPath: [],
     currentPartIndex: 0,
-    partList: [...MECH_HIERARCHY.majorParts]  // 所有大部件列表
+    partList: []  // 所有大部件列表（init 时从清单读取）
   };
   
-  // 目标值（用于平滑过渡）
-  private globalExplosionTarget: number = 0;
-  private partExplosionTarget: number = 0;
+  // 拆解控制器：按目标值移动部件（整机拆解 + 聚焦根的子件拆解）
+  private explode: ExplodeController = createExplodeController();
+  
+  // 姿态控制器：关节转角 → 各部件的姿态基准（init 时创建）
+  private pose: PoseController | null = null;
+  private poseLibrary: PoseDefinition[] = BUILTIN_POSES;
+  
+  // 整机视图的拆解阈值：超过进入 Exploded，低于回到 Assembled
+  private explodedEnterThreshold: number = 0.1;
+  private explodedExitThreshold: number = 0.05;
   
   // ============================================
-  // 圆环布局系统 - 1个大圆环 + 7个小圆环
+  // 圆环布局系统 - 1个大圆环 + N个小圆环（N = 大部件数量）
   // ============================================
   
-  // 大圆环（中心）参数 - 简洁科技风
-  private mainRingRadius: number = 1.2;  // 大圆环半径（缩小）
-  private mainRingCenter = new THREE.Vector3(0, 0.1, 2.0);  // 大圆环中心位置
+  // 大圆环（中心）参数 - 简洁科技风，位置和半径见 RING_LAYOUT_CONFIG
+  private mainRingCenter = getMainRingCenter();  // 大圆环中心位置（世界坐标）
   
-  // 小圆环参数
-  private subRingRadius: number = 0.5;   // 小圆环半径
-  private subRingDistance: number = 4.0; // 小圆环距离中心的距离
-  private subRingZ: number = -2;        // 小圆环的Z位置
+  // 小圆环参数（按同级部件数量和视口宽高比计算，见 ringLayout.ts）
+  private subRingRadius: number = RING_LAYOUT_CONFIG.SUB_RING_RADIUS;
+  private camera: THREE.PerspectiveCamera | null = null;
+  private layoutAspect: number = 0;     // 当前小圆环布局对应的视口宽高比
   
-  // 过渡动画系统
+  // 过渡动画系统（目标位置位于布局空间，即大部件的父节点坐标系）
+  // 起点为过渡开始时部件的局部位置和缩放，由 tweens 中的 'layout' 补间按时间推进
   private transitionTargets: Map<string, THREE.Vector3> = new Map();
   private transitionScales: Map<string, number> = new Map();
-  private isTransitioning: boolean = false;
-  private transitionSpeed: number = 0.08;
-  
-  // ============================================
-  // 每个组件的位置配置（可自行调整）
-  // ============================================
-  
-  // 组件在【大圆环】中心时的位置偏移 (x, y, z)
-  // 调整这些值让组件显示在大圆环中心
-  private partPositionInMainRing: Record<string, { x: number; y: number; z: number }> = {
-    'Head':      { x: -0.1,    y: -1.4,   z: -1 },    // 头部
-    'neck':      { x: -0.2,    y: -1.4,   z: -1 },    // 脖子
-    'mainbody':  { x: -0.1,    y: -1,  z: -1 },    // 主体（重心偏上，需要下移）
-    'Leftarm':   { x: -0.2,    y: -0.1,  z: -1 },    // 左臂
-    'Rightarm':  { x: 0.1,    y: -0.1,  z: -1 },    // 右臂
-    'Leftleg':   { x: 0,    y: 0.1,   z: -1 },    // 左腿（重心偏下，需要上移）
-    'Rightleg':  { x: 0,    y: 0.1,   z: -1 },    // 右腿
-  };
+  private transitionStarts: Map<string, { position: THREE.Vector3; scale: number }> = new Map();
+  private tweens: TweenGroup = new TweenGroup();
+  private settleWaiters: Array<() => void> = [];
   
-  // 组件在【小圆环】中的位置偏移 (x, y, z)
-  // 调整这些值让组件显示在小圆环中心
-  private partPositionInSubRing: Record<string, { x: number; y: number; z: number }> = {
-    'Head':      { x: -0.05,    y: 1.2,   z: 1.3 },    // 头部
-    'neck':      { x: -1.8,    y: 0.35,  z: 1.3 },    // 脖子
-    'mainbody':  { x: -2.25,    y: -1.55,  z: 1.3 },    // 主体
-    'Leftarm':   { x: -1,    y: -2.2,  z: 1.3 },    // 左臂
-    'Rightarm':  { x: 1,    y: -2.2,  z: 1.3 },    // 右臂
-    'Leftleg':   { x: 2.1,    y: -0.5,   z: 1.3 },    // 左腿
-    'Rightleg':  { x: 1.8,    y: 1.5,   z: 1.3 },    // 右腿
-  };
+  // 组件按包围盒自动居中并缩放到圆环内，清单的 ringOffset 可手动覆盖位置
+  private ringBounds: Map<PartId, RingPartBounds> = new Map();
   
-  // 7个小圆环的固定位置（按角度均匀分布）
-  // 索引0-6对应7个位置：顶部开始顺时针
+  // 小圆环的固定位置（世界坐标）
+  // 索引对应当前层级的同级部件顺序
   private subRingFixedPositions: THREE.Vector3[] = [];
   
   // 3D 环形装饰
   private mainRingDecoration: THREE.Group | null = null;  // 大圆环装饰
-  private subRingDecorations: THREE.Group[] = [];         // 7个小圆环装饰
+  private subRingDecorations: THREE.Group[] = [];         // 小圆环装饰
   private ringDecorationVisible: boolean = false;
+  private ringFade: number = 0;                           // 圆环装饰淡入程度 0-1（补间）
   private selectedSubRingIndex: number = -1;              // 当前选中组件对应的小圆环索引
   
+  // 装配说明（进入 Assembly 时按 assemblyRequest 开始）
+  private assemblyGuide: AssemblyGuide | null = null;
+  private assemblyRequest: { mode: AssemblyMode; step: number } = { mode: 'assemble', step: 0 };
+  
   constructor(callbacks: SimpleCallbacks = {}) {
     this.callbacks = callbacks;
-    // 初始化7个小圆环固定位置
-    this.initSubRingPositions();
+    this.chart = createStateChart(this.createChartDefinition(), {
+      onTransition: (newState, oldState) => this.callbacks.onStateChange?.(newState, oldState),
+      onRejected: (rejection) => this.callbacks.onEventRejected?.(rejection)
+    });
+    this.explode.onGlobalFactorChange = () => this.notifyExplosionChange();
+    this.explode.onPartFactorChange = () => this.notifyExplosionChange();
   }
   
+  // ============================================
+  // 状态图
+  // ============================================
+  
   /**
-   * 初始化7个小圆环的固定位置
+   * 状态图定义：每个状态接受哪些事件、守卫条件和对应动作
    */
-  private initSubRingPositions(): void {
-    const count = 7;  // 7个小圆环
-    const angleStep = (Math.PI * 2) / count;
-    const startAngle = -Math.PI / 2;  // 从顶部开始
-    
-    this.subRingFixedPositions = [];
-    for (let i = 0; i < count; i++) {
-      const angle = startAngle + angleStep * i;
-      const x = Math.cos(angle) * this.subRingDistance;
-      const y = Math.sin(angle) * this.subRingDistance;
-      this.subRingFixedPositions.push(new THREE.Vector3(x, y, this.subRingZ));
-    }
+  private createChartDefinition(): StateChartDefinition<SimpleViewState, MechEvent> {
+    return {
+      initial: 'Assembled',
+      on: {
+        HOVER: { actions: [e => this.setHoveredPart(e.partId)] },
+        RESET: { target: 'Assembled', actions: [() => this.resetAll()] },
+        RESTORE: this.createRestoreTransitions()
+      },
+      states: {
+        Assembled: {
+          on: {
+            ADJUST_EXPLOSION: [
+              {
+                target: 'Exploded',
+                guard: e => this.getNextGlobalExplosion(e.delta) > this.explodedEnterThreshold,
+                actions: [e => this.adjustGlobalExplosion(e.delta)]
+              },
+              { actions: [e => this.adjustGlobalExplosion(e.delta)] }
+            ],
+            // 聚拢过程中（拆解程度仍较大）也可以选择
+            SELECT: {
+              target: 'PartView',
+              guard: e => this.explode.getGlobalExplosionFactor() > this.explodedEnterThreshold && this.isMajorPart(this.getSelectTarget(e)),
+              reason: 'explode the model before selecting a part',
+              actions: [e => this.focusMajorPart(this.getSelectTarget(e)!)]
+            },
+            ASSEMBLY: this.createAssemblyTransition()
+          }
+        },
+        Exploded: {
+          on: {
+            ADJUST_EXPLOSION: [
+              {
+                target: 'Assembled',
+                guard: e => this.getNextGlobalExplosion(e.delta) < this.explodedExitThreshold,
+                actions: [e => this.adjustGlobalExplosion(e.delta)]
+              },
+              { actions: [e => this.adjustGlobalExplosion(e.delta)] }
+            ],
+            SELECT: {
+              target: 'PartView',
+              guard: e => this.isMajorPart(this.getSelectTarget(e)),
+              reason: 'only major parts can be selected in the exploded view',
+              actions: [e => this.focusMajorPart(this.getSelectTarget(e)!)]
+            },
+            NAVIGATE: { actions: [e => this.highlightMajorPart(getNavigateDelta(e.direction))] },
+            BACK: { target: 'Assembled', actions: [() => this.explode.setGlobalExplosionTarget(0)] },
+            ASSEMBLY: this.createAssemblyTransition()
+          }
+        },
+        PartView: {
+          entry: [() => this.enterPartView()],
+          exit: [() => this.exitPartView()],
+          on: {
+            ADJUST_EXPLOSION: { actions: [e => this.adjustPartExplosion(e.delta)] },
+            SELECT: [
+              {
+                // 同级部件：切换
+                guard: e => this.getLevelParts().includes(this.getSelectTarget(e) ?? ''),
+                actions: [e => this.selectPart(this.getSelectTarget(e)!)]
+              },
+              {
+                // 当前部件的子零件：深入一级（末级零件也进入大圆环）
+                guard: e => this.canDrillInto(this.getSelectTarget(e)),
+                reason: 'part is neither on the current level nor a child of the focused part',
+                actions: [e => this.drillInto(this.getSelectTarget(e)!)]
+              }
+            ],
+            NAVIGATE: { actions: [e => this.navigateLevel(getNavigateDelta(e.direction))] },
+            BACK: [
+              { guard: () => this.uiState.focusPath.length > 1, actions: [() => this.popFocus()] },
+              // 直接返回 Assembled 状态，拆解归零
+              { target: 'Assembled', actions: [() => this.explode.setGlobalExplosionTarget(0)] }
+            ]
+          }
+        },
+        Assembly: {
+          entry: [() => this.enterAssembly()],
+          exit: [() => this.exitAssembly()],
+          on: {
+            NAVIGATE: {
+              guard: e => this.canStepAssembly(getNavigateDelta(e.direction)),
+              reason: 'no more assembly steps in this direction',
+              actions: [e => this.stepAssembly(getNavigateDelta(e.direction))]
+            },
+            // 切换装配 / 拆卸时从第一步重新开始
+            ASSEMBLY: this.createAssemblyTransition(),
+            BACK: { target: 'Assembled', actions: [() => this.explode.setGlobalExplosionTarget(0)] },
+            RESTORE: [
+              {
+                // 同一模式下只切换步骤，部件从当前位置过渡
+                guard: e => e.snapshot.state === 'Assembly' && e.snapshot.assembly?.mode === this.assemblyGuide?.getMode(),
+                actions: [e => this.goToAssemblyStep(e.snapshot.assembly!.step)]
+              },
+              ...this.createRestoreTransitions()
+            ]
+          }
+        }
+      }
+    };
+  }
+  
+  /**
+   * RESTORE：按快照中的状态选择目标状态
+   */
+  private createRestoreTransitions(): ChartTransition<SimpleViewState, Extract<MechEvent, { type: 'RESTORE' }>>[] {
+    return (['Assembled', 'Exploded', 'PartView', 'Assembly'] as SimpleViewState[]).map(state => ({
+      target: state,
+      guard: e => e.snapshot.state === state
+        && (state !== 'PartView' || this.isValidFocusPath(e.snapshot.focusPath))
+        && (state !== 'Assembly' || (e.snapshot.assembly !== undefined && this.hasAssemblyPlan())),
+      reason: 'snapshot does not match the current model',
+      actions: [e => this.restoreSnapshot(e.snapshot)]
+    }));
+  }
+  
+  /**
+   * ASSEMBLY：进入装配 / 拆卸说明
+   */
+  private createAssemblyTransition(): ChartTransition<SimpleViewState, Extract<MechEvent, { type: 'ASSEMBLY' }>> {
+    return {
+      target: 'Assembly',
+      guard: () => this.hasAssemblyPlan(),
+      reason: 'the model has no parts to assemble',
+      actions: [e => { this.assemblyRequest = { mode: e.mode, step: 0 }; }]
+    };
+  }
+  
+  /**
+   * 发送事件（所有输入源的唯一入口），返回是否被接受
+   */
+  dispatch(event: MechEvent): boolean {
+    return this.chart.send(event);
+  }
+  
+  /**
+   * 当前状态是否接受该事件
+   */
+  canDispatch(event: MechEvent): boolean {
+    return this.chart.can(event);
+  }
+  
+  /**
+   * 初始化小圆环的固定位置和半径（每个同级部件一个）
+   */
+  private initSubRingPositions(count: number): void {
+    this.layoutAspect = this.getViewportAspect();
+    const layout = computeSubRingLayout(count, this.layoutAspect);
+    this.subRingFixedPositions = layout.positions;
+    this.subRingRadius = layout.radius;
+  }
+  
+  /**
+   * 视口宽高比（未传入相机时使用参考宽高比）
+   */
+  private getViewportAspect(): number {
+    return this.camera?.aspect ?? RING_LAYOUT_CONFIG.REFERENCE_ASPECT;
   }
   
   /**
    * 初始化
+   * 部件包围盒在此时测量，需保证模型处于原始姿态
    */
-  init(model: MechModel, scene?: THREE.Scene): void {
+  init(model: MechModel, scene?: THREE.Scene, camera?: THREE.PerspectiveCamera): void {
     this.model = model;
     this.scene = scene || null;
+    this.camera = camera || null;
+    this.uiState.partList = [...this.getMajorParts()];
+    this.assemblyGuide = createAssemblyGuide(model);
+    this.ringBounds = measureRingBounds(model.parts, model.root);
+    this.explode.setModel(model, this.camera ?? undefined);
+    this.pose = createPoseController(model);
+    
+    // 初始化小圆环固定位置
+    this.initSubRingPositions(this.uiState.partList.length);
     
     // 创建3D环形装饰
     if (this.scene) {
@@ -186,7 +391,7 @@ export class SimpleStateMachine {
   }
   
   /**
-   * 创建所有圆环装饰 - 1个大圆环 + 7个小圆环
+   * 创建所有圆环装饰 - 1个大圆环 + N个小圆环
    */
   private createRingDecoration(): void {
     if (!this.scene) return;
@@ -194,7 +399,7 @@ export class SimpleStateMachine {
     // 创建大圆环（中心）
     this.createMainRing();
     
-    // 创建7个小圆环
+    // 创建小圆环
     this.createSubRings();
   }
   
@@ -211,7 +416,7 @@ export class SimpleStateMachine {
     this.mainRingDecoration = new THREE.Group();
     this.mainRingDecoration.name = 'mainRingDecoration';
     
-    const r = this.mainRingRadius;
+    const r = RING_LAYOUT_CONFIG.MAIN_RING_RADIUS;
     
     // 第1层（最外）：青色，无缺口，完整圆环，Z=0
     const ring1Arc = new THREE.TorusGeometry(r, 0.02, 16, 64, Math.PI * 2);  // 完整360度
@@ -285,6 +490,13 @@ export class SimpleStateMachine {
     ring4b.position.z = 0.15;
     this.mainRingDecoration.add(ring4b);
     
+    // 记录各层的基础透明度（淡入淡出时按比例缩放）
+    this.mainRingDecoration.traverse((child) => {
+      if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshBasicMaterial) {
+        child.userData.baseOpacity = child.material.opacity;
+      }
+    });
+    
     // 位置和初始隐藏
     this.mainRingDecoration.position.copy(this.mainRingCenter);
     this.mainRingDecoration.position.z -= 0.5;
@@ -294,14 +506,14 @@ export class SimpleStateMachine {
   }
   
   /**
-   * 创建7个小圆环 - 双层，内层Z坐标突出
+   * 创建小圆环 - 双层，内层Z坐标突出
    */
   private createSubRings(): void {
     if (!this.scene) return;
     
     this.subRingDecorations = [];
     
-    for (let i = 0; i < 7; i++) {
+    for (let i = 0; i < this.subRingFixedPositions.length; i++) {
       const subRing = new THREE.Group();
       subRing.name = `subRing_${i}`;
       
@@ -364,49 +576,57 @@ export class SimpleStateMachine {
   /**
    * 更新所有圆环动画
    */
-  private updateRingDecorationAnimation(time: number): void {
-    if (!this.ringDecorationVisible) return;
+  private updateRingDecorationAnimation(time: number, deltaTime: number): void {
+    if (this.ringFade <= 0) return;
     
     const t = time * 0.001;
+    const dt = deltaTime * 0.001;  // 旋转速度以 弧度/秒 计
     
     // 更新大圆环动画
-    this.updateMainRingAnimation(t);
+    this.updateMainRingAnimation(dt);
     
     // 更新小圆环动画
-    this.updateSubRingsAnimation(t);
+    this.updateSubRingsAnimation(t, dt);
   }
   
   /**
-   * 更新大圆环动画 - 4层圆环交错旋转
+   * 更新大圆环动画 - 4层圆环交错旋转，淡入时由小放大
    */
-  private updateMainRingAnimation(t: number): void {
+  private updateMainRingAnimation(dt: number): void {
     if (!this.mainRingDecoration) return;
     
+    this.mainRingDecoration.scale.setScalar(0.85 + 0.15 * this.ringFade);
+    this.mainRingDecoration.traverse((child) => {
+      if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshBasicMaterial) {
+        child.material.opacity = (child.userData.baseOpacity ?? 1) * this.ringFade;
+      }
+    });
+    
     // 第1层（最外）：完整圆环，慢速顺时针
     const ring1 = this.mainRingDecoration.getObjectByName('ring1');
     if (ring1) {
-      ring1.rotation.z += 0.002;
+      ring1.rotation.z += 0.12 * dt;
     }
     
     // 第2层：多断口，中速逆时针
     ['ring2a', 'ring2b', 'ring2c', 'ring2d', 'ring2e'].forEach((name) => {
       const ring = this.mainRingDecoration!.getObjectByName(name);
       if (ring) {
-        ring.rotation.z -= 0.005;
+        ring.rotation.z -= 0.3 * dt;
       }
     });
     
     // 第3层：一个缺口，快速顺时针
     const ring3 = this.mainRingDecoration.getObjectByName('ring3');
     if (ring3) {
-      ring3.rotation.z += 0.008;
+      ring3.rotation.z += 0.48 * dt;
     }
     
     // 第4层（最内）：两个缺口，最快逆时针
     ['ring4a', 'ring4b'].forEach((name) => {
       const ring = this.mainRingDecoration!.getObjectByName(name);
       if (ring) {
-        ring.rotation.z -= 0.012;
+        ring.rotation.z -= 0.72 * dt;
       }
     });
   }
@@ -414,7 +634,7 @@ export class SimpleStateMachine {
   /**
    * 更新小圆环动画 - 呼吸灯效果 + 旋转
    */
-  private updateSubRingsAnimation(t: number): void {
+  private updateSubRingsAnimation(t: number, dt: number): void {
     this.subRingDecorations.forEach((subRing, index) => {
       if (!subRing.visible) return;
       
@@ -432,27 +652,27 @@ export class SimpleStateMachine {
           
           // 外环旋转（慢）
           if (name.startsWith('outer')) {
-            child.rotation.z += isSelected ? 0.008 : 0.003;
+            child.rotation.z += (isSelected ? 0.48 : 0.18) * dt;
             
             if (isSelected) {
               child.material.color.setHex(0xff4444);
-              child.material.opacity = 0.4 + breathe * 0.5;
+              child.material.opacity = (0.4 + breathe * 0.5) * this.ringFade;
             } else {
               child.material.color.setHex(0x00d4ff);
-              child.material.opacity = 0.4 + breathe * 0.2;
+              child.material.opacity = (0.4 + breathe * 0.2) * this.ringFade;
             }
           }
           
           // 内环旋转（快，反向）
           if (name.startsWith('inner')) {
-            child.rotation.z -= isSelected ? 0.015 : 0.006;
+            child.rotation.z -= (isSelected ? 0.9 : 0.36) * dt;
             
             if (isSelected) {
               child.material.color.setHex(0xff5e5e);
-              child.material.opacity = 0.5 + breathe * 0.5;
+              child.material.opacity = (0.5 + breathe * 0.5) * this.ringFade;
             } else {
               child.material.color.setHex(0x00ffcc);
-              child.material.opacity = 0.5 + breathe * 0.25;
+              child.material.opacity = (0.5 + breathe * 0.25) * this.ringFade;
             }
           }
         }
@@ -461,292 +681,323 @@ export class SimpleStateMachine {
   }
   
   /**
-   * 显示所有圆环装饰
+   * 显示所有圆环装饰（淡入）
    */
   private showRingDecoration(): void {
-    // 显示大圆环
-    if (this.mainRingDecoration) {
-      this.mainRingDecoration.visible = true;
-    }
-    // 显示所有小圆环
-    this.subRingDecorations.forEach(ring => {
-      ring.visible = true;
-    });
     this.ringDecorationVisible = true;
+    this.setRingDecorationObjectsVisible(true);
+    this.fadeRingDecoration(1);
   }
   
   /**
-   * 隐藏所有圆环装饰
+   * 隐藏所有圆环装饰（淡出后隐藏）
    */
   private hideRingDecoration(): void {
-    // 隐藏大圆环
+    this.ringDecorationVisible = false;
+    this.fadeRingDecoration(0);
+  }
+  
+  /**
+   * 圆环装饰淡入 / 淡出到指定程度，时长按剩余距离缩短
+   */
+  private fadeRingDecoration(target: number): void {
+    const duration = TWEEN_CONFIG.RING_FADE_DURATION * Math.abs(target - this.ringFade);
+    this.tweens.start('ringFade', { from: this.ringFade, to: target, duration, easing: 'easeOutQuad' }, value => {
+      this.ringFade = value;
+      if (value <= 0 && !this.ringDecorationVisible) {
+        this.setRingDecorationObjectsVisible(false);
+      }
+    });
+  }
+  
+  private setRingDecorationObjectsVisible(visible: boolean): void {
     if (this.mainRingDecoration) {
-      this.mainRingDecoration.visible = false;
+      this.mainRingDecoration.visible = visible;
     }
-    // 隐藏所有小圆环
     this.subRingDecorations.forEach(ring => {
-      ring.visible = false;
+      ring.visible = visible;
     });
-    this.ringDecorationVisible = false;
   }
   
   /**
-   * 更新小圆环可见性和状态（所有7个小圆环始终显示，选中的变红色闪烁）
+   * 更新小圆环可见性和状态（所有小圆环始终显示，选中的变红色闪烁）
    */
   private updateSubRingVisibility(selectedIndex: number): void {
     // 记录选中的索引
     this.selectedSubRingIndex = selectedIndex;
     
-    // 所有7个小圆环始终显示
+    // 所有小圆环始终显示
     this.subRingDecorations.forEach((ring) => {
       ring.visible = this.ringDecorationVisible;
     });
   }
   
+  /**
+   * 按同级部件数量和视口宽高比重建小圆环（层级切换、窗口缩放时调用）
+   */
+  private rebuildSubRings(count: number): void {
+    if (count === this.subRingFixedPositions.length && this.layoutAspect === this.getViewportAspect()) return;
+    
+    this.disposeSubRings();
+    this.initSubRingPositions(count);
+    this.createSubRings();
+    this.updateSubRingVisibility(this.selectedSubRingIndex);
+  }
+  
+  /**
+   * 移除并释放所有小圆环
+   */
+  private disposeSubRings(): void {
+    this.subRingDecorations.forEach((ring) => {
+      this.scene?.remove(ring);
+      ring.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry.dispose();
+          if (child.material instanceof THREE.Material) {
+            child.material.dispose();
+          }
+        }
+      });
+    });
+    this.subRingDecorations = [];
+  }
+  
   // ============================================
   // 拆解控制
   // ============================================
   
   /**
-   * 调整拆解程度
-   * @param delta 正值拆解，负值聚拢
+   * 整机视图：调整全局拆解（状态切换由状态图的守卫决定）
    */
-  adjustExplosion(delta: number): void {
-    if (this.uiState.state === 'PartView') {
-      // 在组件视图中，调整部件拆解
-      this.partExplosionTarget = Math.max(0, Math.min(1, this.partExplosionTarget + delta));
-    } else {
-      // 在整机视图中，调整全局拆解
-      this.globalExplosionTarget = Math.max(0, Math.min(1, this.globalExplosionTarget + delta));
-      
-      // 自动切换状态
-      if (this.globalExplosionTarget > 0.1 && this.uiState.state === 'Assembled') {
-        this.transitionTo('Exploded');
-      } else if (this.globalExplosionTarget < 0.05 && this.uiState.state === 'Exploded') {
-        this.transitionTo('Assembled');
-      }
-    }
+  private adjustGlobalExplosion(delta: number): void {
+    this.explode.setGlobalExplosionTarget(this.getNextGlobalExplosion(delta));
+  }
+  
+  private getNextGlobalExplosion(delta: number): number {
+    return Math.max(0, Math.min(1, this.explode.getGlobalExplosionTarget() + delta));
+  }
+  
+  /**
+   * 组件视图：调整部件拆解
+   */
+  private adjustPartExplosion(delta: number): void {
+    this.explode.setPartExplosionTarget(this.explode.getPartExplosionTarget() + delta);
+  }
+  
+  private notifyExplosionChange(): void {
+    this.callbacks.onExplosionChange?.(this.explode.getGlobalExplosionFactor(), this.explode.getPartExplosionFactor());
   }
   
   /**
-   * 每帧更新
+   * 每帧更新（deltaTime 为距上一帧的毫秒数，所有动画都按时间推进）
    */
-  update(_deltaTime: number): void {
+  update(deltaTime: number): void {
     if (!this.model) return;
     
-    const smoothing = 0.1;
-    let explosionChanged = false;
-    
-    // 平滑更新全局拆解
-    if (Math.abs(this.uiState.globalExplosion - this.globalExplosionTarget) > 0.001) {
-      this.uiState.globalExplosion += (this.globalExplosionTarget - this.uiState.globalExplosion) * smoothing;
-      explosionChanged = true;
+    // 姿态过渡（组件视图和装配说明中暂停，回到整机后继续）
+    if (this.pose?.isBlending() && this.canPose()) {
+      this.pose.update(deltaTime);
+      this.explode.resetToPose();
+      if (!this.pose.isBlending()) {
+        this.callbacks.onPoseChange?.(this.pose.getPoseId());
+      }
     }
     
-    // 平滑更新部件拆解
-    if (Math.abs(this.uiState.partExplosion - this.partExplosionTarget) > 0.001) {
-      this.uiState.partExplosion += (this.partExplosionTarget - this.uiState.partExplosion) * smoothing;
-      explosionChanged = true;
-    }
+    // 拆解程度按时间跟随目标值，部件位移由拆解控制器完成（视口变化时它也会重新求解）
+    this.explode.update(deltaTime);
     
-    // 应用过渡动画（组件视图）
-    if (this.uiState.state === 'PartView' && this.isTransitioning) {
-      this.applyTransitionAnimation();
-      // 同时应用子部件拆解
-      if (this.uiState.partExplosion > 0) {
-        this.applyPartExplosion();
-      }
-    } else if (explosionChanged) {
-      this.applyExplosion();
+    // 组件视图布局过渡、圆环装饰淡入淡出
+    this.tweens.update(deltaTime);
+    
+    // 装配说明中部件位置由 AssemblyGuide 控制
+    if (this.getState() === 'Assembly') {
+      this.assemblyGuide?.update(deltaTime);
     }
     
-    if (explosionChanged) {
-      this.callbacks.onExplosionChange?.(this.uiState.globalExplosion, this.uiState.partExplosion);
+    // 视口宽高比变化时重新排列小圆环
+    if (this.camera && this.camera.aspect !== this.layoutAspect) {
+      this.rebuildSubRings(this.subRingFixedPositions.length);
+      if (this.getState() === 'PartView') {
+        this.applyPartViewLayout();
+      }
     }
     
     // 更新环形装饰动画
-    this.updateRingDecorationAnimation(performance.now());
-  }
-  
-  /**
-   * 应用拆解效果
-   */
-  private applyExplosion(): void {
-    if (!this.model) return;
+    this.updateRingDecorationAnimation(performance.now(), deltaTime);
     
-    if (this.uiState.state === 'PartView') {
-      // 组件视图：选中部件居中，其余部件环状排列
-      this.applyPartViewLayout();
-    } else {
-      // 普通拆解视图
-      this.applyNormalExplosion();
+    // 动画全部结束时通知 whenSettled 的等待者
+    if (this.settleWaiters.length > 0 && this.isSettled()) {
+      const waiters = this.settleWaiters;
+      this.settleWaiters = [];
+      waiters.forEach(resolve => resolve());
     }
   }
   
   /**
-   * 应用普通拆解效果
-   */
-  private applyNormalExplosion(): void {
-    if (!this.model) return;
-    
-    MECH_HIERARCHY.majorParts.forEach(partId => {
-      const config = this.model!.parts.get(partId);
-      if (!config || !config.node) return;
-      
-      const offset = EXPLODE_OFFSETS[partId];
-      if (!offset) return;
-      
-      // 计算拆解偏移
-      const dir = new THREE.Vector3(offset.direction[0], offset.direction[1], offset.direction[2]).normalize();
-      const distance = offset.distance * this.uiState.globalExplosion;
-      
-      // 应用位置
-      if (config.originalPosition) {
-        config.node.position.copy(config.originalPosition);
-        config.node.position.add(dir.multiplyScalar(distance));
-      }
-    });
-  }
-  
-  /**
-   * 应用组件视图布局：选中部件居中，其余部件环状排列（垂直于屏幕）
+   * 应用组件视图布局：当前部件居中，同级部件环状排列（垂直于屏幕）
    */
   private applyPartViewLayout(): void {
-    if (!this.model || !this.uiState.selectedMajorPart) return;
+    const selectedPart = this.getFocusedPart();
+    if (!this.model || !selectedPart) return;
     
-    const selectedPart = this.uiState.selectedMajorPart;
-    const otherParts = MECH_HIERARCHY.majorParts.filter(p => p !== selectedPart);
+    const otherParts = this.getLevelParts().filter(p => p !== selectedPart);
     
-    // 计算所有目标位置
+    // 计算所有目标位置（目标变化时开始过渡动画）
     this.calculateTransitionTargets(selectedPart, otherParts);
-    
-    // 开始过渡动画
-    if (!this.isTransitioning) {
-      this.isTransitioning = true;
-    }
   }
   
   /**
-   * 计算组件位置 - 选中组件到大圆环，其他组件到各自固定小圆环
-   * 每个组件有固定的小圆环位置（索引0-6），选中时只是移到大圆环，小圆环保留空着
+   * 计算组件位置 - 选中组件到大圆环，其他同级组件到各自固定小圆环
+   * 每个组件有固定的小圆环位置（按同级列表索引），选中时只是移到大圆环，小圆环保留空着
+   * 祖先部件保持在大圆环中心，作为当前层级部件的容器
    */
-  private calculateTransitionTargets(selectedPart: MajorPartId, _otherParts: MajorPartId[]): void {
+  private calculateTransitionTargets(selectedPart: PartId, _otherParts: PartId[]): void {
+    const previousTargets = new Map(this.transitionTargets);
     this.transitionTargets.clear();
     this.transitionScales.clear();
     
-    // ========== 选中组件 → 大圆环中心 ==========
-    const mainOffset = this.partPositionInMainRing[selectedPart] || { x: 0, y: 0, z: 0 };
-    const selectedTarget = new THREE.Vector3(
-      this.mainRingCenter.x + mainOffset.x,
-      this.mainRingCenter.y + mainOffset.y,
-      this.mainRingCenter.z + mainOffset.z
-    );
-    this.transitionTargets.set(selectedPart, selectedTarget);
-    this.transitionScales.set(selectedPart, 1.0);  // 选中组件原始大小
+    // ========== 祖先 + 选中组件 → 大圆环中心 ==========
+    this.uiState.focusPath.forEach(partId => {
+      this.setRingTarget(partId, this.mainRingCenter, RING_LAYOUT_CONFIG.MAIN_RING_RADIUS, RING_LAYOUT_CONFIG.MAIN_FILL, 'main');
+    });
     
-    // 找到选中组件在全部组件中的索引（用于确定哪个小圆环要空着）
-    const selectedIndex = MECH_HIERARCHY.majorParts.indexOf(selectedPart);
+    // 找到选中组件在同级组件中的索引（用于确定哪个小圆环要空着）
+    const levelParts = this.getLevelParts();
+    const selectedIndex = levelParts.indexOf(selectedPart);
     
-    // 更新小圆环可见性（所有7个都显示，选中的那个空着）
+    // 更新小圆环可见性（全部显示，选中的那个空着）
     this.updateSubRingVisibility(selectedIndex);
     
     // ========== 其他组件 → 各自固定小圆环 ==========
-    // 每个组件有固定的小圆环位置（按 MECH_HIERARCHY.majorParts 的索引）
-    MECH_HIERARCHY.majorParts.forEach((partId, fixedIndex) => {
+    // 每个组件有固定的小圆环位置（按同级列表的索引）
+    levelParts.forEach((partId, fixedIndex) => {
       if (partId === selectedPart) return;  // 跳过选中的（它在大圆环）
       
       // 使用固定索引获取小圆环位置（每个组件的小圆环位置固定不变）
       const ringPos = this.subRingFixedPositions[fixedIndex];
       if (!ringPos) return;
       
-      // 获取该组件在小圆环中的位置偏移
-      const subOffset = this.partPositionInSubRing[partId] || { x: 0, y: 0, z: 0 };
-      
-      // 计算目标位置
-      const targetPos = new THREE.Vector3(
-        ringPos.x + subOffset.x,
-        ringPos.y + subOffset.y,
-        ringPos.z + subOffset.z
-      );
-      
-      this.transitionTargets.set(partId, targetPos);
-      this.transitionScales.set(partId, 0.7);  // 小圆环中的组件缩小
+      this.setRingTarget(partId, ringPos, this.subRingRadius, RING_LAYOUT_CONFIG.SUB_FILL, 'sub');
     });
+    
+    this.startLayoutTransition(previousTargets);
   }
   
   /**
-   * 应用过渡动画（在update中调用）
+   * 部件在圆环中的目标：按包围球缩放到圆环内，几何中心对准圆环中心（清单 ringOffset 优先）
    */
-  private applyTransitionAnimation(): void {
-    if (!this.model || !this.isTransitioning) return;
+  private setRingTarget(partId: PartId, ringCenter: THREE.Vector3, ringRadius: number, fill: number, ring: 'main' | 'sub'): void {
+    const layoutRoot = this.getLayoutRoot();
+    if (!layoutRoot) return;
+    
+    const bounds = this.ringBounds.get(partId);
+    const scale = getFitScale(bounds, ringRadius, fill);
+    const manualOffset = this.getRingOffset(partId, ring);
     
-    let allReached = true;
+    layoutRoot.updateWorldMatrix(true, false);
+    const target = manualOffset
+      ? layoutRoot.worldToLocal(ringCenter.clone()).add(manualOffset)
+      : layoutRoot.worldToLocal(getCenteredOrigin(ringCenter, bounds, scale));
+    
+    this.transitionTargets.set(partId, target);
+    this.transitionScales.set(partId, scale);
+  }
+  
+  /**
+   * 开始布局过渡：从部件当前的位置和缩放出发
+   * 目标未变时保持进行中的过渡，部件已在目标位置时不再播放
+   */
+  private startLayoutTransition(previousTargets: Map<string, THREE.Vector3>): void {
+    const unchanged = previousTargets.size === this.transitionTargets.size &&
+      [...this.transitionTargets].every(([partId, pos]) => previousTargets.get(partId)?.equals(pos));
+    if (unchanged && (this.isTransitioning() || this.isLayoutReached())) return;
+    
+    this.transitionStarts.clear();
+    this.transitionTargets.forEach((_, partId) => {
+      const node = this.model?.parts.get(partId)?.node;
+      if (node) {
+        this.transitionStarts.set(partId, { position: node.position.clone(), scale: node.scale.x });
+      }
+    });
+    this.tweens.start(
+      'layout',
+      { duration: TWEEN_CONFIG.RING_TRANSITION_DURATION, easing: 'easeOutCubic' },
+      progress => this.applyTransitionAnimation(progress)
+    );
+  }
+  
+  /**
+   * 停止布局过渡并清空目标（离开组件视图时）
+   */
+  private stopLayoutTransition(): void {
+    this.tweens.cancel('layout');
+    this.transitionTargets.clear();
+    this.transitionScales.clear();
+    this.transitionStarts.clear();
+  }
+  
+  private isTransitioning(): boolean {
+    return this.tweens.get('layout') !== undefined;
+  }
+  
+  /**
+   * 所有部件是否已在目标位置和缩放
+   */
+  private isLayoutReached(): boolean {
+    return [...this.transitionTargets].every(([partId, layoutPos]) => {
+      const node = this.model?.parts.get(partId)?.node;
+      if (!node) return true;
+      const targetScale = (this.transitionScales.get(partId) ?? 1) * this.layoutScaleToLocal(node);
+      return node.position.distanceTo(this.layoutToLocal(node, layoutPos)) < 0.001 &&
+        Math.abs(node.scale.x - targetScale) < 0.001;
+    });
+  }
+  
+  /**
+   * 应用过渡动画：按补间进度（0-1，已缓动）在起点和目标之间插值
+   * 按路径顺序先处理祖先，深层部件的目标随父节点的当前位置换算
+   */
+  private applyTransitionAnimation(progress: number): void {
+    if (!this.model) return;
     
-    // 对每个部件应用平滑过渡（位置和缩放）
-    MECH_HIERARCHY.majorParts.forEach(partId => {
+    this.transitionTargets.forEach((layoutPos, partId) => {
       const config = this.model!.parts.get(partId);
-      if (!config || !config.node) return;
-      
-      const targetPos = this.transitionTargets.get(partId);
-      const targetScale = this.transitionScales.get(partId) || 1;
-      if (!targetPos) return;
+      const start = this.transitionStarts.get(partId);
+      if (!config || !config.node || !start) return;
       
-      const currentPos = config.node.position;
-      const currentScale = config.node.scale.x;
-      
-      // 位置过渡
-      const posDistance = currentPos.distanceTo(targetPos);
-      if (posDistance < 0.01) {
-        currentPos.copy(targetPos);
-      } else {
-        currentPos.lerp(targetPos, this.transitionSpeed);
-        allReached = false;
-      }
+      // 深层部件的父节点也在布局中，需要把布局空间的目标换算到父节点坐标系
+      const targetPos = this.layoutToLocal(config.node, layoutPos);
+      const targetScale = (this.transitionScales.get(partId) ?? 1) * this.layoutScaleToLocal(config.node);
       
-      // 缩放过渡
-      const scaleDistance = Math.abs(currentScale - targetScale);
-      if (scaleDistance < 0.01) {
-        config.node.scale.setScalar(targetScale);
-      } else {
-        const newScale = THREE.MathUtils.lerp(currentScale, targetScale, this.transitionSpeed);
-        config.node.scale.setScalar(newScale);
-        allReached = false;
-      }
+      config.node.position.lerpVectors(start.position, targetPos, progress);
+      config.node.scale.setScalar(THREE.MathUtils.lerp(start.scale, targetScale, progress));
     });
-    
-    // 所有部件都到达目标位置
-    if (allReached) {
-      this.isTransitioning = false;
-    }
   }
   
   /**
-   * 旧版布局方法（用于非组件视图时的子件拆解）
+   * 将布局空间（大部件父节点坐标系）中的位置换算到部件父节点的局部坐标系
    */
-  private applyPartExplosion(): void {
-    if (!this.model || !this.uiState.selectedMajorPart) return;
+  private layoutToLocal(node: THREE.Object3D, layoutPos: THREE.Vector3): THREE.Vector3 {
+    const layoutRoot = this.getLayoutRoot();
+    if (!layoutRoot || !node.parent || node.parent === layoutRoot) {
+      return layoutPos.clone();
+    }
     
-    const selectedPart = this.uiState.selectedMajorPart;
+    node.parent.updateWorldMatrix(true, false);
+    const world = layoutRoot.localToWorld(layoutPos.clone());
+    return node.parent.worldToLocal(world);
+  }
+  
+  /**
+   * 布局空间缩放到部件父节点坐标系的换算系数（抵消祖先节点的缩放）
+   */
+  private layoutScaleToLocal(node: THREE.Object3D): number {
+    const layoutRoot = this.getLayoutRoot();
+    if (!layoutRoot || !node.parent || node.parent === layoutRoot) return 1;
     
-    // 如果有子部件拆解
-    if (this.uiState.partExplosion > 0) {
-      const children = getChildParts(selectedPart);
-      children.forEach(childPartId => {
-        const config = this.model!.parts.get(childPartId);
-        if (!config || !config.node) return;
-        
-        const offset = EXPLODE_OFFSETS[childPartId];
-        if (!offset) return;
-        
-        const dir = new THREE.Vector3(offset.direction[0], offset.direction[1], offset.direction[2]).normalize();
-        const distance = offset.distance * this.uiState.partExplosion;
-        
-        if (config.originalPosition) {
-          config.node.position.copy(config.originalPosition);
-          config.node.position.add(dir.multiplyScalar(distance));
-        }
-      });
-    }
+    const rootScale = layoutRoot.getWorldScale(new THREE.Vector3()).x;
+    const parentScale = node.parent.getWorldScale(new THREE.Vector3()).x;
+    return parentScale > 0 ? rootScale / parentScale : 1;
   }
   
   // ============================================
@@ -756,192 +1007,216 @@ export class SimpleStateMachine {
   /**
    * 设置悬停的部件ID（高亮由鼠标控制器处理）
    */
-  setHoveredPartId(partId: PartId | null): void {
+  private setHoveredPart(partId: PartId | null): void {
     if (this.uiState.hoveredPart === partId) return;
     
     this.uiState.hoveredPart = partId;
     
     // 回调
-    const displayName = partId ? getPartName(partId) : null;
+    const displayName = partId ? this.getPartName(partId) : null;
     this.callbacks.onHoverChange?.(partId, displayName);
   }
   
   /**
-   * 双击选择当前悬停的部件
+   * SELECT 事件的目标部件：事件指定的部件，缺省为当前悬停的部件
    */
-  selectHoveredPart(): boolean {
-    if (!this.uiState.hoveredPart) {
-      //console.log('[SimpleStateMachine] 没有悬停部件，无法选择');
-      return false;
-    }
-    
-    //console.log(`[SimpleStateMachine] 尝试选择部件: ${this.uiState.hoveredPart}, 当前状态: ${this.uiState.state}, 拆解程度: ${this.uiState.globalExplosion.toFixed(2)}`);
-    
-    // 在拆解状态或拆解过程中（globalExplosion > 0.1）都可以选择
-    if (this.uiState.state === 'Exploded' || this.uiState.globalExplosion > 0.1) {
-      // 检查是否是大部件
-      if (MECH_HIERARCHY.majorParts.includes(this.uiState.hoveredPart as MajorPartId)) {
-        const majorPart = this.uiState.hoveredPart as MajorPartId;
-        
-        this.uiState.selectedMajorPart = majorPart;
-        this.uiState.currentPartIndex = MECH_HIERARCHY.majorParts.indexOf(majorPart);
-        this.partExplosionTarget = 0;
-        this.uiState.partExplosion = 0;
-        // 进入组件视图时将全局拆解拉满，确保环状布局展开
-        this.uiState.globalExplosion = Math.max(this.uiState.globalExplosion, 0.5);
-        this.globalExplosionTarget = Math.max(this.globalExplosionTarget, 1);
-        
-        //console.log(`[SimpleStateMachine] ✅ 进入组件视图: ${majorPart}`);
-        this.transitionTo('PartView');
-        
-        // 通知布局变化
-        const otherParts = MECH_HIERARCHY.majorParts.filter(p => p !== majorPart);
-        this.callbacks.onPartViewLayout?.(majorPart, otherParts);
-        // 立即应用布局，避免等待拆解插值
-        this.applyPartViewLayout();
-        
-        return true;
-      } else {
-        //console.log(`[SimpleStateMachine] ${this.uiState.hoveredPart} 不是大部件，无法选择`);
-      }
-    } else if (this.uiState.state === 'PartView') {
-      // 在组件视图中，双击可以切换到另一个部件
-      const partId = this.uiState.hoveredPart;
-      if (MECH_HIERARCHY.majorParts.includes(partId as MajorPartId)) {
-        this.selectPart(partId as MajorPartId);
-        return true;
-      }
-    } else if (this.uiState.state === 'Assembled') {
-      //console.log('[SimpleStateMachine] 请先按A键拆解，然后再双击选择部件');
-    }
-    
-    return false;
+  private getSelectTarget(event: { partId?: PartId }): PartId | null {
+    return event.partId ?? this.uiState.hoveredPart;
+  }
+  
+  private isMajorPart(partId: PartId | null): boolean {
+    return partId !== null && this.getMajorParts().includes(partId);
+  }
+  
+  private canDrillInto(partId: PartId | null): boolean {
+    const focusedPart = this.getFocusedPart();
+    return partId !== null && focusedPart !== null
+      && this.getChildren(focusedPart).includes(partId);
+  }
+  
+  /**
+   * 聚焦路径是否属于当前模型：第一项为大部件，之后每项都是上一项的子部件
+   */
+  private isValidFocusPath(path: PartId[]): boolean {
+    return path.length > 0 && this.isMajorPart(path[0])
+      && path.every((partId, i) => i === 0 || this.getChildren(path[i - 1]).includes(partId));
   }
   
   /**
-   * 选择指定部件
+   * 选择大部件，进入组件视图（布局在进入 PartView 时应用）
    */
-  private selectPart(partId: MajorPartId): void {
-    this.uiState.selectedMajorPart = partId;
-    this.uiState.currentPartIndex = MECH_HIERARCHY.majorParts.indexOf(partId);
+  private focusMajorPart(majorPart: MajorPartId): void {
+    this.uiState.selectedMajorPart = majorPart;
+    this.uiState.focusPath = [majorPart];
+    this.uiState.partList = [...this.getMajorParts()];
+    this.uiState.currentPartIndex = this.getMajorParts().indexOf(majorPart);
+    this.explode.setFocusRoot(majorPart);
+    // 进入组件视图时将全局拆解拉满，确保环状布局展开
+    this.explode.raiseGlobalExplosion(0.5);
+    this.explode.setGlobalExplosionTarget(1);
+    
+    //console.log(`[SimpleStateMachine] ✅ 进入组件视图: ${majorPart}`);
+    
+    // 通知布局变化
+    const otherParts = this.getMajorParts().filter(p => p !== majorPart);
+    this.callbacks.onPartViewLayout?.(majorPart, otherParts);
+    this.callbacks.onFocusPathChange?.([...this.uiState.focusPath]);
+  }
+  
+  /**
+   * 选择当前层级的指定部件
+   */
+  private selectPart(partId: PartId): void {
+    this.uiState.focusPath[this.uiState.focusPath.length - 1] = partId;
+    this.uiState.selectedMajorPart = this.uiState.focusPath[0];
+    this.uiState.currentPartIndex = this.getLevelParts().indexOf(partId);
     // 保持组件视图展开，并在切换组件时自动收拢子件
-    this.globalExplosionTarget = Math.max(this.globalExplosionTarget, 1);
-    this.partExplosionTarget = 0;
-    this.uiState.partExplosion = 0;
+    this.explode.setGlobalExplosionTarget(1);
+    this.explode.setFocusRoot(partId);
     // 重置非当前部件的子件位置
     this.resetAllChildrenExcept(partId);
     
     //console.log(`[SimpleStateMachine] 切换到组件: ${partId}`);
     
-    const otherParts = MECH_HIERARCHY.majorParts.filter(p => p !== partId);
+    this.notifyFocusLayout();
+    this.callbacks.onFocusPathChange?.([...this.uiState.focusPath]);
+  }
+  
+  /**
+   * 深入一级：以指定部件为中心，它的同级部件进入小圆环
+   */
+  private drillInto(partId: PartId): void {
+    //console.log(`[SimpleStateMachine] 深入部件: ${partId}`);
+    
+    this.uiState.focusPath.push(partId);
+    this.uiState.partList = [...this.getLevelParts()];
+    this.uiState.currentPartIndex = this.uiState.partList.indexOf(partId);
+    this.explode.setFocusRoot(partId);
+    this.resetAllChildrenExcept(null);
+    
+    this.enterFocusLevel();
+  }
+  
+  /**
+   * 返回上一级聚焦（focusPath 至少保留一项）
+   */
+  private popFocus(): void {
+    if (this.uiState.focusPath.length <= 1) return;
+    
+    // 当前层级的部件及其后代回到父部件内的原始位置
+    this.getLevelParts().forEach(partId => this.resetPartTransform(partId));
+    this.resetAllChildrenExcept(null);
+    
+    this.uiState.focusPath.pop();
+    const parentPart = this.getFocusedPart()!;
+    this.uiState.partList = [...this.getLevelParts()];
+    this.uiState.currentPartIndex = this.uiState.partList.indexOf(parentPart);
+    // 返回后重新展开父部件的子件，便于继续选择
+    this.explode.setFocusRoot(parentPart);
+    this.explode.setPartExplosionTarget(1);
+    
+    this.enterFocusLevel();
+  }
+  
+  /**
+   * 进入新的聚焦层级：重建小圆环、隐藏祖先的同级部件并刷新布局
+   */
+  private enterFocusLevel(): void {
+    this.rebuildSubRings(this.uiState.partList.length);
+    this.updateFocusVisibility();
+    this.notifyFocusLayout();
+    this.callbacks.onFocusPathChange?.([...this.uiState.focusPath]);
+  }
+  
+  /**
+   * 通知当前聚焦部件的布局，并启动过渡动画
+   */
+  private notifyFocusLayout(): void {
+    const partId = this.getFocusedPart();
+    if (!partId) return;
+    
+    const otherParts = this.getLevelParts().filter(p => p !== partId);
     this.callbacks.onPartViewLayout?.(partId, otherParts);
     this.callbacks.onPartListChange?.(this.uiState.partList, this.uiState.currentPartIndex, partId);
-    this.callbacks.onHoverChange?.(partId, getPartName(partId));
+    this.callbacks.onHoverChange?.(partId, this.getPartName(partId));
     
     // 计算新的目标位置并启动过渡动画
     this.calculateTransitionTargets(partId, otherParts);
-    this.isTransitioning = true;
   }
-
+  
   /**
-   * 将非当前选中部件的子件恢复到原始位置（防止之前拆解残留）
+   * 深层聚焦时隐藏各级祖先的同级部件（它们占据上一级的小圆环）
    */
-  private resetAllChildrenExcept(keepPart: MajorPartId | null): void {
-    MECH_HIERARCHY.majorParts.forEach(parentId => {
-      if (parentId === keepPart) return;
-      const children = getChildParts(parentId);
-      children.forEach(childId => {
-        const cfg = this.model?.parts.get(childId);
-        if (cfg?.node && cfg.originalPosition) {
-          cfg.node.position.copy(cfg.originalPosition);
-        }
+  private updateFocusVisibility(): void {
+    if (!this.model) return;
+    
+    const hidden = new Set<PartId>();
+    const path = this.uiState.focusPath;
+    for (let depth = 0; depth < path.length - 1; depth++) {
+      const siblings = depth === 0 ? this.getMajorParts() : this.getChildren(path[depth - 1]);
+      siblings.forEach(partId => {
+        if (partId !== path[depth]) hidden.add(partId);
       });
+    }
+    
+    this.model.parts.forEach((config, partId) => {
+      if (config.node) {
+        config.node.visible = !hidden.has(partId);
+      }
     });
   }
-  
-  // ============================================
-  // 导航
-  // ============================================
-  
+
   /**
-   * 上下切换零件
+   * 将当前层级非选中部件的后代恢复到原始位置（防止之前拆解残留）
    */
-  navigate(direction: 'up' | 'down'): void {
-    this.navigateInternal(direction === 'up' ? -1 : 1);
+  private resetAllChildrenExcept(keepPart: PartId | null): void {
+    this.getLevelParts().forEach(parentId => {
+      if (parentId === keepPart) return;
+      this.getDescendants(parentId).forEach(childId => this.resetPartTransform(childId));
+    });
   }
   
   /**
-   * 左右切换零件
+   * 恢复单个部件的位置（当前姿态）和缩放
    */
-  navigateLeftRight(direction: 'left' | 'right'): void {
-    this.navigateInternal(direction === 'left' ? -1 : 1);
+  private resetPartTransform(partId: PartId): void {
+    const cfg = this.model?.parts.get(partId);
+    if (cfg?.node && cfg.posePosition) {
+      cfg.node.position.copy(cfg.posePosition);
+      cfg.node.scale.setScalar(1);
+    }
   }
   
+  // ============================================
+  // 导航
+  // ============================================
+  
   /**
-   * 内部导航逻辑
+   * 拆解视图：在大部件间切换高亮
    */
-  private navigateInternal(delta: number): void {
-    if (this.uiState.state !== 'PartView' && this.uiState.state !== 'Exploded') return;
-    
-    const partList = MECH_HIERARCHY.majorParts;
+  private highlightMajorPart(delta: number): void {
+    const partList = this.getMajorParts();
     if (partList.length === 0) return;
     
-    // 切换索引
     this.uiState.currentPartIndex = (this.uiState.currentPartIndex + delta + partList.length) % partList.length;
-    const newPart = partList[this.uiState.currentPartIndex] as MajorPartId;
+    const newPart = partList[this.uiState.currentPartIndex];
     
     //console.log(`[SimpleStateMachine] 导航到: ${newPart} (${this.uiState.currentPartIndex + 1}/${partList.length})`);
     
-    if (this.uiState.state === 'PartView') {
-      // 在组件视图中，切换选中的部件
-      this.selectPart(newPart);
-    } else {
-      // 在拆解视图中，只更新高亮
-      this.uiState.hoveredPart = newPart;
-      this.callbacks.onHoverChange?.(newPart, PART_DISPLAY_NAMES[newPart]);
-      this.callbacks.onPartListChange?.(partList, this.uiState.currentPartIndex, newPart);
-    }
-  }
-  
-  /**
-   * 返回上级
-   */
-  goBack(): void {
-    if (this.uiState.state === 'PartView') {
-      // 聚拢当前子件
-      this.resetAllChildrenExcept(null);
-      this.uiState.hoveredPart = null;
-      this.uiState.selectedMajorPart = null;
-      this.partExplosionTarget = 0;
-      this.uiState.partExplosion = 0;
-      
-      // 恢复所有部件缩放
-      this.resetAllPartScales();
-      
-      // 恢复所有部件位置到原始位置
-      this.resetAllPartPositions();
-      
-      // 直接返回 Assembled 状态，设置拆解为0
-      this.globalExplosionTarget = 0;
-      this.transitionTo('Assembled');
-    } else if (this.uiState.state === 'Exploded') {
-      this.globalExplosionTarget = 0;
-      // 状态会在 update 中自动切换
-    }
+    this.uiState.hoveredPart = newPart;
+    this.callbacks.onHoverChange?.(newPart, this.getPartName(newPart));
+    this.callbacks.onPartListChange?.(partList, this.uiState.currentPartIndex, newPart);
   }
   
   /**
-   * 恢复所有部件位置到原始位置
+   * 组件视图：在当前层级的同级部件间切换
    */
-  private resetAllPartPositions(): void {
-    if (!this.model) return;
+  private navigateLevel(delta: number): void {
+    const partList = this.getLevelParts();
+    if (partList.length === 0) return;
     
-    MECH_HIERARCHY.majorParts.forEach(partId => {
-      const config = this.model!.parts.get(partId);
-      if (config?.node && config.originalPosition) {
-        config.node.position.copy(config.originalPosition);
-      }
-    });
+    this.uiState.currentPartIndex = (this.uiState.currentPartIndex + delta + partList.length) % partList.length;
+    this.selectPart(partList[this.uiState.currentPartIndex]);
   }
   
   /**
@@ -950,7 +1225,7 @@ export class SimpleStateMachine {
   private resetAllPartScales(): void {
     if (!this.model) return;
     
-    MECH_HIERARCHY.majorParts.forEach(partId => {
+    this.getMajorParts().forEach(partId => {
       const config = this.model!.parts.get(partId);
       if (config?.node) {
         config.node.scale.setScalar(1);
@@ -959,97 +1234,462 @@ export class SimpleStateMachine {
   }
   
   // ============================================
-  // 状态转换
+  // 快照
+  // ============================================
+  
+  /**
+   * 当前状态快照（撤销/重做用）
+   */
+  getSnapshot(): MechStateSnapshot {
+    const snapshot: MechStateSnapshot = {
+      state: this.getState(),
+      focusPath: [...this.uiState.focusPath],
+      globalExplosion: this.explode.getGlobalExplosionTarget(),
+      partExplosion: this.explode.getPartExplosionTarget()
+    };
+    if (snapshot.state === 'Assembly' && this.assemblyGuide) {
+      snapshot.assembly = { mode: this.assemblyGuide.getMode(), step: this.assemblyGuide.getStepIndex() };
+    }
+    return snapshot;
+  }
+  
+  /**
+   * RESTORE 事件：恢复聚焦路径和拆解目标，位置由 update 平滑过渡
+   * （在离开旧状态之后、进入新状态之前执行）
+   */
+  private restoreSnapshot(snapshot: MechStateSnapshot): void {
+    this.explode.setGlobalExplosionTarget(snapshot.globalExplosion);
+    this.explode.setPartExplosionTarget(snapshot.partExplosion);
+    if (snapshot.state === 'Assembly') {
+      this.assemblyRequest = { ...snapshot.assembly! };
+      return;
+    }
+    if (snapshot.state !== 'PartView') {
+      // 整机视图直接按拆解插值回到目标位置
+      this.explode.apply();
+      return;
+    }
+    
+    const path = [...snapshot.focusPath];
+    this.resetAllChildrenExcept(null);
+    this.uiState.focusPath = path;
+    this.uiState.selectedMajorPart = path[0];
+    this.uiState.partList = [...this.getLevelParts()];
+    this.uiState.currentPartIndex = this.uiState.partList.indexOf(path[path.length - 1]);
+    this.explode.setFocusRoot(path[path.length - 1]);
+    this.explode.setPartExplosionTarget(snapshot.partExplosion);
+    this.rebuildSubRings(this.uiState.partList.length);
+    this.updateFocusVisibility();
+    this.callbacks.onFocusPathChange?.([...path]);
+  }
+  
+  // ============================================
+  // 状态进入/退出动作
   // ============================================
   
-  private transitionTo(newState: SimpleViewState): void {
-    const oldState = this.uiState.state;
-    if (oldState === newState) return;
+  /**
+   * 进入组件视图：强制将全局拆解目标推满，确保环状布局生效
+   */
+  private enterPartView(): void {
+    this.explode.setGlobalExplosionTarget(1);
+    this.showRingDecoration();  // 显示3D环形装饰
     
-    //console.log(`[SimpleStateMachine] 状态转换: ${oldState} → ${newState}`);
-    this.uiState.state = newState;
+    this.callbacks.onPartListChange?.(this.uiState.partList, this.uiState.currentPartIndex, this.uiState.selectedMajorPart);
+    // 立即应用布局，避免等待拆解插值
+    this.applyPartViewLayout();
+  }
+  
+  /**
+   * 离开组件视图：聚拢子件，恢复位置、缩放、第一级的小圆环和部件可见性
+   */
+  private exitPartView(): void {
+    this.resetAllChildrenExcept(null);
+    this.uiState.hoveredPart = null;
+    this.uiState.selectedMajorPart = null;
+    this.uiState.focusPath = [];
+    this.uiState.partList = [...this.getMajorParts()];
+    this.explode.setFocusRoot(null);
+    this.stopLayoutTransition();
+    
+    this.resetAllPartScales();
+    this.explode.resetToPose();
+    
+    this.hideRingDecoration();  // 隐藏3D环形装饰
+    this.rebuildSubRings(this.getMajorParts().length);
+    this.updateFocusVisibility();
+    this.callbacks.onFocusPathChange?.([]);
+  }
+  
+  // ============================================
+  // 装配说明
+  // ============================================
+  
+  /**
+   * 进入装配说明：部件从当前拆解程度过渡到第一步，拆解程度归零（暂停拆解控制器，位置由 AssemblyGuide 控制）
+   */
+  private enterAssembly(): void {
+    if (!this.assemblyGuide) return;
     
-    // 进入组件视图时强制将全局拆解目标推满，确保环状布局生效
-    if (newState === 'PartView') {
-      this.globalExplosionTarget = Math.max(this.globalExplosionTarget, 1);
-      this.showRingDecoration();  // 显示3D环形装饰
-    } else {
-      this.hideRingDecoration();  // 隐藏3D环形装饰
-    }
+    const initialExplosion = this.explode.getGlobalExplosionFactor();
+    this.explode.setEnabled(false);
+    this.uiState.hoveredPart = null;
+    this.callbacks.onHoverChange?.(null, null);
     
-    this.callbacks.onStateChange?.(newState, oldState);
+    const { mode, step } = this.assemblyRequest;
+    this.assemblyGuide.start(mode, step, initialExplosion);
+    this.notifyAssemblyStep();
+  }
+  
+  /**
+   * 离开装配说明：所有部件回到原位
+   */
+  private exitAssembly(): void {
+    if (!this.assemblyGuide) return;
     
-    if (newState === 'PartView') {
-      this.callbacks.onPartListChange?.(this.uiState.partList, this.uiState.currentPartIndex, this.uiState.selectedMajorPart);
-      // 立即应用布局，避免等待帧更新
-      this.applyPartViewLayout();
+    this.assemblyGuide.stop();
+    this.explode.setEnabled(true);
+    this.callbacks.onAssemblyStep?.(null, -1, this.assemblyGuide.getStepCount(), this.assemblyGuide.getMode());
+  }
+  
+  private stepAssembly(delta: number): void {
+    if (this.assemblyGuide?.step(delta)) {
+      this.notifyAssemblyStep();
     }
   }
   
+  private goToAssemblyStep(stepIndex: number): void {
+    this.assemblyGuide?.goTo(stepIndex);
+    this.notifyAssemblyStep();
+  }
+  
+  private canStepAssembly(delta: number): boolean {
+    if (!this.assemblyGuide) return false;
+    const next = this.assemblyGuide.getStepIndex() + delta;
+    return next >= 0 && next < this.assemblyGuide.getStepCount();
+  }
+  
+  private hasAssemblyPlan(): boolean {
+    return (this.assemblyGuide?.getStepCount() ?? 0) > 0;
+  }
+  
+  private notifyAssemblyStep(): void {
+    const guide = this.assemblyGuide;
+    if (!guide) return;
+    this.callbacks.onAssemblyStep?.(guide.getStep(), guide.getStepIndex(), guide.getStepCount(), guide.getMode());
+  }
+  
+  // ============================================
+  // 清单查询
+  // ============================================
+  
+  /**
+   * 当前模型的大部件列表
+   */
+  private getMajorParts(): MajorPartId[] {
+    return this.model ? getMechHierarchy(this.model.manifest).majorParts : [];
+  }
+  
+  /**
+   * 当前模型中某部件的子部件列表
+   */
+  private getChildren(partId: PartId): PartId[] {
+    return this.model ? getChildParts(this.model.manifest, partId) : [];
+  }
+  
+  /**
+   * 当前模型中某部件的全部后代
+   */
+  private getDescendants(partId: PartId): PartId[] {
+    return this.model ? getDescendantParts(this.model.manifest, partId) : [];
+  }
+  
+  /**
+   * 当前聚焦的部件（focusPath 最后一项）
+   */
+  private getFocusedPart(): PartId | null {
+    const path = this.uiState.focusPath;
+    return path.length > 0 ? path[path.length - 1] : null;
+  }
+  
+  /**
+   * 当前聚焦层级的同级部件（第一级为所有大部件）
+   */
+  private getLevelParts(): PartId[] {
+    const path = this.uiState.focusPath;
+    return path.length > 1 ? this.getChildren(path[path.length - 2]) : this.getMajorParts();
+  }
+  
+  /**
+   * 布局空间的根节点（大部件的父节点），圆环坐标都基于该坐标系
+   */
+  private getLayoutRoot(): THREE.Object3D | null {
+    const firstMajor = this.getMajorParts()[0];
+    return (firstMajor && this.model?.parts.get(firstMajor)?.node?.parent) || null;
+  }
+  
+  /**
+   * 获取部件显示名称（支持多语言）
+   */
+  private getPartName(partId: PartId): string {
+    return this.model ? getPartDisplayName(this.model.manifest, partId, getCurrentLang()) : partId;
+  }
+  
+  /**
+   * 获取清单中手动指定的大/小圆环位置偏移（未配置时为 null，自动居中）
+   */
+  private getRingOffset(partId: PartId, ring: 'main' | 'sub'): THREE.Vector3 | null {
+    const offset: Vec3Tuple | undefined = this.model
+      ? getManifestPart(this.model.manifest, partId)?.ringOffset?.[ring]
+      : undefined;
+    return offset ? new THREE.Vector3(...offset) : null;
+  }
+  
   // ============================================
   // Getters
   // ============================================
   
   getState(): SimpleViewState {
-    return this.uiState.state;
+    return this.chart.getState();
   }
   
   getUIState(): SimpleUIState {
-    return { ...this.uiState };
+    return {
+      ...this.uiState,
+      state: this.getState(),
+      globalExplosion: this.explode.getGlobalExplosionFactor(),
+      partExplosion: this.explode.getPartExplosionFactor()
+    };
   }
   
   getGlobalExplosion(): number {
-    return this.uiState.globalExplosion;
+    return this.explode.getGlobalExplosionFactor();
   }
   
   getPartExplosion(): number {
-    return this.uiState.partExplosion;
+    return this.explode.getPartExplosionFactor();
+  }
+  
+  // ============================================
+  // 拆解方式和拆解编排
+  // ============================================
+  
+  /**
+   * 可选的拆解方式
+   */
+  getExplodeStrategies(): { id: ExplodeStrategyId; name: string }[] {
+    const lang = getCurrentLang();
+    return this.explode.getExplodeStrategies().map(id => ({ id, name: getExplodeStrategyName(id, lang) }));
+  }
+  
+  getExplodeStrategy(): ExplodeStrategyId {
+    return this.explode.getExplodeStrategy();
+  }
+  
+  /**
+   * 切换拆解方式，整机 / 拆解状态下立即按当前拆解因子重新摆放部件
+   * （组件视图和装配说明中只记录，回到整机后生效）
+   */
+  setExplodeStrategy(id: ExplodeStrategyId): boolean {
+    return this.explode.setExplodeStrategy(id);
+  }
+  
+  /**
+   * 当前模型可选的拆解编排（内置编排在前，其后为清单中的其他编排）
+   */
+  getChoreographies(): { id: string; name: string }[] {
+    const lang = getCurrentLang();
+    return this.explode.getChoreographies().map(choreography => ({
+      id: choreography.id,
+      name: getChoreographyName(choreography, lang)
+    }));
+  }
+  
+  getChoreography(): string {
+    return this.explode.getChoreography();
+  }
+  
+  /**
+   * 切换拆解编排，整机 / 拆解状态下立即按当前拆解因子重新摆放部件
+   */
+  setChoreography(id: string): boolean {
+    return this.explode.setChoreography(id);
+  }
+  
+  // ============================================
+  // 姿态
+  // ============================================
+  
+  /**
+   * 可摆姿态的部件（清单顺序）
+   */
+  getJoints(): { id: PartId; name: string }[] {
+    return (this.pose?.getJoints() ?? []).map(id => ({ id, name: this.getPartName(id) }));
+  }
+  
+  getJointLimits(partId: PartId): Partial<Record<JointAxis, [number, number]>> {
+    return this.pose?.getJointLimits(partId) ?? {};
+  }
+  
+  getJointAngle(partId: PartId): Record<JointAxis, number> {
+    return this.pose?.getJointAngle(partId) ?? { x: 0, y: 0, z: 0 };
+  }
+  
+  /**
+   * 设置关节转角（度，超出范围时取边界），部件按当前拆解因子重新摆放
+   * 只在整机 / 拆解状态下可用（组件视图和装配说明中部件由布局和说明控制），返回是否生效
+   */
+  setJointAngle(partId: PartId, angles: JointAngles): boolean {
+    if (!this.pose || !this.canPose()) return false;
+    if (this.pose.setJointAngle(partId, angles)) {
+      this.explode.resetToPose();
+    }
+    return this.pose.getJoint(partId) !== undefined;
+  }
+  
+  /**
+   * 所有关节回到原始姿态（可用范围同 setJointAngle）
+   */
+  resetPose(): boolean {
+    if (!this.pose || !this.canPose()) return false;
+    if (this.pose.resetPose()) {
+      this.explode.resetToPose();
+    }
+    return true;
+  }
+  
+  canPose(): boolean {
+    const state = this.getState();
+    return state === 'Assembled' || state === 'Exploded';
+  }
+  
+  /**
+   * 设置姿态库（内置姿态 + 外部 poses.json）
+   */
+  setPoseLibrary(poses: PoseDefinition[]): void {
+    this.poseLibrary = poses;
+  }
+  
+  /**
+   * 当前模型可用的命名姿态
+   */
+  getPoses(): { id: string; name: string }[] {
+    const joints = this.pose?.getJoints() ?? [];
+    if (joints.length === 0) return [];
+    const lang = getCurrentLang();
+    return this.poseLibrary
+      .filter(pose => isPoseApplicable(pose, joints))
+      .map(pose => ({ id: pose.id, name: getPoseName(pose, lang) }));
+  }
+  
+  /**
+   * 当前（或过渡目标）的命名姿态，手动调整过关节后为 null
+   */
+  getPose(): string | null {
+    return this.pose?.getPoseId() ?? null;
+  }
+  
+  /**
+   * 平滑过渡到命名姿态（可用范围同 setJointAngle），返回是否生效
+   * @param duration 过渡时长 (ms)，缺省使用姿态自己的设置
+   */
+  setPose(id: string, duration?: number): boolean {
+    if (!this.pose || !this.canPose()) return false;
+    const pose = this.poseLibrary.find(p => p.id === id);
+    if (!pose || !isPoseApplicable(pose, this.pose.getJoints())) return false;
+    
+    this.pose.applyPose(pose, duration);
+    this.explode.resetToPose();
+    return true;
+  }
+  
+  /**
+   * 拆解、布局过渡、圆环淡入淡出和装配说明的动画是否都已结束
+   */
+  isSettled(): boolean {
+    return this.explode.isSettled() &&
+      this.tweens.isIdle() &&
+      !(this.pose?.isBlending() && this.canPose()) &&
+      (this.getState() !== 'Assembly' || (this.assemblyGuide?.isSettled() ?? true));
+  }
+  
+  /**
+   * 动画全部结束时 resolve（如 await 恢复快照后的过渡）
+   */
+  whenSettled(): Promise<void> {
+    if (!this.model || this.isSettled()) return Promise.resolve();
+    return new Promise(resolve => this.settleWaiters.push(resolve));
+  }
+  
+  getFocusPath(): PartId[] {
+    return [...this.uiState.focusPath];
   }
   
   getInteractableParts(): PartId[] {
-    // 默认：所有大部件
-    const major = [...MECH_HIERARCHY.majorParts];
+    // 装配说明中部件不可交互
+    if (this.getState() === 'Assembly') return [];
     
-    // 在组件视图中，增加当前部件的子零件以便继续深入 hover/拆解
-    if (this.uiState.state === 'PartView' && this.uiState.selectedMajorPart) {
-      const children = getChildParts(this.uiState.selectedMajorPart);
-      return [this.uiState.selectedMajorPart, ...children, ...major.filter(p => p !== this.uiState.selectedMajorPart)];
+    // 默认：所有大部件
+    const major = [...this.getMajorParts()];
+    
+    // 在组件视图中，当前层级的部件 + 当前部件的子零件（以便继续深入 hover/拆解）
+    const focusedPart = this.getFocusedPart();
+    if (this.getState() === 'PartView' && focusedPart) {
+      const children = this.getChildren(focusedPart);
+      const siblings = this.getLevelParts().filter(p => p !== focusedPart);
+      return [focusedPart, ...children, ...siblings];
     }
     
     return major;
   }
   
   /**
-   * 重置
+   * 重置（切换模型后调用）
    */
   reset(): void {
+    this.dispatch({ type: 'RESET', source: 'api' });
+  }
+  
+  /**
+   * RESET 事件：恢复初始 UI 状态和所有部件
+   */
+  private resetAll(): void {
     this.uiState = {
-      state: 'Assembled',
-      globalExplosion: 0,
-      partExplosion: 0,
       hoveredPart: null,
       selectedMajorPart: null,
+      focusPath: [],
       currentPartIndex: 0,
-      partList: [...MECH_HIERARCHY.majorParts]
+      partList: [...this.getMajorParts()]
     };
     
-    this.globalExplosionTarget = 0;
-    this.partExplosionTarget = 0;
+    // 拆解归零，所有部件回到原始位置和朝向
+    this.explode.reset();
+    this.stopLayoutTransition();
     
-    // 重置所有部件位置
+    // 重置所有部件缩放和可见性
     if (this.model) {
       this.model.parts.forEach((config) => {
-        if (config.node && config.originalPosition) {
-          config.node.position.copy(config.originalPosition);
+        if (config.node) {
+          config.node.scale.setScalar(1);
+          config.node.visible = true;
         }
       });
     }
+    this.rebuildSubRings(this.getMajorParts().length);
+    this.hideRingDecoration();
     
-    this.callbacks.onStateChange?.('Assembled', 'Assembled');
     this.callbacks.onExplosionChange?.(0, 0);
+    this.callbacks.onFocusPathChange?.([]);
   }
   
   dispose(): void {
+    // 结束所有动画，等待中的调用方不再挂起
+    this.tweens.cancelAll();
+    this.ringFade = 0;
+    this.ringDecorationVisible = false;
+    this.settleWaiters.forEach(resolve => resolve());
+    this.settleWaiters = [];
+    this.explode.dispose();
+    
     if (!this.scene) {
       this.model = null;
       return;
@@ -1070,24 +1710,21 @@ export class SimpleStateMachine {
     }
     
     // 清理小圆环
-    this.subRingDecorations.forEach((ring) => {
-      this.scene!.remove(ring);
-      ring.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          child.geometry.dispose();
-          if (child.material instanceof THREE.Material) {
-            child.material.dispose();
-          }
-        }
-      });
-    });
-    this.subRingDecorations = [];
+    this.disposeSubRings();
+    this.ringBounds.clear();
     
     this.model = null;
     this.scene = null;
   }
 }
 
+/**
+ * 导航方向 → 列表索引偏移
+ */
+function getNavigateDelta(direction: 'up' | 'down' | 'left' | 'right'): number {
+  return direction === 'up' || direction === 'left' ? -1 : 1;
+}
+
 export function createSimpleStateMachine(callbacks?: SimpleCallbacks): SimpleStateMachine {
   return new SimpleStateMachine(callbacks);
 }
@@ -0,0 +1,226 @@
+/**
+ * bookmarks.ts - 命名视图书签
+ *
+ * 每个书签保存一个视图快照（见 viewHistory.ts）、所属模型和渲染缩略图，
+ * 持久化在 localStorage 中；可导出/导入为 JSON 文件与他人共享。
+ *
+ * 导出格式：
+ *   { "format": "jarvis-bookmarks", "version": 1, "bookmarks": [ ... ] }
+ */
+
+import { MechViewState, MaterialMode } from '../types/mechConfig';
+import { ViewSnapshot } from './viewHistory';
+import { AssemblyMode } from '../three/assemblyGuide';
+
+// ============================================
+// 配置
+// ============================================
+
+export const BOOKMARK_CONFIG = {
+  STORAGE_KEY: 'jarvis-bookmarks',
+  MAX_BOOKMARKS: 20,            // 新增时超出则丢弃最旧的书签；导入时只导入放得下的部分
+  THUMBNAIL_WIDTH: 160,
+  THUMBNAIL_HEIGHT: 90,
+  THUMBNAIL_QUALITY: 0.7,       // JPEG 质量
+  EXPORT_FORMAT: 'jarvis-bookmarks',
+  EXPORT_VERSION: 1
+};
+
+const VIEW_STATES: MechViewState[] = ['Assembled', 'Exploded', 'PartView', 'Assembly'];
+const MATERIAL_MODES: MaterialMode[] = ['default', 'metal', 'wire'];
+const ASSEMBLY_MODES: AssemblyMode[] = ['assemble', 'disassemble'];
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface ViewBookmark {
+  id: string;
+  name: string;
+  modelId: string | null;       // 模型库中的模型（本地导入的模型为 null）
+  createdAt: number;
+  snapshot: ViewSnapshot;
+  thumbnail: string;            // data URL，可为空字符串
+}
+
+/** 新增书签的结果 */
+export interface BookmarkAddResult {
+  bookmark: ViewBookmark;
+  saved: boolean;               // 是否已写入 localStorage（超出存储配额时仅保留在本次会话中）
+}
+
+/** 导入结果 */
+export interface BookmarkImportResult {
+  imported: number;
+  skipped: number;              // 超出书签数量上限而未导入的书签
+  saved: boolean;
+}
+
+/** 导出文件 */
+export interface BookmarkFile {
+  format: string;
+  version: number;
+  bookmarks: ViewBookmark[];
+}
+
+// ============================================
+// 书签存储类
+// ============================================
+
+export class BookmarkStore {
+  private bookmarks: ViewBookmark[] = [];
+
+  constructor() {
+    this.load();
+  }
+
+  getAll(): ViewBookmark[] {
+    return [...this.bookmarks];
+  }
+
+  get(id: string): ViewBookmark | null {
+    return this.bookmarks.find(bookmark => bookmark.id === id) ?? null;
+  }
+
+  /**
+   * 新增书签，返回新书签及是否保存成功
+   */
+  add(name: string, snapshot: ViewSnapshot, modelId: string | null, thumbnail: string): BookmarkAddResult {
+    const bookmark: ViewBookmark = {
+      id: createBookmarkId(),
+      name,
+      modelId,
+      createdAt: Date.now(),
+      snapshot,
+      thumbnail
+    };
+    this.bookmarks.push(bookmark);
+    this.trim();
+    return { bookmark, saved: this.save() };
+  }
+
+  rename(id: string, name: string): void {
+    const bookmark = this.get(id);
+    if (!bookmark) return;
+    bookmark.name = name;
+    this.save();
+  }
+
+  remove(id: string): void {
+    this.bookmarks = this.bookmarks.filter(bookmark => bookmark.id !== id);
+    this.save();
+  }
+
+  /**
+   * 导出为 JSON 文本
+   */
+  exportJSON(): string {
+    const file: BookmarkFile = {
+      format: BOOKMARK_CONFIG.EXPORT_FORMAT,
+      version: BOOKMARK_CONFIG.EXPORT_VERSION,
+      bookmarks: this.bookmarks
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * 导入 JSON 文本（追加到现有书签之后），返回导入 / 未导入的数量及是否保存成功
+   * 文件格式不正确时抛出错误；单个无效书签会被跳过
+   * 现有书签不会被挤掉：超出数量上限的部分不导入
+   */
+  importJSON(text: string): BookmarkImportResult {
+    const file = JSON.parse(text) as Partial<BookmarkFile>;
+    if (file.format !== BOOKMARK_CONFIG.EXPORT_FORMAT || !Array.isArray(file.bookmarks)) {
+      throw new Error('Not a bookmark file');
+    }
+    if (typeof file.version !== 'number' || file.version > BOOKMARK_CONFIG.EXPORT_VERSION) {
+      throw new Error(`Unsupported bookmark file version: ${file.version}`);
+    }
+
+    // 重新分配 id，避免与现有书签冲突
+    const valid = file.bookmarks.filter(isValidBookmark);
+    const room = Math.max(0, BOOKMARK_CONFIG.MAX_BOOKMARKS - this.bookmarks.length);
+    const imported = valid
+      .slice(0, room)
+      .map(bookmark => ({ ...bookmark, id: createBookmarkId() }));
+    this.bookmarks.push(...imported);
+    return { imported: imported.length, skipped: valid.length - imported.length, saved: this.save() };
+  }
+
+  // ============================================
+  // 持久化
+  // ============================================
+
+  private load(): void {
+    try {
+      const raw = localStorage.getItem(BOOKMARK_CONFIG.STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      this.bookmarks = Array.isArray(parsed) ? parsed.filter(isValidBookmark) : [];
+    } catch {
+      this.bookmarks = [];
+    }
+  }
+
+  /**
+   * 写入 localStorage，超出存储配额时返回 false（书签仅保留在本次会话中）
+   */
+  private save(): boolean {
+    try {
+      localStorage.setItem(BOOKMARK_CONFIG.STORAGE_KEY, JSON.stringify(this.bookmarks));
+      return true;
+    } catch (error) {
+      //console.warn('[Bookmarks] 保存失败:', error);
+      return false;
+    }
+  }
+
+  private trim(): void {
+    if (this.bookmarks.length > BOOKMARK_CONFIG.MAX_BOOKMARKS) {
+      this.bookmarks.splice(0, this.bookmarks.length - BOOKMARK_CONFIG.MAX_BOOKMARKS);
+    }
+  }
+}
+
+export function createBookmarkStore(): BookmarkStore {
+  return new BookmarkStore();
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+function createBookmarkId(): string {
+  return `bm-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 检查书签结构（来自 localStorage 或外部文件）
+ */
+function isValidBookmark(value: unknown): value is ViewBookmark {
+  const bookmark = value as ViewBookmark;
+  const snapshot = bookmark?.snapshot;
+  return typeof bookmark?.name === 'string'
+    && (bookmark.modelId === null || typeof bookmark.modelId === 'string')
+    && typeof bookmark.thumbnail === 'string'
+    && typeof snapshot === 'object' && snapshot !== null
+    && VIEW_STATES.includes(snapshot.mech?.state)
+    && Array.isArray(snapshot.mech.focusPath)
+    && snapshot.mech.focusPath.every(id => typeof id === 'string')
+    && Number.isFinite(snapshot.mech.globalExplosion)
+    && Number.isFinite(snapshot.mech.partExplosion)
+    && (snapshot.mech.state !== 'Assembly' || isValidAssembly(snapshot.mech.assembly))
+    && MATERIAL_MODES.includes(snapshot.materialMode)
+    && isVec3(snapshot.camera?.position)
+    && isVec3(snapshot.camera?.target);
+}
+
+function isValidAssembly(assembly: ViewSnapshot['mech']['assembly']): boolean {
+  return !!assembly
+    && ASSEMBLY_MODES.includes(assembly.mode)
+    && Number.isInteger(assembly.step)
+    && assembly.step >= 0;
+}
+
+function isVec3(value: unknown): boolean {
+  return Array.isArray(value) && value.length === 3 && value.every(Number.isFinite);
+}
@@ -0,0 +1,155 @@
+/**
+ * stateChart.ts - 声明式状态图
+ *
+ * 状态、守卫、进入/退出动作和转换都以数据描述：
+ *   {
+ *     initial: 'Assembled',
+ *     on: { RESET: { target: 'Assembled', actions: [...] } },     // 所有状态共用
+ *     states: {
+ *       Assembled: { on: { SELECT: { target: 'PartView', guard, reason, actions } } },
+ *       PartView:  { entry: [...], exit: [...], on: { BACK: [...] } }
+ *     }
+ *   }
+ *
+ * 输入源（键盘、鼠标、手势、API）只负责发送命名事件（send），
+ * 当前状态没有处理该事件、或所有守卫都不通过时，事件被拒绝并通过 onRejected 报告。
+ *
+ * 转换顺序：守卫 → 退出动作 → 转换动作 → 切换状态 → 进入动作 → onTransition。
+ * 没有 target 的转换是内部转换，只执行转换动作；target 为当前状态时会重新进入。
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 事件：type 为事件名，其余字段为参数 */
+export interface ChartEvent {
+  type: string;
+}
+
+export type ChartAction<E extends ChartEvent> = (event: E) => void;
+export type ChartGuard<E extends ChartEvent> = (event: E) => boolean;
+
+/** 单个转换 */
+export interface ChartTransition<S extends string, E extends ChartEvent> {
+  target?: S;                     // 缺省为内部转换
+  guard?: ChartGuard<E>;
+  reason?: string;                // 守卫不通过时报告的原因
+  actions?: ChartAction<E>[];
+}
+
+/** 事件 → 转换（数组时按顺序取第一个守卫通过的转换） */
+export type ChartTransitions<S extends string, E extends ChartEvent> = {
+  [K in E['type']]?: ChartTransition<S, Extract<E, { type: K }>> | ChartTransition<S, Extract<E, { type: K }>>[];
+};
+
+/** 单个状态 */
+export interface ChartStateNode<S extends string, E extends ChartEvent> {
+  entry?: ChartAction<E>[];
+  exit?: ChartAction<E>[];
+  on?: ChartTransitions<S, E>;
+}
+
+/** 状态图定义 */
+export interface StateChartDefinition<S extends string, E extends ChartEvent> {
+  initial: S;
+  on?: ChartTransitions<S, E>;    // 所有状态共用的转换（当前状态未处理时使用）
+  states: Record<S, ChartStateNode<S, E>>;
+}
+
+/** 被拒绝的事件 */
+export interface ChartRejection<S extends string, E extends ChartEvent> {
+  event: E;
+  state: S;
+  reason: string;
+}
+
+export interface StateChartCallbacks<S extends string, E extends ChartEvent> {
+  onTransition?: (newState: S, oldState: S, event: E) => void;
+  onRejected?: (rejection: ChartRejection<S, E>) => void;
+}
+
+// ============================================
+// 状态图类
+// ============================================
+
+export class StateChart<S extends string, E extends ChartEvent> {
+  private definition: StateChartDefinition<S, E>;
+  private callbacks: StateChartCallbacks<S, E>;
+  private state: S;
+
+  constructor(definition: StateChartDefinition<S, E>, callbacks: StateChartCallbacks<S, E> = {}) {
+    this.definition = definition;
+    this.callbacks = callbacks;
+    this.state = definition.initial;
+  }
+
+  /**
+   * 发送事件，返回是否被接受
+   */
+  send(event: E): boolean {
+    const result = this.resolve(event);
+    if (!result.transition) {
+      //console.warn(`[StateChart] 拒绝事件 ${event.type}（${this.state}）: ${result.reason}`);
+      this.callbacks.onRejected?.({ event, state: this.state, reason: result.reason });
+      return false;
+    }
+
+    const { target, actions } = result.transition;
+    const oldState = this.state;
+
+    if (target === undefined) {
+      // 内部转换
+      actions?.forEach(action => action(event));
+      return true;
+    }
+
+    this.definition.states[oldState].exit?.forEach(action => action(event));
+    actions?.forEach(action => action(event));
+    this.state = target;
+    this.definition.states[target].entry?.forEach(action => action(event));
+
+    //console.log(`[StateChart] ${oldState} → ${target}（${event.type}）`);
+    this.callbacks.onTransition?.(target, oldState, event);
+    return true;
+  }
+
+  /**
+   * 当前状态下事件是否会被接受（不执行任何动作）
+   */
+  can(event: E): boolean {
+    return this.resolve(event).transition !== null;
+  }
+
+  getState(): S {
+    return this.state;
+  }
+
+  /**
+   * 查找事件对应的转换：先查当前状态，再查全局转换
+   */
+  private resolve(event: E): { transition: ChartTransition<S, E> | null; reason: string } {
+    const type = event.type as E['type'];
+    const candidates = this.definition.states[this.state].on?.[type] ?? this.definition.on?.[type];
+    if (!candidates) {
+      return { transition: null, reason: `"${event.type}" is not handled in state "${this.state}"` };
+    }
+
+    const list = (Array.isArray(candidates) ? candidates : [candidates]) as ChartTransition<S, E>[];
+    let reason = `guards rejected "${event.type}" in state "${this.state}"`;
+    for (const transition of list) {
+      if (!transition.guard || transition.guard(event)) {
+        return { transition, reason: '' };
+      }
+      if (transition.reason) reason = transition.reason;
+    }
+    return { transition: null, reason };
+  }
+}
+
+export function createStateChart<S extends string, E extends ChartEvent>(
+  definition: StateChartDefinition<S, E>,
+  callbacks?: StateChartCallbacks<S, E>
+): StateChart<S, E> {
+  return new StateChart(definition, callbacks);
+}
@@ -0,0 +1,192 @@
+/**
+ * tourPlayer.ts - 导览播放器
+ *
+ * 按步骤时长推进导览（见 types/tourConfig.ts），每到一步通过 onStep 把目标视图交给调用方，
+ * 由调用方经 RESTORE 事件驱动状态机并过渡相机。
+ *
+ * 状态：idle（未播放）→ playing ⇄ paused → idle（播放结束或停止）
+ * 时间只在 playing 时累计，暂停后继续播放会停留剩余的时长。
+ */
+
+import { TourDefinition, TourStep, TOUR_DEFAULTS, parseTours } from '../types/tourConfig';
+import { ViewSnapshot } from './viewHistory';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export type TourStatus = 'idle' | 'playing' | 'paused';
+
+export interface TourPlayerCallbacks {
+  onStep?: (step: TourStep, index: number, tour: TourDefinition) => void;
+  onStatusChange?: (status: TourStatus, tour: TourDefinition | null) => void;
+}
+
+// ============================================
+// 播放器类
+// ============================================
+
+export class TourPlayer {
+  private callbacks: TourPlayerCallbacks;
+  private tour: TourDefinition | null = null;
+  private stepIndex: number = -1;
+  private stepElapsed: number = 0;
+  private status: TourStatus = 'idle';
+
+  constructor(callbacks: TourPlayerCallbacks = {}) {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * 从第一步开始播放导览
+   */
+  start(tour: TourDefinition): void {
+    this.tour = tour;
+    this.setStatus('playing');
+    this.goTo(0);
+  }
+
+  /**
+   * 继续播放；未播放时从头开始
+   */
+  play(): void {
+    if (!this.tour) return;
+    if (this.status === 'idle') {
+      this.start(this.tour);
+    } else {
+      this.setStatus('playing');
+    }
+  }
+
+  pause(): void {
+    if (this.status === 'playing') {
+      this.setStatus('paused');
+    }
+  }
+
+  toggle(): void {
+    if (this.status === 'playing') {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * 下一步（最后一步时结束导览），暂停状态保持不变
+   */
+  next(): void {
+    if (!this.tour || this.status === 'idle') return;
+    if (this.stepIndex >= this.tour.steps.length - 1) {
+      this.stop();
+    } else {
+      this.goTo(this.stepIndex + 1);
+    }
+  }
+
+  prev(): void {
+    if (!this.tour || this.status === 'idle') return;
+    this.goTo(Math.max(0, this.stepIndex - 1));
+  }
+
+  /**
+   * 停止播放（保留导览，play 时从头开始）
+   */
+  stop(): void {
+    if (this.status === 'idle') return;
+    this.stepIndex = -1;
+    this.setStatus('idle');
+  }
+
+  /**
+   * 每帧更新（在动画循环中调用）
+   */
+  update(deltaTime: number): void {
+    if (this.status !== 'playing' || !this.tour) return;
+
+    this.stepElapsed += deltaTime;
+    if (this.stepElapsed >= this.tour.steps[this.stepIndex].duration) {
+      this.next();
+    }
+  }
+
+  private goTo(index: number): void {
+    if (!this.tour) return;
+    this.stepIndex = index;
+    this.stepElapsed = 0;
+    //console.log(`[Tour] ${this.tour.id} 第 ${index + 1}/${this.tour.steps.length} 步`);
+    this.callbacks.onStep?.(this.tour.steps[index], index, this.tour);
+  }
+
+  private setStatus(status: TourStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.callbacks.onStatusChange?.(status, this.tour);
+  }
+
+  getStatus(): TourStatus {
+    return this.status;
+  }
+
+  getTour(): TourDefinition | null {
+    return this.tour;
+  }
+
+  getStepIndex(): number {
+    return this.stepIndex;
+  }
+
+  isActive(): boolean {
+    return this.status !== 'idle';
+  }
+}
+
+export function createTourPlayer(callbacks?: TourPlayerCallbacks): TourPlayer {
+  return new TourPlayer(callbacks);
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 步骤的目标视图：未指定的字段沿用当前视图
+ * 未指定拆解程度时，Assembled 聚拢、Exploded 完全拆解、PartView 保持当前值
+ */
+export function getTourStepSnapshot(step: TourStep, current: ViewSnapshot): ViewSnapshot {
+  const defaultExplosion = step.state === 'Assembled' ? 0
+    : step.state === 'Exploded' ? 1
+    : current.mech.globalExplosion;
+
+  return {
+    mech: {
+      state: step.state,
+      focusPath: step.state === 'PartView' ? [...(step.part ?? [])] : [],
+      globalExplosion: step.explosion ?? defaultExplosion,
+      partExplosion: step.partExplosion ?? (step.state === 'PartView' ? current.mech.partExplosion : 0)
+    },
+    materialMode: step.material ?? current.materialMode,
+    camera: step.camera ?? current.camera
+  };
+}
+
+/**
+ * 步骤的相机过渡时长
+ */
+export function getTourStepTransition(step: TourStep): number {
+  return Math.min(step.transition ?? TOUR_DEFAULTS.TRANSITION, step.duration);
+}
+
+/**
+ * 加载外部导览文件，不存在或格式错误时返回空列表
+ */
+export async function loadTours(path: string): Promise<TourDefinition[]> {
+  try {
+    const response = await fetch(path);
+    if (!response.ok) return [];
+    return parseTours(await response.json());
+  } catch (error) {
+    //console.warn('导览加载失败，仅使用内置导览:', error);
+    return [];
+  }
+}
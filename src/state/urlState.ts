@@ -0,0 +1,146 @@
+/**
+ * urlState.ts - 把当前视图写入 URL hash，便于分享
+ *
+ * 格式（各字段均可缺省，缺省时沿用当前值）：
+ *   #view=PartView&part=torso,head&explode=0.85,0.5&material=metal&cam=1.2,0.5,3,0,0.05,0&lang=en
+ *
+ * - view：SimpleViewState
+ * - part：聚焦路径，第一项为选中的大部件
+ * - explode：整机拆解程度, 组件拆解程度（目标值）
+ * - assembly：装配说明的模式, 步骤序号（从 0 开始，仅 view=Assembly）
+ * - material：材质模式
+ * - cam：相机位置 x,y,z, 目标点 x,y,z
+ * - lang：界面语言
+ *
+ * 模型本身仍由查询参数 ?model= 指定，hash 只描述该模型上的视图。
+ */
+
+import { Lang, MaterialMode, MechViewState, PartId } from '../types/mechConfig';
+import { Vec3Tuple } from '../types/mechManifest';
+import { ViewSnapshot } from './viewHistory';
+import { AssemblyMode } from '../three/assemblyGuide';
+
+// ============================================
+// 配置
+// ============================================
+
+export const URL_STATE_CONFIG = {
+  UPDATE_INTERVAL: 300,     // 地址栏更新间隔 (ms)
+  CAMERA_PRECISION: 3,      // 相机坐标保留的小数位
+  EXPLOSION_PRECISION: 2    // 拆解程度保留的小数位
+};
+
+const VIEW_STATES: MechViewState[] = ['Assembled', 'Exploded', 'PartView', 'Assembly'];
+const ASSEMBLY_MODES: AssemblyMode[] = ['assemble', 'disassemble'];
+const MATERIAL_MODES: MaterialMode[] = ['default', 'metal', 'wire'];
+const LANGS: Lang[] = ['zh', 'en'];
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 从 hash 中解析出的视图 */
+export interface UrlViewState {
+  snapshot: ViewSnapshot;
+  lang: Lang | null;        // hash 中未指定时为 null
+}
+
+// ============================================
+// 序列化
+// ============================================
+
+/**
+ * 视图 → hash（带 #）
+ */
+export function serializeViewHash(snapshot: ViewSnapshot, lang: Lang): string {
+  const { mech, camera } = snapshot;
+  const fields: [string, string[]][] = [
+    ['view', [mech.state]],
+    ['part', mech.focusPath],
+    ['explode', [mech.globalExplosion, mech.partExplosion].map(v => formatNumber(v, URL_STATE_CONFIG.EXPLOSION_PRECISION))],
+    ['assembly', mech.assembly ? [mech.assembly.mode, String(mech.assembly.step)] : []],
+    ['material', [snapshot.materialMode]],
+    ['cam', [...camera.position, ...camera.target].map(v => formatNumber(v, URL_STATE_CONFIG.CAMERA_PRECISION))],
+    ['lang', [lang]]
+  ];
+
+  return '#' + fields
+    .filter(([, values]) => values.length > 0)
+    .map(([key, values]) => `${key}=${values.map(encodeURIComponent).join(',')}`)
+    .join('&');
+}
+
+/**
+ * hash → 视图，无效字段沿用 fallback；hash 中没有任何视图字段时返回 null
+ */
+export function parseViewHash(hash: string, fallback: ViewSnapshot): UrlViewState | null {
+  const fields = new Map<string, string[]>();
+  for (const pair of hash.replace(/^#/, '').split('&')) {
+    const [key, value] = pair.split('=');
+    if (!key || value === undefined) continue;
+    try {
+      fields.set(key, value.split(',').map(decodeURIComponent).filter(v => v !== ''));
+    } catch {
+      // 非法转义，忽略该字段
+    }
+  }
+  if (fields.size === 0) return null;
+
+  const mech = { ...fallback.mech, focusPath: [...fallback.mech.focusPath] };
+  const state = fields.get('view')?.[0] as MechViewState | undefined;
+  if (state && VIEW_STATES.includes(state)) {
+    mech.state = state;
+    // 整机视图没有聚焦路径
+    mech.focusPath = state === 'PartView' ? (fields.get('part') ?? []) as PartId[] : [];
+    mech.assembly = state === 'Assembly' ? parseAssembly(fields.get('assembly')) : undefined;
+  }
+
+  const explode = parseNumbers(fields.get('explode'), 2);
+  if (explode) {
+    mech.globalExplosion = clamp01(explode[0]);
+    mech.partExplosion = clamp01(explode[1]);
+  }
+
+  const material = fields.get('material')?.[0] as MaterialMode | undefined;
+  const cam = parseNumbers(fields.get('cam'), 6);
+  const lang = fields.get('lang')?.[0] as Lang | undefined;
+
+  return {
+    snapshot: {
+      mech,
+      materialMode: material && MATERIAL_MODES.includes(material) ? material : fallback.materialMode,
+      camera: cam
+        ? { position: cam.slice(0, 3) as Vec3Tuple, target: cam.slice(3, 6) as Vec3Tuple }
+        : fallback.camera
+    },
+    lang: lang && LANGS.includes(lang) ? lang : null
+  };
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+function formatNumber(value: number, precision: number): string {
+  // 去掉多余的 0（0.50 → 0.5，-0.000 → 0）
+  return String(Number(value.toFixed(precision)) || 0);
+}
+
+function parseNumbers(values: string[] | undefined, count: number): number[] | null {
+  if (!values || values.length !== count) return null;
+  const numbers = values.map(Number);
+  return numbers.every(Number.isFinite) ? numbers : null;
+}
+
+function parseAssembly(values: string[] | undefined): { mode: AssemblyMode; step: number } {
+  const mode = values?.[0] as AssemblyMode | undefined;
+  const step = Number(values?.[1]);
+  return {
+    mode: mode && ASSEMBLY_MODES.includes(mode) ? mode : 'assemble',
+    step: Number.isInteger(step) && step >= 0 ? step : 0
+  };
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
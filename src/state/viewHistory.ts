@@ -0,0 +1,151 @@
+/**
+ * viewHistory.ts - 视图导航的撤销/重做历史
+ *
+ * 建立在状态机之上：每次状态机接受事件、切换材质或调整相机后记录一个快照，
+ * 撤销/重做时把快照交回状态机（RESTORE 事件），由状态机和相机动画平滑过渡。
+ *
+ * 连续的操作（长按 A 键拆解、拖动视角）在 COALESCE_TIME 内合并为一条记录，
+ * 只有同一种连续操作的相邻记录才合并，离散操作（选择、切换、材质等）各占一条。
+ */
+
+import { MaterialMode, PartId } from '../types/mechConfig';
+import { Vec3Tuple } from '../types/mechManifest';
+import { MechStateSnapshot } from './SimpleStateMachine';
+
+// ============================================
+// 配置
+// ============================================
+
+export const VIEW_HISTORY_CONFIG = {
+  MAX_ENTRIES: 50,              // 最多保留的记录数
+  COALESCE_TIME: 600,           // 该时间内的连续记录合并为一条 (ms)
+  CAMERA_TRANSITION_TIME: 600,  // 撤销/重做时相机过渡时长 (ms)
+  CAMERA_EPSILON: 1e-3          // 相机位置差小于该值视为未变化
+};
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 相机姿态 */
+export interface CameraPose {
+  position: Vec3Tuple;
+  target: Vec3Tuple;      // OrbitControls 的目标点
+}
+
+/** 可合并的连续操作 */
+export type ContinuousAction = 'explosion' | 'camera';
+
+/** 一条历史记录 */
+export interface ViewSnapshot {
+  mech: MechStateSnapshot;
+  materialMode: MaterialMode;
+  camera: CameraPose;
+}
+
+// ============================================
+// 历史记录类
+// ============================================
+
+export class ViewHistory {
+  private entries: ViewSnapshot[] = [];
+  private index: number = -1;           // 当前快照在 entries 中的位置
+  private lastRecordTime: number = 0;
+  private lastAction: ContinuousAction | null = null;  // 最后一条记录对应的连续操作
+
+  /**
+   * 记录快照（与当前快照相同时忽略；撤销后记录会丢弃重做分支）
+   * @param action 连续操作的类型，离散操作为 null
+   */
+  record(snapshot: ViewSnapshot, action: ContinuousAction | null = null, now: number = performance.now()): void {
+    const current = this.entries[this.index];
+    if (current && isSameSnapshot(current, snapshot)) return;
+
+    // 丢弃重做分支
+    const hadRedo = this.index < this.entries.length - 1;
+    this.entries.length = this.index + 1;
+
+    const isContinued = action !== null && action === this.lastAction &&
+      now - this.lastRecordTime < VIEW_HISTORY_CONFIG.COALESCE_TIME;
+    if (current && !hadRedo && this.index > 0 && isContinued) {
+      // 同一连续操作：替换最后一条
+      this.entries[this.index] = snapshot;
+    } else {
+      this.entries.push(snapshot);
+      if (this.entries.length > VIEW_HISTORY_CONFIG.MAX_ENTRIES) {
+        this.entries.shift();
+      }
+      this.index = this.entries.length - 1;
+    }
+    this.lastRecordTime = now;
+    this.lastAction = action;
+  }
+
+  /**
+   * 撤销：返回上一个快照，没有时返回 null
+   */
+  undo(): ViewSnapshot | null {
+    if (!this.canUndo()) return null;
+    this.index--;
+    this.lastRecordTime = 0;
+    this.lastAction = null;
+    return this.entries[this.index];
+  }
+
+  /**
+   * 重做：返回下一个快照，没有时返回 null
+   */
+  redo(): ViewSnapshot | null {
+    if (!this.canRedo()) return null;
+    this.index++;
+    this.lastRecordTime = 0;
+    this.lastAction = null;
+    return this.entries[this.index];
+  }
+
+  canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  canRedo(): boolean {
+    return this.index < this.entries.length - 1;
+  }
+
+  /**
+   * 清空历史（切换模型时），可选以初始快照开始
+   */
+  clear(initial?: ViewSnapshot): void {
+    this.entries = initial ? [initial] : [];
+    this.index = this.entries.length - 1;
+    this.lastRecordTime = 0;
+    this.lastAction = null;
+  }
+}
+
+export function createViewHistory(): ViewHistory {
+  return new ViewHistory();
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+function isSameSnapshot(a: ViewSnapshot, b: ViewSnapshot): boolean {
+  return a.materialMode === b.materialMode
+    && a.mech.state === b.mech.state
+    && isSamePath(a.mech.focusPath, b.mech.focusPath)
+    && Math.abs(a.mech.globalExplosion - b.mech.globalExplosion) < 1e-3
+    && Math.abs(a.mech.partExplosion - b.mech.partExplosion) < 1e-3
+    && a.mech.assembly?.mode === b.mech.assembly?.mode
+    && a.mech.assembly?.step === b.mech.assembly?.step
+    && isSameVec3(a.camera.position, b.camera.position)
+    && isSameVec3(a.camera.target, b.camera.target);
+}
+
+function isSamePath(a: PartId[], b: PartId[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+function isSameVec3(a: Vec3Tuple, b: Vec3Tuple): boolean {
+  return a.every((v, i) => Math.abs(v - b[i]) < VIEW_HISTORY_CONFIG.CAMERA_EPSILON);
+}
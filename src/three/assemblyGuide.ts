@@ -0,0 +1,286 @@
+/**
+ * assemblyGuide.ts - 分步装配 / 拆卸说明
+ *
+ * 装配顺序由清单编写（见 mechManifest.ts 中的 assembly）：
+ * - 每一步安装一个末级部件（没有子部件的部件），如 左上臂 → 左下臂 → 左手
+ * - after 指定前置部件，按清单中的部件顺序做稳定的拓扑排序
+ * - 拆卸说明为装配顺序的逆序
+ *
+ * 末级部件拆开时的偏移 = 各级祖先的拆解向量 + 自身的拆解向量（均来自清单的 explode），
+ * 因此装配开始时的画面与完全拆解的整机一致，每一步只移动当前部件。
+ * 部件以当前姿态为基准移动（PartConfig.posePosition，见 jointPose.ts），拆解向量随关节转动。
+ */
+
+import * as THREE from 'three';
+import { PartId, Lang, getMechHierarchy, getDescendantParts, hasChildren, getPartDisplayName } from '../types/mechConfig';
+import { MechManifest, getManifestPart } from '../types/mechManifest';
+import { MechModel, highlightPart, unhighlightPart } from './loadMech';
+import { Spring, TWEEN_CONFIG, createSpring } from './tween';
+
+// ============================================
+// 配置
+// ============================================
+
+export const ASSEMBLY_CONFIG = {
+  SMOOTH_TIME: TWEEN_CONFIG.ASSEMBLY_SMOOTH_TIME  // 部件移动的平滑时间 (ms)
+};
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** assemble：从完全拆解开始逐个装回；disassemble：从整机开始逐个拆下 */
+export type AssemblyMode = 'assemble' | 'disassemble';
+
+/** 装配步骤 */
+export interface AssemblyStep {
+  partId: PartId;          // 末级部件
+  dependsOn: PartId[];     // 需先装好的末级部件
+}
+
+// ============================================
+// 装配顺序
+// ============================================
+
+/**
+ * 按清单生成装配顺序（末级部件的拓扑排序）
+ * 循环依赖在解析清单时已被拒绝（见 parseMechManifest），这里仍兜底：剩余部件按清单顺序追加到末尾
+ */
+export function buildAssemblyPlan(manifest: MechManifest): AssemblyStep[] {
+  const order: PartId[] = [];
+  getMechHierarchy(manifest).majorParts.forEach(majorId => {
+    order.push(majorId, ...getDescendantParts(manifest, majorId));
+  });
+  const leaves = order.filter(partId => !hasChildren(manifest, partId));
+
+  // 引用有子部件的部件时展开为它的所有末级部件
+  const expand = (partId: PartId): PartId[] => hasChildren(manifest, partId)
+    ? getDescendantParts(manifest, partId).filter(id => !hasChildren(manifest, id))
+    : [partId];
+
+  const steps = leaves.map(partId => {
+    const dependsOn = new Set<PartId>();
+    // 祖先部件上的 after 对它的所有末级部件生效
+    for (let current: PartId | undefined = partId; current !== undefined; current = getManifestPart(manifest, current)?.parent) {
+      getManifestPart(manifest, current)?.assembly?.after?.forEach(id => {
+        expand(id).forEach(leafId => dependsOn.add(leafId));
+      });
+    }
+    dependsOn.delete(partId);
+    return { partId, dependsOn: leaves.filter(id => dependsOn.has(id)) };
+  });
+
+  // 稳定的拓扑排序：每次取清单中最靠前、前置部件都已装好的部件
+  const plan: AssemblyStep[] = [];
+  const placed = new Set<PartId>();
+  const remaining = [...steps];
+  while (remaining.length > 0) {
+    const index = remaining.findIndex(step => step.dependsOn.every(id => placed.has(id)));
+    if (index === -1) {
+      plan.push(...remaining);
+      break;
+    }
+    const [step] = remaining.splice(index, 1);
+    plan.push(step);
+    placed.add(step.partId);
+  }
+  return plan;
+}
+
+/**
+ * 步骤字幕：清单中的字幕优先，缺省时按部件名称和前置部件生成
+ */
+export function getAssemblyCaption(manifest: MechManifest, step: AssemblyStep, mode: AssemblyMode, lang: Lang): string {
+  const assembly = getManifestPart(manifest, step.partId)?.assembly;
+  const authored = mode === 'assemble' ? assembly?.caption : assembly?.removeCaption;
+  const text = authored?.[lang] || authored?.en;
+  if (text) return text;
+
+  const name = getPartDisplayName(manifest, step.partId, lang);
+  if (mode === 'disassemble') {
+    return lang === 'en' ? `Remove the ${name}` : `拆下${name}`;
+  }
+  if (step.dependsOn.length === 0) {
+    return lang === 'en' ? `Place the ${name}` : `放置${name}`;
+  }
+  // 只列出最后一个前置部件（通常就是相邻的部件）
+  const base = getPartDisplayName(manifest, step.dependsOn[step.dependsOn.length - 1], lang);
+  return lang === 'en' ? `Attach the ${name} to the ${base}` : `将${name}安装到${base}上`;
+}
+
+// ============================================
+// 装配说明类
+// ============================================
+
+export class AssemblyGuide {
+  private model: MechModel;
+  private plan: AssemblyStep[];
+  private mode: AssemblyMode = 'assemble';
+  private stepIndex: number = -1;
+  private active: boolean = false;
+
+  // 末级部件完全拆开时的偏移（部件父节点坐标系）和当前进度（0 = 装好，1 = 拆开，弹簧按时间跟随）
+  private offsets: Map<PartId, THREE.Vector3> = new Map();
+  private progress: Map<PartId, Spring> = new Map();
+  private highlightedPart: PartId | null = null;
+
+  constructor(model: MechModel) {
+    this.model = model;
+    // 模型中缺失的部件不参与装配
+    this.plan = buildAssemblyPlan(model.manifest).filter(step => model.parts.get(step.partId)?.node);
+  }
+
+  /**
+   * 开始装配 / 拆卸说明
+   * @param initialExplosion 部件当前的拆解程度，从该位置平滑过渡到第一步
+   */
+  start(mode: AssemblyMode, stepIndex: number, initialExplosion: number): void {
+    this.mode = mode;
+    this.active = true;
+
+    // 中间层级的部件回到原位，偏移全部由末级部件承担
+    this.model.parts.forEach((config, partId) => {
+      if (!config.node || !config.posePosition) return;
+      if (hasChildren(this.model.manifest, partId)) {
+        config.node.position.copy(config.posePosition);
+      }
+      config.node.scale.setScalar(1);
+      config.node.visible = true;
+    });
+    this.model.root.updateMatrixWorld(true);
+
+    this.offsets.clear();
+    this.progress.clear();
+    this.plan.forEach(step => {
+      this.offsets.set(step.partId, this.computeOffset(step.partId));
+      this.progress.set(step.partId, createSpring(initialExplosion, ASSEMBLY_CONFIG.SMOOTH_TIME));
+    });
+
+    this.goTo(stepIndex);
+  }
+
+  /**
+   * 跳到指定步骤（超出范围时取边界）
+   */
+  goTo(stepIndex: number): void {
+    if (!this.active || this.plan.length === 0) return;
+    this.stepIndex = Math.max(0, Math.min(this.plan.length - 1, stepIndex));
+    this.setHighlight(this.getStep()?.partId ?? null);
+  }
+
+  /**
+   * 前进 / 后退一步，返回步骤是否改变
+   */
+  step(delta: number): boolean {
+    const previous = this.stepIndex;
+    this.goTo(this.stepIndex + delta);
+    return this.stepIndex !== previous;
+  }
+
+  /**
+   * 结束说明：取消高亮，所有部件回到当前姿态
+   */
+  stop(): void {
+    if (!this.active) return;
+    this.active = false;
+    this.stepIndex = -1;
+    this.setHighlight(null);
+    this.progress.clear();
+    this.model.parts.forEach(config => {
+      if (config.node && config.posePosition) {
+        config.node.position.copy(config.posePosition);
+      }
+    });
+  }
+
+  /**
+   * 每帧更新：各末级部件平滑移动到当前步骤对应的位置（deltaTime 为毫秒）
+   */
+  update(deltaTime: number): void {
+    if (!this.active) return;
+
+    const sequence = this.getSequence();
+    sequence.forEach((step, index) => {
+      const config = this.model.parts.get(step.partId);
+      const offset = this.offsets.get(step.partId);
+      const progress = this.progress.get(step.partId);
+      if (!config?.node || !config.posePosition || !offset || !progress) return;
+
+      // 已完成的步骤：装配时到位，拆卸时拆开
+      const done = index <= this.stepIndex;
+      progress.target = (this.mode === 'assemble') !== done ? 1 : 0;
+      progress.update(deltaTime);
+
+      config.node.position.copy(config.posePosition).addScaledVector(offset, progress.value);
+    });
+  }
+
+  /**
+   * 末级部件完全拆开时的偏移：各级拆解向量换算到世界坐标后求和，再换算到部件父节点坐标系
+   */
+  private computeOffset(partId: PartId): THREE.Vector3 {
+    const manifest = this.model.manifest;
+    const world = new THREE.Vector3();
+    for (let current: PartId | undefined = partId; current !== undefined; current = getManifestPart(manifest, current)?.parent) {
+      const config = this.model.parts.get(current);
+      if (!config?.node?.parent) continue;
+      const vector = config.explodeDir.clone().multiplyScalar(config.explodeDistance);
+      if (config.jointRotation) vector.applyQuaternion(config.jointRotation);
+      world.add(vector.applyMatrix3(new THREE.Matrix3().setFromMatrix4(config.node.parent.matrixWorld)));
+    }
+
+    const parent = this.model.parts.get(partId)?.node?.parent;
+    if (!parent) return world;
+    const toLocal = new THREE.Matrix3().setFromMatrix4(parent.matrixWorld).invert();
+    return world.applyMatrix3(toLocal);
+  }
+
+  /**
+   * 高亮当前步骤的部件（每次换步时应用一次）
+   * 鼠标悬停高亮不会改动该部件，见 SimpleMouseController.setPinnedPart
+   */
+  private setHighlight(partId: PartId | null): void {
+    if (this.highlightedPart === partId) return;
+    if (this.highlightedPart) unhighlightPart(this.model, this.highlightedPart);
+    this.highlightedPart = partId;
+    if (partId) highlightPart(this.model, partId);
+  }
+
+  /**
+   * 当前模式下的步骤顺序（拆卸为装配的逆序）
+   */
+  getSequence(): AssemblyStep[] {
+    return this.mode === 'assemble' ? this.plan : [...this.plan].reverse();
+  }
+
+  getStep(): AssemblyStep | null {
+    return this.active ? this.getSequence()[this.stepIndex] ?? null : null;
+  }
+
+  getStepIndex(): number {
+    return this.stepIndex;
+  }
+
+  getStepCount(): number {
+    return this.plan.length;
+  }
+
+  getMode(): AssemblyMode {
+    return this.mode;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * 所有部件是否已移动到当前步骤的位置
+   */
+  isSettled(): boolean {
+    return [...this.progress.values()].every(progress => progress.isSettled());
+  }
+}
+
+export function createAssemblyGuide(model: MechModel): AssemblyGuide {
+  return new AssemblyGuide(model);
+}
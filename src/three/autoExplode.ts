@@ -0,0 +1,137 @@
+/**
+ * autoExplode.ts - 根据几何体自动计算拆解向量
+ *
+ * 思路：
+ * - 方向：部件包围盒中心 - 父部件包围盒中心（大部件相对于整机中心）
+ * - 距离：基础距离按父部件尺寸缩放，再加上脱离同级部件重叠所需的距离
+ *
+ * 计算在世界坐标系中进行，最后换算到部件父节点的局部坐标系，
+ * 与清单中的 explode 向量含义一致（position += direction * distance）。
+ * 清单中已填写 explode 的部件保持原值，不会被覆盖。
+ */
+
+import * as THREE from 'three';
+import { PartId, PartConfig, getMechHierarchy } from '../types/mechConfig';
+import { MechManifest, getManifestPart } from '../types/mechManifest';
+
+// ============================================
+// 配置
+// ============================================
+
+export const AUTO_EXPLODE_CONFIG = {
+  FORWARD_BIAS: 0.3,       // 朝向屏幕（+Z）的偏移，避免部件拆开后互相遮挡
+  BASE_DISTANCE: 0.25,     // 基础距离（相对父部件包围球半径）
+  OVERLAP_FACTOR: 0.6,     // 脱离重叠所需距离的系数（同级部件会同时外移，因此小于1）
+  MAX_DISTANCE: 0.8        // 最大距离（相对父部件包围球半径）
+};
+
+/** 单个部件的世界空间几何信息 */
+interface PartBounds {
+  box: THREE.Box3;
+  center: THREE.Vector3;
+}
+
+// ============================================
+// 主函数
+// ============================================
+
+/**
+ * 为清单中未指定 explode 的部件计算拆解方向和距离，直接写入 PartConfig
+ * 调用前需要保证模型的世界矩阵已更新
+ */
+export function applyAutoExplode(parts: Map<PartId, PartConfig>, manifest: MechManifest): void {
+  const bounds = new Map<PartId, PartBounds>();
+  parts.forEach((config, partId) => {
+    if (!config.node) return;
+    const box = new THREE.Box3().setFromObject(config.node);
+    if (box.isEmpty()) return;
+    bounds.set(partId, { box, center: box.getCenter(new THREE.Vector3()) });
+  });
+
+  // 整机包围盒作为大部件的“父部件”
+  const rootBox = new THREE.Box3();
+  getMechHierarchy(manifest).majorParts.forEach(partId => {
+    const b = bounds.get(partId);
+    if (b) rootBox.union(b.box);
+  });
+  const rootBounds: PartBounds = { box: rootBox, center: rootBox.getCenter(new THREE.Vector3()) };
+
+  parts.forEach((config, partId) => {
+    const part = getManifestPart(manifest, partId);
+    if (!part || part.explode || !config.node) return;  // 清单值优先
+
+    const own = bounds.get(partId);
+    if (!own) return;
+
+    const parentBounds = (part.parent ? bounds.get(part.parent) : rootBounds) ?? rootBounds;
+    const siblings = manifest.parts
+      .filter(p => p.parent === part.parent && p.id !== partId)
+      .map(p => bounds.get(p.id))
+      .filter((b): b is PartBounds => !!b);
+
+    // ========== 方向 ==========
+    // 中心重合时 normalize 得到零向量，只剩朝向屏幕的偏移
+    const worldDir = own.center.clone().sub(parentBounds.center).normalize();
+    worldDir.z += AUTO_EXPLODE_CONFIG.FORWARD_BIAS;
+    worldDir.normalize();
+
+    // ========== 距离 ==========
+    const parentRadius = getRadius(parentBounds.box);
+    const overlap = getOverlapClearance(own.box, siblings, worldDir);
+    const worldDistance = Math.min(
+      AUTO_EXPLODE_CONFIG.BASE_DISTANCE * parentRadius + AUTO_EXPLODE_CONFIG.OVERLAP_FACTOR * overlap,
+      AUTO_EXPLODE_CONFIG.MAX_DISTANCE * parentRadius
+    );
+
+    // ========== 换算到父节点局部坐标系 ==========
+    const parentNode = config.node.parent;
+    const localDir = worldDir.clone();
+    let localDistance = worldDistance;
+    if (parentNode) {
+      const inverse = parentNode.matrixWorld.clone().invert();
+      localDir.transformDirection(inverse);
+      const parentScale = parentNode.getWorldScale(new THREE.Vector3()).x;
+      localDistance = parentScale > 0 ? worldDistance / parentScale : worldDistance;
+    }
+
+    config.explodeDir.copy(localDir);
+    config.explodeDistance = localDistance;
+
+    //console.log(`  🧭 自动拆解: ${partId} → (${localDir.x.toFixed(2)}, ${localDir.y.toFixed(2)}, ${localDir.z.toFixed(2)}) × ${localDistance.toFixed(2)}`);
+  });
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+/** 包围球半径 */
+function getRadius(box: THREE.Box3): number {
+  return box.isEmpty() ? 0 : box.getSize(new THREE.Vector3()).length() / 2;
+}
+
+/**
+ * 沿方向移动多远才能脱离所有与之重叠的同级部件
+ */
+function getOverlapClearance(box: THREE.Box3, siblings: PartBounds[], dir: THREE.Vector3): number {
+  let clearance = 0;
+  siblings.forEach(sibling => {
+    if (!box.intersectsBox(sibling.box)) return;
+    const [ownMin] = projectBox(box, dir);
+    const [, siblingMax] = projectBox(sibling.box, dir);
+    clearance = Math.max(clearance, siblingMax - ownMin);
+  });
+  return clearance;
+}
+
+/** 包围盒在方向上的投影区间 [min, max] */
+function projectBox(box: THREE.Box3, dir: THREE.Vector3): [number, number] {
+  let min = 0;
+  let max = 0;
+  (['x', 'y', 'z'] as const).forEach(axis => {
+    const d = dir[axis];
+    min += d * (d >= 0 ? box.min[axis] : box.max[axis]);
+    max += d * (d >= 0 ? box.max[axis] : box.min[axis]);
+  });
+  return [min, max];
+}
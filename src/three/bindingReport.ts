@@ -0,0 +1,147 @@
+/**
+ * bindingReport.ts - 模型绑定检查报告
+ *
+ * 加载模型后检查节点与清单的匹配情况，供 HUD 诊断面板显示：
+ * - 已绑定的部件 / 清单中有但模型中找不到的部件
+ * - 不属于任何部件的网格节点
+ * - 重名节点（绑定按名称不区分大小写匹配，重名会导致绑错）
+ *   匹配规则见 partMatcher.ts
+ * - 非 MeshStandardMaterial 的材质（高亮和材质模式依赖它）
+ * - 顶点 / 三角面 / 材质数量
+ * - 加载失败原因（此时使用占位模型）
+ * - 清单文件错误（此时使用内置清单）
+ * - 运动链连接不上的关节（见 jointPose.ts，此时单独转动）
+ */
+
+import * as THREE from 'three';
+import { PartId, PartConfig } from '../types/mechConfig';
+import { MechManifest } from '../types/mechManifest';
+import { resolveJointChain } from './jointPose';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 清单来源 */
+export type ManifestSource = 'config' | 'file' | 'builtin' | 'inferred';
+
+/** 模型绑定检查报告 */
+export interface ModelBindingReport {
+  modelName: string;
+  loadError: string | null;                 // 加载失败原因（非空时为占位模型）
+  manifestError: string | null;             // 清单文件无法使用的原因（非空时为内置清单）
+  manifestId: string;
+  manifestSource: ManifestSource;
+  boundParts: Array<{ partId: PartId; nodeNames: string[] }>;   // 多节点部件列出所有来源节点
+  missingParts: PartId[];                   // 清单中有但模型中找不到
+  unknownMeshes: string[];                  // 不属于任何部件的网格节点
+  duplicateNames: Array<{ name: string; count: number }>;
+  nonStandardMaterials: Array<{ meshName: string; materialType: string }>;
+  brokenJoints: Array<{ partId: PartId; attachedTo: PartId }>;   // 连接不上运动链上一级的关节
+  stats: {
+    meshes: number;
+    vertices: number;
+    triangles: number;
+    materials: number;
+  };
+}
+
+/** 生成报告所需的参数 */
+export interface BindingReportInput {
+  scene: THREE.Object3D;
+  modelName: string;
+  missingParts: PartId[];                   // 匹配阶段找不到节点的部件（推导前的清单）
+  manifest: MechManifest;                   // 实际使用的清单
+  manifestSource: ManifestSource;
+  parts: Map<PartId, PartConfig>;
+  loadError?: string | null;
+  manifestError?: string | null;
+}
+
+// ============================================
+// 报告生成
+// ============================================
+
+/**
+ * 检查模型与清单的绑定情况
+ */
+export function createBindingReport(input: BindingReportInput): ModelBindingReport {
+  const { scene, parts } = input;
+
+  // 已绑定部件覆盖的网格
+  const boundMeshes = new Set<THREE.Object3D>();
+  const boundParts: ModelBindingReport['boundParts'] = [];
+  parts.forEach((config, partId) => {
+    if (!config.node) return;
+    const nodeNames: string[] = config.node.userData.sourceNodeNames ?? [config.node.name || '(unnamed)'];
+    boundParts.push({ partId, nodeNames });
+    config.node.traverse((child) => {
+      if (child instanceof THREE.Mesh) boundMeshes.add(child);
+    });
+  });
+
+  const unknownMeshes: string[] = [];
+  const nameCounts = new Map<string, { name: string; count: number }>();
+  const nonStandardMaterials: ModelBindingReport['nonStandardMaterials'] = [];
+  const materials = new Set<THREE.Material>();
+  const stats = { meshes: 0, vertices: 0, triangles: 0, materials: 0 };
+
+  scene.traverse((node) => {
+    // 重名检查（不区分大小写，忽略无名节点）
+    if (node.name) {
+      const key = node.name.toLowerCase();
+      const entry = nameCounts.get(key) || { name: node.name, count: 0 };
+      entry.count++;
+      nameCounts.set(key, entry);
+    }
+
+    if (!(node instanceof THREE.Mesh)) return;
+
+    stats.meshes++;
+    const geometry = node.geometry as THREE.BufferGeometry;
+    const vertexCount = geometry.attributes.position?.count || 0;
+    stats.vertices += vertexCount;
+    stats.triangles += Math.floor((geometry.index ? geometry.index.count : vertexCount) / 3);
+
+    if (!boundMeshes.has(node)) {
+      unknownMeshes.push(node.name || '(unnamed)');
+    }
+
+    const meshMaterials = Array.isArray(node.material) ? node.material : [node.material];
+    meshMaterials.forEach((mat) => {
+      materials.add(mat);
+      if (!(mat instanceof THREE.MeshStandardMaterial)) {
+        nonStandardMaterials.push({ meshName: node.name || '(unnamed)', materialType: mat.type });
+      }
+    });
+  });
+  stats.materials = materials.size;
+
+  return {
+    modelName: input.modelName,
+    loadError: input.loadError ?? null,
+    manifestError: input.manifestError ?? null,
+    manifestId: input.manifest.id,
+    manifestSource: input.manifestSource,
+    boundParts,
+    missingParts: input.missingParts,
+    unknownMeshes,
+    duplicateNames: Array.from(nameCounts.values()).filter(entry => entry.count > 1),
+    nonStandardMaterials,
+    brokenJoints: resolveJointChain(parts).broken,
+    stats
+  };
+}
+
+/**
+ * 报告中的问题数量（不含统计信息）
+ */
+export function getReportIssueCount(report: ModelBindingReport): number {
+  return (report.loadError ? 1 : 0)
+    + (report.manifestError ? 1 : 0)
+    + report.missingParts.length
+    + report.unknownMeshes.length
+    + report.duplicateNames.length
+    + report.nonStandardMaterials.length
+    + report.brokenJoints.length;
+}
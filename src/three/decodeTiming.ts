@@ -0,0 +1,88 @@
+/**
+ * decodeTiming.ts - glTF 资源解码计时
+ *
+ * 记录每个网格（Draco / Meshopt 解压）和贴图（KTX2 转码）从请求到可用的耗时，
+ * 用于在加载界面显示解码进度，排查哪些资源拖慢了加载。
+ */
+
+import { GLTFParser, GLTFLoaderPlugin } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 单个资源的解码结果 */
+export interface DecodedAsset {
+  type: 'mesh' | 'texture';
+  name: string;
+  duration: number;     // 毫秒
+  decoded: number;      // 已完成的资源数
+  total: number;        // 资源总数
+}
+
+const TIMED_TYPES = ['mesh', 'texture'];
+
+/** 计时用到的 glTF JSON 字段 */
+interface GLTFJsonNames {
+  meshes?: { name?: string }[];
+  textures?: { source?: number; extensions?: { KHR_texture_basisu?: { source?: number } } }[];
+  images?: { name?: string; uri?: string }[];
+}
+
+// ============================================
+// 插件
+// ============================================
+
+/**
+ * 创建计时插件（通过 GLTFLoader.register 注册）
+ * 包装 parser.getDependency，网格和贴图每个只计时一次（parser 内部有缓存）
+ */
+export function createDecodeTimingPlugin(
+  parser: GLTFParser,
+  onDecoded: (asset: DecodedAsset) => void
+): GLTFLoaderPlugin {
+  const json: GLTFJsonNames = parser.json;
+  const total = (json.meshes?.length || 0) + (json.textures?.length || 0);
+  const started = new Set<string>();
+  let decoded = 0;
+
+  const getDependency = parser.getDependency.bind(parser);
+  parser.getDependency = (type: string, index: number) => {
+    const key = `${type}:${index}`;
+    if (!TIMED_TYPES.includes(type) || started.has(key)) {
+      return getDependency(type, index);
+    }
+
+    started.add(key);
+    const startTime = performance.now();
+    const promise = getDependency(type, index);
+    promise.then(() => {
+      decoded++;
+      onDecoded({
+        type: type as DecodedAsset['type'],
+        name: getAssetName(json, type, index),
+        duration: performance.now() - startTime,
+        decoded,
+        total
+      });
+    }, () => { /* 错误由 GLTFLoader 处理 */ });
+    return promise;
+  };
+
+  // GLTFLoader 按 name 登记插件（类型声明中没有该字段）
+  const plugin = { name: 'JARVIS_decode_timing' };
+  return plugin as GLTFLoaderPlugin;
+}
+
+/**
+ * 资源显示名称：网格取 name，贴图取图片的 name / uri
+ */
+function getAssetName(json: GLTFJsonNames, type: string, index: number): string {
+  if (type === 'mesh') {
+    return json.meshes?.[index]?.name || `mesh ${index}`;
+  }
+  const texture = json.textures?.[index] ?? {};
+  const source = texture.source ?? texture.extensions?.KHR_texture_basisu?.source;
+  const image = source !== undefined ? json.images?.[source] : undefined;
+  return image?.name || image?.uri?.split('/').pop() || `texture ${index}`;
+}
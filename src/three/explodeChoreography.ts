@@ -0,0 +1,219 @@
+/**
+ * explodeChoreography.ts - 拆解编排（大部件的错峰、缓动和旋转）
+ *
+ * 全局拆解因子 0-1 被映射为每个大部件自己的进度：
+ * - 每个部件在拆解因子的 [start, end] 区间内完成移动，区间外保持原位 / 完全拆开
+ * - 区间内按缓动曲线插值，可选绕拆解方向旋转若干圈
+ * 进度只取决于拆解因子，因此来回拖动拆解程度时画面完全一致（可逆、可回放）。
+ *
+ * 编排类型：
+ * - simultaneous：所有部件同时移动（默认，与原来的线性拆解一致）
+ * - cascade：按分组依次拆解，如 头部 → 双臂 → 双腿
+ * - radial：由内向外爆开，离模型中心越近的部件越早开始
+ *
+ * 三种类型都有内置编排，清单可以用相同的 id 覆盖，或添加自己的编排（见 mechManifest.ts）。
+ */
+
+import * as THREE from 'three';
+import { PartId, PartConfig, Lang, getMechHierarchy } from '../types/mechConfig';
+import { MechManifest, ManifestChoreography, ManifestPartTiming } from '../types/mechManifest';
+import { EASING, Easing, EasingName, isEasingName } from './tween';
+
+// ============================================
+// 配置
+// ============================================
+
+export const CHOREOGRAPHY_CONFIG = {
+  DEFAULT_ID: 'simultaneous',   // 清单未指定时使用的编排
+  CASCADE_STAGGER: 0.25,        // cascade 相邻两组开始时刻之差（占拆解进度的比例）
+  RADIAL_STAGGER: 0.3,          // radial 最内与最外部件开始时刻之差
+  MIN_SPAN: 0.2                 // 每个部件至少占用的拆解进度（分组过多时压缩间隔）
+};
+
+/** 内置编排（清单中相同 id 的编排会覆盖它们） */
+export const BUILTIN_CHOREOGRAPHIES: ManifestChoreography[] = [
+  { id: 'simultaneous', kind: 'simultaneous', names: { zh: '同时拆解', en: 'Simultaneous' }, easing: 'linear' },
+  { id: 'cascade', kind: 'cascade', names: { zh: '依次拆解', en: 'Cascade' }, easing: 'easeInOutCubic' },
+  { id: 'radial', kind: 'radial', names: { zh: '径向爆开', en: 'Radial burst' }, easing: 'easeOutCubic' }
+];
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 单个部件的时间曲线 */
+export interface PartTiming {
+  start: number;      // 开始移动时的拆解因子
+  end: number;        // 完全拆开时的拆解因子
+  easing: Easing;
+  spin: number;       // 移动过程中绕拆解方向旋转的角度（弧度）
+}
+
+/** 解析后的编排 */
+export interface Choreography {
+  id: string;
+  names: Record<string, string>;
+  timings: Map<PartId, PartTiming>;
+}
+
+// ============================================
+// 编排解析
+// ============================================
+
+/**
+ * 内置编排（被清单中同 id 的编排替换）+ 清单中的其他编排
+ */
+export function getChoreographyDefinitions(manifest: MechManifest): ManifestChoreography[] {
+  const authored = manifest.choreographies ?? [];
+  const builtinIds = new Set(BUILTIN_CHOREOGRAPHIES.map(choreography => choreography.id));
+  return [
+    ...BUILTIN_CHOREOGRAPHIES.map(builtin => authored.find(choreography => choreography.id === builtin.id) ?? builtin),
+    ...authored.filter(choreography => !builtinIds.has(choreography.id))
+  ];
+}
+
+/**
+ * 清单指定的默认编排（不存在时退回同时拆解）
+ */
+export function getDefaultChoreographyId(manifest: MechManifest): string {
+  const id = manifest.defaultChoreography;
+  if (id && getChoreographyDefinitions(manifest).some(choreography => choreography.id === id)) {
+    return id;
+  }
+  return CHOREOGRAPHY_CONFIG.DEFAULT_ID;
+}
+
+/**
+ * 解析模型的所有编排（需在模型处于原始姿态时调用，radial 按部件包围盒测量距离）
+ */
+export function buildChoreographies(manifest: MechManifest, parts: Map<PartId, PartConfig>, root: THREE.Object3D): Map<string, Choreography> {
+  const majorParts = getMechHierarchy(manifest).majorParts.filter(partId => parts.get(partId)?.node);
+  const distances = measureCenterDistances(majorParts, parts, root);
+
+  const choreographies = new Map<string, Choreography>();
+  getChoreographyDefinitions(manifest).forEach(definition => {
+    const starts = definition.kind === 'cascade'
+      ? getCascadeStarts(definition, majorParts)
+      : definition.kind === 'radial'
+        ? getRadialStarts(definition, majorParts, distances)
+        : new Map(majorParts.map(partId => [partId, 0] as const));
+
+    // 错峰后每个部件占用的进度相同，最后开始的部件恰好在拆解因子为 1 时到位
+    const lastStart = Math.max(0, ...starts.values());
+    const span = Math.max(1 - lastStart, CHOREOGRAPHY_CONFIG.MIN_SPAN);
+
+    const timings = new Map<PartId, PartTiming>();
+    majorParts.forEach(partId => {
+      const start = starts.get(partId) ?? 0;
+      timings.set(partId, resolveTiming(definition, definition.parts?.[partId], start, span));
+    });
+
+    choreographies.set(definition.id, {
+      id: definition.id,
+      names: definition.names ?? { en: definition.id },
+      timings
+    });
+  });
+  return choreographies;
+}
+
+/**
+ * 部件覆盖优先，其余取编排的默认值
+ */
+function resolveTiming(definition: ManifestChoreography, override: ManifestPartTiming | undefined, start: number, span: number): PartTiming {
+  const from = THREE.MathUtils.clamp(override?.delay ?? start, 0, 1);
+  const duration = override?.duration ?? span;
+  return {
+    start: from,
+    end: THREE.MathUtils.clamp(from + duration, from, 1),
+    easing: getEasing(override?.easing ?? definition.easing),
+    spin: (override?.spin ?? definition.spin ?? 0) * Math.PI * 2
+  };
+}
+
+/**
+ * cascade：按分组依次开始，未列出的大部件放在最后一组
+ */
+function getCascadeStarts(definition: ManifestChoreography, majorParts: PartId[]): Map<PartId, number> {
+  const groups = (definition.groups ?? majorParts.map(partId => [partId]))
+    .map(group => group.filter(partId => majorParts.includes(partId)))
+    .filter(group => group.length > 0);
+  const listed = new Set(groups.flat());
+  const rest = majorParts.filter(partId => !listed.has(partId));
+  if (rest.length > 0) groups.push(rest);
+
+  const stagger = getStagger(definition.stagger ?? CHOREOGRAPHY_CONFIG.CASCADE_STAGGER, groups.length);
+  const starts = new Map<PartId, number>();
+  groups.forEach((group, index) => {
+    group.forEach(partId => starts.set(partId, index * stagger));
+  });
+  return starts;
+}
+
+/**
+ * radial：开始时刻与部件到模型中心的距离成正比（最近的部件最先开始）
+ */
+function getRadialStarts(definition: ManifestChoreography, majorParts: PartId[], distances: Map<PartId, number>): Map<PartId, number> {
+  const values = majorParts.map(partId => distances.get(partId) ?? 0);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  const stagger = getStagger(definition.stagger ?? CHOREOGRAPHY_CONFIG.RADIAL_STAGGER, 2);
+
+  return new Map(majorParts.map((partId, index) => {
+    const t = range > 0 ? (values[index] - min) / range : 0;
+    return [partId, t * stagger] as const;
+  }));
+}
+
+/**
+ * 分组过多时压缩间隔，保证每个部件至少占用 MIN_SPAN 的进度
+ */
+function getStagger(stagger: number, groupCount: number): number {
+  if (groupCount <= 1) return 0;
+  const max = (1 - CHOREOGRAPHY_CONFIG.MIN_SPAN) / (groupCount - 1);
+  return THREE.MathUtils.clamp(stagger, 0, max);
+}
+
+/**
+ * 各大部件包围盒中心到所有大部件整体中心的距离（世界坐标）
+ */
+function measureCenterDistances(majorParts: PartId[], parts: Map<PartId, PartConfig>, root: THREE.Object3D): Map<PartId, number> {
+  root.updateMatrixWorld(true);
+
+  const centers = new Map<PartId, THREE.Vector3>();
+  const total = new THREE.Box3();
+  majorParts.forEach(partId => {
+    const box = new THREE.Box3().setFromObject(parts.get(partId)!.node!);
+    if (box.isEmpty()) return;
+    centers.set(partId, box.getCenter(new THREE.Vector3()));
+    total.union(box);
+  });
+
+  const modelCenter = total.isEmpty() ? new THREE.Vector3() : total.getCenter(new THREE.Vector3());
+  return new Map([...centers].map(([partId, center]) => [partId, center.distanceTo(modelCenter)] as const));
+}
+
+/**
+ * 缓动曲线名称 → 函数（名称已在解析清单时校验，未指定时为 linear）
+ */
+function getEasing(name: EasingName | undefined): Easing {
+  return name && isEasingName(name) ? EASING[name] : EASING.linear;
+}
+
+// ============================================
+// 进度计算
+// ============================================
+
+/**
+ * 拆解因子 → 部件进度 0-1（没有时间曲线的部件直接使用拆解因子）
+ */
+export function getPartProgress(timing: PartTiming | undefined, factor: number): number {
+  if (!timing) return factor;
+  if (factor <= timing.start) return 0;
+  if (factor >= timing.end) return 1;
+  return timing.easing((factor - timing.start) / (timing.end - timing.start));
+}
+
+export function getChoreographyName(choreography: Choreography, lang: Lang): string {
+  return choreography.names[lang] || choreography.names.en || choreography.id;
+}
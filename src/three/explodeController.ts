@@ -1,23 +1,31 @@
 /**
- * explodeController.ts - 层级拆解/拆解视图控制器
- * 
- * 支持两种类型的网格拆解：
- * - 普通 Mesh：直接移动位置
- * - SkinnedMesh：移动整个对象（包括父级）
+ * explodeController.ts - 拆解控制器（部件拆解位移的唯一负责方）
+ *
+ * 两级拆解：
+ * - global：整机拆解。拆解方式给出各部件的偏移和区间（见 explodeStrategy.ts，经 explodeSolver.ts 调整），
+ *   拆解编排把拆解因子换算为各大部件的进度和旋转（见 explodeChoreography.ts）
+ * - part：聚焦根（focus root）的子部件沿清单的拆解向量移开
+ *
+ * 两级因子都由弹簧按时间跟随目标值，变化时触发 onGlobalFactorChange / onPartFactorChange。
+ * 状态机只下发目标（setGlobalExplosionTarget / setPartExplosionTarget / setFocusRoot），不直接移动部件；
+ * 组件视图中大部件和同级部件的圆环布局（位置和缩放）仍由状态机负责，此时整机拆解不再摆放部件。
+ * 位移以部件的当前姿态为基准（PartConfig.posePosition / poseRotation，见 jointPose.ts），拆解方向随关节转动
+ * （jointRotation），例如抬起手臂后前臂仍沿手臂方向拆开，任何姿态下都可以拆解。
  */
 
 import * as THREE from 'three';
-import { MechModel, MechPart, getPartsArray } from './loadMech';
+import { PartId, PartConfig, getMechHierarchy, getChildParts, getDescendantParts } from '../types/mechConfig';
+import { ExplodeStrategyId } from '../types/mechManifest';
+import { MechModel } from './loadMech';
+import { Spring, TWEEN_CONFIG, createSpring } from './tween';
+import { ExplodeLayout, EXPLODE_STRATEGY_CONFIG, buildExplodeLayouts, getExplodeFactor } from './explodeStrategy';
+import { Choreography, buildChoreographies, getDefaultChoreographyId, getPartProgress } from './explodeChoreography';
+import { ExplodeSolver, createExplodeSolver } from './explodeSolver';
 
 // 拆解配置
 export const EXPLODE_CONFIG = {
-  SMOOTHING: 0.08,
-  ROTATION_AMOUNT: 0.1,
-  GLOBAL_SCALE: 1.0,
-  PART_SCALE: 0.6,
-  CHANGE_THRESHOLD: 0.001,
-  MAX_CHANGE_PER_FRAME: 0.05,
-  DEBUG_ENABLED: false
+  SMOOTH_TIME: TWEEN_CONFIG.EXPLOSION_SMOOTH_TIME,  // 拆解因子跟随目标的平滑时间 (ms)
+  FULL_THRESHOLD: 0.01                              // 因子离 0 / 1 小于该值时视为完全聚拢 / 拆开
 };
 
 export type ExplosionLevel = 'global' | 'part';
@@ -27,19 +35,7 @@ export interface ExplosionState {
   partFactor: number;
   currentLevel: ExplosionLevel;
   isAnimating: boolean;
-  focusRootName: string | null;
-}
-
-// 部件数据缓存
-interface PartData {
-  basePosition: THREE.Vector3;
-  baseRotation: THREE.Euler;
-  baseScale: THREE.Vector3;
-  explodeDirection: THREE.Vector3;
-  explodeDistance: number;
-  isSkinnedMesh: boolean;
-  parent: THREE.Object3D | null;
-  parentBasePosition: THREE.Vector3;
+  focusRoot: PartId | null;
 }
 
 /**
@@ -47,297 +43,418 @@ interface PartData {
  */
 export class ExplodeController {
   private model: MechModel | null = null;
-  private partsArray: MechPart[] = [];
-  
-  private globalFactorCurrent: number = 0;
-  private globalFactorTarget: number = 0;
-  private partFactorCurrent: number = 0;
-  private partFactorTarget: number = 0;
-  
-  private focusRoot: THREE.Object3D | null = null;
+  private camera: THREE.PerspectiveCamera | null = null;
+
+  // 拆解因子：弹簧按时间跟随目标值，与帧率无关
+  private globalFactor: Spring = createSpring(0, EXPLODE_CONFIG.SMOOTH_TIME);
+  private partFactor: Spring = createSpring(0, EXPLODE_CONFIG.SMOOTH_TIME);
+
+  private focusRoot: PartId | null = null;
   private currentLevel: ExplosionLevel = 'global';
-  
-  private partDataCache: Map<string, PartData> = new Map();
-  
+  private enabled: boolean = true;  // 暂停时部件位置由其他控制方负责（如装配说明）
+
+  // 拆解方式和拆解编排
+  private explodeLayouts: Map<ExplodeStrategyId, ExplodeLayout> = new Map();
+  private explodeStrategy: ExplodeStrategyId = EXPLODE_STRATEGY_CONFIG.DEFAULT_STRATEGY;
+  private explodeSolver: ExplodeSolver | null = null;
+  private solvedLayouts: Map<ExplodeStrategyId, ExplodeLayout> = new Map();  // 求解结果缓存
+  private solvedAspect: number = 0;     // 求解结果对应的视口宽高比
+  private choreographies: Map<string, Choreography> = new Map();
+  private choreographyId: string = '';
+
+  private poseOffset: THREE.Vector3 = new THREE.Vector3();  // 按姿态转动后的拆解偏移（复用）
+
   public onGlobalFactorChange?: (factor: number) => void;
   public onPartFactorChange?: (factor: number) => void;
-  
+
   constructor() {}
-  
+
   /**
-   * 设置模型
+   * 设置模型（需在模型处于原始姿态时调用，拆解方式和编排在此时测量）
    */
-  setModel(model: MechModel): void {
+  setModel(model: MechModel, camera?: THREE.PerspectiveCamera): void {
     this.model = model;
-    this.partsArray = getPartsArray(model);
-    this.initPartData();
-  }
-  
-  /**
-   * 初始化部件数据
-   */
-  private initPartData(): void {
-    if (!this.partsArray.length) return;
-    
-    this.partDataCache.clear();
-    
-    this.partsArray.forEach(part => {
-      const mesh = part.mesh;
-      const isSkinnedMesh = (mesh as THREE.SkinnedMesh).isSkinnedMesh === true;
-      
-      // 对于 SkinnedMesh，我们需要获取它的父级容器
-      const parent = mesh.parent;
-      const parentBasePosition = new THREE.Vector3();
-      
-      if (parent) {
-        parent.getWorldPosition(parentBasePosition);
-      }
-      
-      this.partDataCache.set(part.name, {
-        basePosition: mesh.position.clone(),
-        baseRotation: mesh.rotation.clone(),
-        baseScale: mesh.scale.clone(),
-        explodeDirection: part.explodeDirection.clone(),
-        explodeDistance: part.explodeDistance,
-        isSkinnedMesh,
-        parent,
-        parentBasePosition
-      });
-      
-      if (EXPLODE_CONFIG.DEBUG_ENABLED) {
-        //console.log(`[Explode] 初始化部件: ${part.name}, SkinnedMesh: ${isSkinnedMesh}`);
-      }
-    });
+    this.camera = camera || null;
+    this.explodeLayouts = buildExplodeLayouts(model, model.manifest.explodeAxis ?? EXPLODE_STRATEGY_CONFIG.DEFAULT_AXIS);
+    this.explodeStrategy = model.manifest.explodeStrategy ?? EXPLODE_STRATEGY_CONFIG.DEFAULT_STRATEGY;
+    this.explodeSolver = createExplodeSolver(model);
+    this.solvedLayouts.clear();
+    this.solvedAspect = 0;
+    this.choreographies = buildChoreographies(model.manifest, model.parts, model.root);
+    this.choreographyId = getDefaultChoreographyId(model.manifest);
+
+    this.globalFactor.jump(0);
+    this.partFactor.jump(0);
+    this.focusRoot = null;
+    this.currentLevel = 'global';
+    this.enabled = true;
   }
-  
+
   // ============================================
   // 拆解控制
   // ============================================
-  
+
   setGlobalExplosionTarget(factor: number): void {
-    this.globalFactorTarget = Math.max(0, Math.min(1, factor));
-  }
-  
-  increaseGlobalExplosion(amount: number = 0.02): void {
-    this.globalFactorTarget = Math.min(1, this.globalFactorTarget + amount);
+    this.globalFactor.target = THREE.MathUtils.clamp(factor, 0, 1);
   }
-  
-  decreaseGlobalExplosion(amount: number = 0.02): void {
-    this.globalFactorTarget = Math.max(0, this.globalFactorTarget - amount);
+
+  getGlobalExplosionTarget(): number {
+    return this.globalFactor.target;
   }
-  
+
   getGlobalExplosionFactor(): number {
-    return this.globalFactorCurrent;
+    return this.globalFactor.value;
   }
-  
-  setPartExplosionTarget(factor: number): void {
-    this.partFactorTarget = Math.max(0, Math.min(1, factor));
+
+  /**
+   * 立即将全局因子提高到至少 factor（不改变目标）
+   */
+  raiseGlobalExplosion(factor: number): void {
+    this.globalFactor.value = Math.max(this.globalFactor.value, factor);
   }
-  
-  increasePartExplosion(amount: number = 0.02): void {
-    this.partFactorTarget = Math.min(1, this.partFactorTarget + amount);
+
+  setPartExplosionTarget(factor: number): void {
+    this.partFactor.target = THREE.MathUtils.clamp(factor, 0, 1);
   }
-  
-  decreasePartExplosion(amount: number = 0.02): void {
-    this.partFactorTarget = Math.max(0, this.partFactorTarget - amount);
+
+  getPartExplosionTarget(): number {
+    return this.partFactor.target;
   }
-  
+
   getPartExplosionFactor(): number {
-    return this.partFactorCurrent;
-  }
-  
-  setFocusRoot(object: THREE.Object3D | null): void {
-    this.focusRoot = object;
-    
-    if (object) {
-      this.currentLevel = 'part';
-      this.partFactorCurrent = 0;
-      this.partFactorTarget = 0;
-    } else {
-      this.currentLevel = 'global';
+    return this.partFactor.value;
+  }
+
+  /**
+   * 设置聚焦根：非空时进入部件级拆解（聚焦根的子部件移开），为空时回到整机拆解
+   * 部件因子归零；深入一级时旧聚焦根的子部件交给圆环布局，保留当前位置作为过渡起点，其余情况恢复原位
+   */
+  setFocusRoot(partId: PartId | null): void {
+    if (this.currentLevel === 'global' && partId !== null) {
+      // 圆环布局按原始朝向测量，大部件保留当前位置
+      this.resetRotations();
+      this.resetDescendants();
     }
+
+    const previous = this.focusRoot;
+    if (previous && !(partId && this.getChildren(previous).includes(partId))) {
+      this.getChildren(previous).forEach(childId => this.resetPosition(childId));
+    }
+
+    this.focusRoot = partId;
+    this.currentLevel = partId ? 'part' : 'global';
+    this.partFactor.jump(0);
   }
-  
-  getFocusRoot(): THREE.Object3D | null {
+
+  getFocusRoot(): PartId | null {
     return this.focusRoot;
   }
-  
+
   getCurrentLevel(): ExplosionLevel {
     return this.currentLevel;
   }
-  
-  setExplosionFactor(level: ExplosionLevel, factor: number): void {
-    if (level === 'global') {
-      this.setGlobalExplosionTarget(factor);
-    } else {
-      this.setPartExplosionTarget(factor);
-    }
-  }
-  
+
   getCurrentExplosionFactor(): number {
-    return this.currentLevel === 'global' ? this.globalFactorCurrent : this.partFactorCurrent;
+    return this.currentLevel === 'global' ? this.globalFactor.value : this.partFactor.value;
   }
-  
-  increaseCurrentExplosion(amount: number = 0.02): void {
-    if (this.currentLevel === 'global' || !this.focusRoot) {
-      this.increaseGlobalExplosion(amount);
-    } else {
-      this.increasePartExplosion(amount);
+
+  /**
+   * 暂停 / 恢复：暂停时两级因子归零、清除旋转，不再摆放部件
+   */
+  setEnabled(enabled: boolean): void {
+    if (this.enabled === enabled) return;
+    this.enabled = enabled;
+    if (!enabled) {
+      this.globalFactor.jump(0);
+      this.partFactor.jump(0);
+      this.resetRotations();
     }
   }
-  
-  decreaseCurrentExplosion(amount: number = 0.02): void {
-    if (this.currentLevel === 'global' || !this.focusRoot) {
-      this.decreaseGlobalExplosion(amount);
-    } else {
-      this.decreasePartExplosion(amount);
-    }
+
+  isEnabled(): boolean {
+    return this.enabled;
   }
-  
+
   // ============================================
   // 更新
   // ============================================
-  
-  update(_deltaTime?: number): void {
+
+  /**
+   * 每帧更新（deltaTime 为毫秒）：因子跟随目标，变化时摆放当前层级的部件
+   */
+  update(deltaTime: number): void {
     if (!this.model) return;
-    
-    // 更新因子
-    const prevGlobal = this.globalFactorCurrent;
-    this.globalFactorCurrent = this.smoothValue(
-      this.globalFactorCurrent,
-      this.globalFactorTarget,
-      EXPLODE_CONFIG.SMOOTHING
-    );
-    
-    if (Math.abs(this.globalFactorCurrent - prevGlobal) > EXPLODE_CONFIG.CHANGE_THRESHOLD) {
-      this.onGlobalFactorChange?.(this.globalFactorCurrent);
+
+    const previousGlobal = this.globalFactor.value;
+    const previousPart = this.partFactor.value;
+    this.globalFactor.update(deltaTime);
+    this.partFactor.update(deltaTime);
+    const globalChanged = this.globalFactor.value !== previousGlobal;
+    const partChanged = this.partFactor.value !== previousPart;
+
+    // 视口宽高比变化时按新的视锥重新求解
+    const aspectChanged = this.camera !== null && this.camera.aspect !== this.solvedAspect;
+
+    if (this.enabled) {
+      if (this.currentLevel === 'global' && (globalChanged || aspectChanged)) {
+        this.applyGlobalExplosion();
+      } else if (this.currentLevel === 'part' && partChanged) {
+        this.applyPartExplosion();
+      }
     }
-    
-    const prevPart = this.partFactorCurrent;
-    this.partFactorCurrent = this.smoothValue(
-      this.partFactorCurrent,
-      this.partFactorTarget,
-      EXPLODE_CONFIG.SMOOTHING
-    );
-    
-    if (Math.abs(this.partFactorCurrent - prevPart) > EXPLODE_CONFIG.CHANGE_THRESHOLD) {
-      this.onPartFactorChange?.(this.partFactorCurrent);
+
+    if (globalChanged) {
+      this.onGlobalFactorChange?.(this.globalFactor.value);
     }
-    
-    // 更新部件
-    this.updatePartPositions();
-  }
-  
-  private smoothValue(current: number, target: number, smoothing: number): number {
-    const diff = target - current;
-    const clampedDiff = Math.max(
-      -EXPLODE_CONFIG.MAX_CHANGE_PER_FRAME,
-      Math.min(EXPLODE_CONFIG.MAX_CHANGE_PER_FRAME, diff * smoothing)
-    );
-    
-    const newValue = current + clampedDiff;
-    
-    if (Math.abs(newValue - target) < EXPLODE_CONFIG.CHANGE_THRESHOLD) {
-      return target;
+    if (partChanged) {
+      this.onPartFactorChange?.(this.partFactor.value);
     }
-    
-    return newValue;
   }
-  
+
+  /**
+   * 立即按当前层级和因子摆放部件（如恢复快照后）
+   */
+  apply(): void {
+    if (!this.model || !this.enabled) return;
+
+    if (this.currentLevel === 'global') {
+      this.applyGlobalExplosion();
+    } else {
+      this.applyPartExplosion();
+    }
+  }
+
   /**
-   * 更新部件位置
+   * 整机拆解：拆解方式给出各部件的偏移和区间，编排在区间内换算为大部件的进度
    */
-  private updatePartPositions(): void {
-    if (!this.partsArray.length) return;
-    
-    this.partsArray.forEach(part => {
-      const data = this.partDataCache.get(part.name);
-      if (!data) return;
-      
-      // 计算有效因子
-      const effectiveFactor = this.globalFactorCurrent * EXPLODE_CONFIG.GLOBAL_SCALE;
-      
-      // 计算偏移
-      const explodeOffset = data.explodeDirection
-        .clone()
-        .multiplyScalar(data.explodeDistance * effectiveFactor * 2); // 加大距离
-      
-      // 根据网格类型应用拆解
-      if (data.isSkinnedMesh) {
-        // 对于 SkinnedMesh，直接设置其位置偏移
-        // SkinnedMesh 的位置可以被设置，它会整体移动
-        part.mesh.position.copy(data.basePosition).add(explodeOffset);
-      } else {
-        // 普通网格
-        part.mesh.position.copy(data.basePosition).add(explodeOffset);
+  private applyGlobalExplosion(): void {
+    if (!this.model) return;
+
+    const timings = this.choreographies.get(this.choreographyId)?.timings;
+    this.getExplodeLayout()?.forEach((vector, partId) => {
+      const config = this.model!.parts.get(partId);
+      if (!config || !config.node) return;
+
+      const timing = timings?.get(partId);
+      const progress = getPartProgress(timing, getExplodeFactor(vector, this.globalFactor.value));
+
+      // 应用位置
+      const offset = this.getPoseOffset(config, vector.offset);
+      if (config.posePosition) {
+        config.node.position.copy(config.posePosition).addScaledVector(offset, progress);
       }
-      
-      // 添加旋转效果
-      if (effectiveFactor > 0.01) {
-        const rotAmount = effectiveFactor * EXPLODE_CONFIG.ROTATION_AMOUNT;
-        part.mesh.rotation.set(
-          data.baseRotation.x + data.explodeDirection.x * rotAmount,
-          data.baseRotation.y + data.explodeDirection.y * rotAmount,
-          data.baseRotation.z + data.explodeDirection.z * rotAmount
-        );
-      } else {
-        part.mesh.rotation.copy(data.baseRotation);
+
+      // 绕拆解方向旋转（父节点坐标系）
+      if (config.poseRotation) {
+        config.node.rotation.copy(config.poseRotation);
+        if (timing && timing.spin !== 0 && offset.lengthSq() > 0) {
+          const axis = offset.clone().normalize();
+          config.node.quaternion.premultiply(new THREE.Quaternion().setFromAxisAngle(axis, timing.spin * progress));
+        }
       }
     });
   }
-  
+
+  /**
+   * 部件级拆解：聚焦根的子部件沿清单拆解向量移开
+   */
+  private applyPartExplosion(): void {
+    if (!this.model || !this.focusRoot) return;
+
+    this.getChildren(this.focusRoot).forEach(childId => {
+      const config = this.model!.parts.get(childId);
+      if (!config || !config.node || !config.posePosition) return;
+
+      const distance = config.explodeDistance * this.partFactor.value;
+      config.node.position.copy(config.posePosition).addScaledVector(this.getPoseOffset(config, config.explodeDir), distance);
+    });
+  }
+
+  /**
+   * 拆解偏移随关节转动（父节点坐标系），返回值每次调用都会被覆盖
+   */
+  private getPoseOffset(config: PartConfig, offset: THREE.Vector3): THREE.Vector3 {
+    this.poseOffset.copy(offset);
+    if (config.jointRotation) this.poseOffset.applyQuaternion(config.jointRotation);
+    return this.poseOffset;
+  }
+
+  /**
+   * 当前拆解方式经求解器调整后的布局（首次使用时求解，之后直接取缓存）
+   */
+  private getExplodeLayout(): ExplodeLayout | undefined {
+    const aspect = this.camera?.aspect ?? 0;
+    if (aspect !== this.solvedAspect) {
+      this.solvedLayouts.clear();
+      this.solvedAspect = aspect;
+    }
+
+    const cached = this.solvedLayouts.get(this.explodeStrategy);
+    if (cached) return cached;
+
+    const layout = this.explodeLayouts.get(this.explodeStrategy);
+    if (!layout || !this.explodeSolver) return layout;
+    const solved = this.explodeSolver.solve(layout, this.camera);
+    this.solvedLayouts.set(this.explodeStrategy, solved);
+    return solved;
+  }
+
+  // ============================================
+  // 拆解方式和拆解编排
+  // ============================================
+
+  getExplodeStrategies(): ExplodeStrategyId[] {
+    return [...this.explodeLayouts.keys()];
+  }
+
+  getExplodeStrategy(): ExplodeStrategyId {
+    return this.explodeStrategy;
+  }
+
+  /**
+   * 切换拆解方式，整机拆解中立即按当前因子重新摆放部件（部件级或暂停时只记录）
+   */
+  setExplodeStrategy(id: ExplodeStrategyId): boolean {
+    if (!this.explodeLayouts.has(id)) return false;
+    this.explodeStrategy = id;
+    if (this.enabled && this.currentLevel === 'global') {
+      // 上一种方式可能移动过子部件
+      this.resetDescendants();
+      this.applyGlobalExplosion();
+    }
+    return true;
+  }
+
+  getChoreographies(): Choreography[] {
+    return [...this.choreographies.values()];
+  }
+
+  getChoreography(): string {
+    return this.choreographyId;
+  }
+
+  /**
+   * 切换拆解编排，整机拆解中立即按当前因子重新摆放部件
+   */
+  setChoreography(id: string): boolean {
+    if (!this.choreographies.has(id)) return false;
+    this.choreographyId = id;
+    if (this.enabled && this.currentLevel === 'global') {
+      this.applyGlobalExplosion();
+    }
+    return true;
+  }
+
   // ============================================
   // 重置
   // ============================================
-  
+
+  /**
+   * 立即回到整机、因子归零，所有部件回到当前姿态
+   */
   reset(): void {
-    this.globalFactorTarget = 0;
-    this.partFactorTarget = 0;
-  }
-  
-  resetGlobal(): void {
-    this.globalFactorTarget = 0;
-  }
-  
-  resetPart(): void {
-    this.partFactorTarget = 0;
-  }
-  
-  resetImmediate(): void {
-    this.globalFactorCurrent = 0;
-    this.globalFactorTarget = 0;
-    this.partFactorCurrent = 0;
-    this.partFactorTarget = 0;
-    this.updatePartPositions();
-  }
-  
+    this.globalFactor.jump(0);
+    this.partFactor.jump(0);
+    this.focusRoot = null;
+    this.currentLevel = 'global';
+    this.enabled = true;
+
+    this.model?.parts.forEach((_, partId) => {
+      this.resetPosition(partId);
+      this.resetRotation(partId);
+    });
+  }
+
+  /**
+   * 所有部件回到当前姿态，再按当前层级和因子摆放（姿态变化、离开组件视图时）
+   */
+  resetToPose(): void {
+    this.model?.parts.forEach((_, partId) => {
+      this.resetPosition(partId);
+      this.resetRotation(partId);
+    });
+    this.apply();
+  }
+
+  /**
+   * 恢复所有子部件的位置（各级子部件，不含大部件）
+   */
+  private resetDescendants(): void {
+    this.getMajorParts().forEach(majorId => {
+      this.getDescendants(majorId).forEach(partId => this.resetPosition(partId));
+    });
+  }
+
+  /**
+   * 恢复所有大部件的朝向（清除拆解编排的旋转）
+   */
+  private resetRotations(): void {
+    this.getMajorParts().forEach(partId => this.resetRotation(partId));
+  }
+
+  private resetPosition(partId: PartId): void {
+    const config = this.model?.parts.get(partId);
+    if (config?.node && config.posePosition) {
+      config.node.position.copy(config.posePosition);
+    }
+  }
+
+  private resetRotation(partId: PartId): void {
+    const config = this.model?.parts.get(partId);
+    if (config?.node && config.poseRotation) {
+      config.node.rotation.copy(config.poseRotation);
+    }
+  }
+
+  // ============================================
+  // 状态查询
+  // ============================================
+
   getState(): ExplosionState {
     return {
-      globalFactor: this.globalFactorCurrent,
-      partFactor: this.partFactorCurrent,
+      globalFactor: this.globalFactor.value,
+      partFactor: this.partFactor.value,
       currentLevel: this.currentLevel,
-      isAnimating: 
-        Math.abs(this.globalFactorCurrent - this.globalFactorTarget) > EXPLODE_CONFIG.CHANGE_THRESHOLD ||
-        Math.abs(this.partFactorCurrent - this.partFactorTarget) > EXPLODE_CONFIG.CHANGE_THRESHOLD,
-      focusRootName: this.focusRoot?.name || null
+      isAnimating: !this.isSettled(),
+      focusRoot: this.focusRoot
     };
   }
-  
+
+  /**
+   * 两级因子是否都已到达目标
+   */
+  isSettled(): boolean {
+    return this.globalFactor.isSettled() && this.partFactor.isSettled();
+  }
+
   isFullyAssembled(): boolean {
-    return this.globalFactorCurrent < 0.01 && this.partFactorCurrent < 0.01;
+    return this.globalFactor.value < EXPLODE_CONFIG.FULL_THRESHOLD && this.partFactor.value < EXPLODE_CONFIG.FULL_THRESHOLD;
   }
-  
+
   isFullyExploded(): boolean {
-    if (this.currentLevel === 'part') {
-      return this.partFactorCurrent > 0.99;
-    }
-    return this.globalFactorCurrent > 0.99;
+    return this.getCurrentExplosionFactor() > 1 - EXPLODE_CONFIG.FULL_THRESHOLD;
   }
-  
+
+  private getMajorParts(): PartId[] {
+    return this.model ? getMechHierarchy(this.model.manifest).majorParts : [];
+  }
+
+  private getChildren(partId: PartId): PartId[] {
+    return this.model ? getChildParts(this.model.manifest, partId) : [];
+  }
+
+  private getDescendants(partId: PartId): PartId[] {
+    return this.model ? getDescendantParts(this.model.manifest, partId) : [];
+  }
+
   dispose(): void {
     this.model = null;
+    this.camera = null;
     this.focusRoot = null;
-    this.partDataCache.clear();
+    this.explodeSolver = null;
+    this.explodeLayouts.clear();
+    this.solvedLayouts.clear();
+    this.choreographies.clear();
   }
 }
 
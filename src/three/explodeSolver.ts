@@ -0,0 +1,360 @@
+/**
+ * explodeSolver.ts - 拆解位置求解（避免重叠、保持在视野内）
+ *
+ * 拆解方式给出的距离是固定常数，完全拆开时部件可能互相穿插（如左臂和主体），或飞出画面。
+ * 求解器按完全拆开时的部件包围盒调整每个部件沿自身拆解方向的距离：
+ * 1. 完全拆开时超出相机初始视锥的部件，缩短距离直到回到视锥内（并固定，不再向外推）
+ * 2. 两两检查包围盒是否重叠，重叠时把分开所需距离更短的一方沿拆解方向推开，
+ *    推开后会离开视锥时只推到视锥边缘，改推另一方；反复迭代直到没有重叠
+ *
+ * 方向和各部件的拆解区间保持不变，只改变距离。包围盒在模型处于原始姿态时测量，
+ * 结果由 ExplodeController（见 explodeController.ts）按模型和拆解方式缓存（视口宽高比变化时重新求解），每帧不再计算。
+ */
+
+import * as THREE from 'three';
+import { PartId, getMechHierarchy, getDescendantParts } from '../types/mechConfig';
+import { getManifestPart } from '../types/mechManifest';
+import { MechModel } from './loadMech';
+import { ExplodeLayout } from './explodeStrategy';
+import { CAMERA_CONFIG } from './initScene';
+
+// ============================================
+// 配置
+// ============================================
+
+export const EXPLODE_SOLVER_CONFIG = {
+  ENABLED: true,
+  MARGIN: 0.02,           // 部件之间至少保留的间隙（占模型包围球半径的比例）
+  FRUSTUM_MARGIN: 0.02,   // 部件与视锥边缘的间隙（同上）
+  MAX_STRETCH: 3,         // 推开后的距离最多为原距离的倍数
+  MAX_ITERATIONS: 20,     // 重叠检查的最大轮数
+  SEARCH_STEPS: 12,       // 视锥边缘二分查找的次数
+  EPSILON: 1e-4
+};
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 参与求解的部件（世界坐标） */
+interface SolverUnit {
+  partId: PartId;
+  box: THREE.Box3;              // 自身几何（不含参与拆解的子部件）在原始姿态下的包围盒
+  direction: THREE.Vector3;     // 拆解方向（单位向量，不移动的部件为零向量）
+  distance: number;             // 拆解距离
+  maxDistance: number;
+  ancestors: SolverUnit[];      // 同时参与拆解的祖先部件（偏移叠加到本部件上）
+  descendants: SolverUnit[];    // 同时参与拆解的子孙部件（随本部件移动）
+  pinned: boolean;              // 已被视锥限制，不再向外推
+}
+
+/** 网格在原始姿态下的包围盒，以及从最近到最远的所属部件 */
+interface MeshBounds {
+  box: THREE.Box3;
+  owners: PartId[];
+}
+
+// ============================================
+// 求解器类
+// ============================================
+
+export class ExplodeSolver {
+  private model: MechModel;
+  private meshes: MeshBounds[] = [];
+  private parentMatrices: Map<PartId, THREE.Matrix3> = new Map();
+  private radius: number = 1;     // 模型包围球半径，间隙按它换算
+
+  /**
+   * 需在模型处于原始姿态时创建
+   */
+  constructor(model: MechModel) {
+    this.model = model;
+    this.measure();
+  }
+
+  /**
+   * 记录每个网格的包围盒和所属部件、各部件父节点的世界矩阵
+   */
+  private measure(): void {
+    const { manifest, parts, root } = this.model;
+    root.updateMatrixWorld(true);
+
+    const ownerNodes = new Map<THREE.Object3D, PartId>();
+    getMechHierarchy(manifest).majorParts.forEach(majorId => {
+      [majorId, ...getDescendantParts(manifest, majorId)].forEach(partId => {
+        const node = parts.get(partId)?.node;
+        if (!node) return;
+        ownerNodes.set(node, partId);
+        if (node.parent) {
+          this.parentMatrices.set(partId, new THREE.Matrix3().setFromMatrix4(node.parent.matrixWorld));
+        }
+      });
+    });
+
+    const total = new THREE.Box3();
+    ownerNodes.forEach((partId, node) => {
+      node.traverse(object => {
+        const mesh = object as THREE.Mesh;
+        if (!mesh.isMesh || !mesh.geometry) return;
+        // 只由最近的部件节点记录，避免父部件重复记录子部件的网格
+        if (this.getNearestOwner(mesh, ownerNodes) !== partId) return;
+
+        if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+        const box = mesh.geometry.boundingBox!.clone().applyMatrix4(mesh.matrixWorld);
+        if (box.isEmpty()) return;
+
+        const owners: PartId[] = [];
+        for (let current: PartId | undefined = partId; current !== undefined; current = getManifestPart(manifest, current)?.parent) {
+          owners.push(current);
+        }
+        this.meshes.push({ box, owners });
+        total.union(box);
+      });
+    });
+
+    if (!total.isEmpty()) {
+      this.radius = Math.max(total.getBoundingSphere(new THREE.Sphere()).radius, EXPLODE_SOLVER_CONFIG.EPSILON);
+    }
+  }
+
+  private getNearestOwner(object: THREE.Object3D, ownerNodes: Map<THREE.Object3D, PartId>): PartId | undefined {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      const partId = ownerNodes.get(current);
+      if (partId !== undefined) return partId;
+    }
+    return undefined;
+  }
+
+  // ============================================
+  // 求解
+  // ============================================
+
+  /**
+   * 调整拆解距离，返回新的布局（方向和区间不变）
+   * @param camera 提供视场角和宽高比，视锥按相机初始视角计算；为 null 时不做视锥约束
+   */
+  solve(layout: ExplodeLayout, camera: THREE.PerspectiveCamera | null): ExplodeLayout {
+    if (!EXPLODE_SOLVER_CONFIG.ENABLED) return layout;
+
+    const units = this.createUnits(layout);
+    const frustum = camera ? this.getHomeFrustum(camera) : null;
+
+    if (frustum) {
+      units.forEach(unit => this.fitToFrustum(unit, frustum));
+    }
+    this.resolveOverlaps(units, frustum);
+
+    const solved: ExplodeLayout = new Map();
+    layout.forEach((vector, partId) => {
+      const unit = units.find(u => u.partId === partId);
+      if (!unit || unit.direction.lengthSq() === 0) {
+        solved.set(partId, vector);
+        return;
+      }
+      const world = unit.direction.clone().multiplyScalar(unit.distance);
+      const toLocal = this.parentMatrices.get(partId)?.clone().invert();
+      solved.set(partId, { ...vector, offset: toLocal ? world.applyMatrix3(toLocal) : world });
+    });
+    return solved;
+  }
+
+  /**
+   * 按布局创建求解单元（祖先在前，子部件在后）
+   */
+  private createUnits(layout: ExplodeLayout): SolverUnit[] {
+    const manifest = this.model.manifest;
+    const units = new Map<PartId, SolverUnit>();
+
+    layout.forEach((vector, partId) => {
+      const world = vector.offset.clone();
+      const matrix = this.parentMatrices.get(partId);
+      if (matrix) world.applyMatrix3(matrix);
+      const distance = world.length();
+
+      // 自身几何：所属部件链中第一个参与拆解的部件是自己的网格
+      const box = new THREE.Box3();
+      this.meshes.forEach(mesh => {
+        if (mesh.owners.find(owner => layout.has(owner)) === partId) box.union(mesh.box);
+      });
+
+      units.set(partId, {
+        partId,
+        box,
+        direction: distance > EXPLODE_SOLVER_CONFIG.EPSILON ? world.divideScalar(distance) : new THREE.Vector3(),
+        distance,
+        maxDistance: distance * EXPLODE_SOLVER_CONFIG.MAX_STRETCH,
+        ancestors: [],
+        descendants: [],
+        pinned: false
+      });
+    });
+
+    units.forEach(unit => {
+      for (let current = getManifestPart(manifest, unit.partId)?.parent; current !== undefined; current = getManifestPart(manifest, current)?.parent) {
+        const ancestor = units.get(current);
+        if (!ancestor) continue;
+        unit.ancestors.unshift(ancestor);
+        ancestor.descendants.push(unit);
+      }
+    });
+
+    return [...units.values()].sort((a, b) => a.ancestors.length - b.ancestors.length);
+  }
+
+  /**
+   * 完全拆开时的偏移（祖先偏移 + 自身偏移）
+   */
+  private getOffset(unit: SolverUnit): THREE.Vector3 {
+    const offset = unit.direction.clone().multiplyScalar(unit.distance);
+    unit.ancestors.forEach(ancestor => offset.addScaledVector(ancestor.direction, ancestor.distance));
+    return offset;
+  }
+
+  private getExplodedBox(unit: SolverUnit): THREE.Box3 {
+    return unit.box.clone().translate(this.getOffset(unit));
+  }
+
+  // ============================================
+  // 重叠
+  // ============================================
+
+  private resolveOverlaps(units: SolverUnit[], frustum: THREE.Frustum | null): void {
+    const C = EXPLODE_SOLVER_CONFIG;
+    const margin = this.radius * C.MARGIN;
+
+    for (let iteration = 0; iteration < C.MAX_ITERATIONS; iteration++) {
+      let moved = false;
+      for (let i = 0; i < units.length; i++) {
+        for (let j = i + 1; j < units.length; j++) {
+          const a = units[i];
+          const b = units[j];
+          if (a.box.isEmpty() || b.box.isEmpty()) continue;
+          if (!this.getExplodedBox(a).expandByScalar(margin).intersectsBox(this.getExplodedBox(b))) continue;
+
+          // 优先推开所需距离更短的一方，推不动（被视锥限制）时改推另一方
+          const candidates = [
+            { unit: a, push: this.getSeparation(a, b, margin) },
+            { unit: b, push: this.getSeparation(b, a, margin) }
+          ].sort((x, y) => x.push - y.push);
+          for (const { unit, push } of candidates) {
+            if (!Number.isFinite(push)) break;
+            if (this.push(unit, push + C.EPSILON, frustum)) {
+              moved = true;
+              break;
+            }
+          }
+        }
+      }
+      if (!moved) break;
+    }
+  }
+
+  /**
+   * unit 沿拆解方向至少再移动多远才能与 other 分开（无法分开时为 Infinity）
+   */
+  private getSeparation(unit: SolverUnit, other: SolverUnit, margin: number): number {
+    // 祖先移动时子部件跟着移动，推开祖先无法与自己的子部件分开
+    if (unit.pinned || unit.direction.lengthSq() === 0 || other.ancestors.includes(unit)) return Infinity;
+
+    const box = this.getExplodedBox(unit);
+    const otherBox = this.getExplodedBox(other);
+    let best = Infinity;
+    (['x', 'y', 'z'] as const).forEach(axis => {
+      const d = unit.direction[axis];
+      if (Math.abs(d) < EXPLODE_SOLVER_CONFIG.EPSILON) return;
+      const gap = d > 0
+        ? otherBox.max[axis] + margin - box.min[axis]
+        : box.max[axis] - otherBox.min[axis] + margin;
+      best = Math.min(best, gap / Math.abs(d));
+    });
+
+    return unit.distance + best <= unit.maxDistance ? best : Infinity;
+  }
+
+  /**
+   * 沿拆解方向推开，离开视锥时只推到视锥边缘并固定；返回是否移动
+   */
+  private push(unit: SolverUnit, amount: number, frustum: THREE.Frustum | null): boolean {
+    const start = unit.distance;
+    unit.distance = start + amount;
+    if (!frustum || this.isSubtreeInFrustum(unit, frustum)) return true;
+
+    unit.distance = this.searchDistance(unit, start, start + amount, () => this.isSubtreeInFrustum(unit, frustum));
+    unit.pinned = true;
+    return unit.distance > start + EXPLODE_SOLVER_CONFIG.EPSILON;
+  }
+
+  // ============================================
+  // 视锥
+  // ============================================
+
+  /**
+   * 相机初始视角的视锥（使用当前相机的视场角和宽高比）
+   */
+  private getHomeFrustum(camera: THREE.PerspectiveCamera): THREE.Frustum {
+    const home = new THREE.PerspectiveCamera(camera.fov, camera.aspect, CAMERA_CONFIG.NEAR, CAMERA_CONFIG.FAR);
+    home.position.set(...CAMERA_CONFIG.POSITION);
+    home.lookAt(new THREE.Vector3(...CAMERA_CONFIG.TARGET));
+    home.updateMatrixWorld(true);
+    home.updateProjectionMatrix();
+    return new THREE.Frustum().setFromProjectionMatrix(
+      new THREE.Matrix4().multiplyMatrices(home.projectionMatrix, home.matrixWorldInverse)
+    );
+  }
+
+  /**
+   * 完全拆开时超出视锥的部件缩短距离（原位就在视锥外的部件保持不变）
+   */
+  private fitToFrustum(unit: SolverUnit, frustum: THREE.Frustum): void {
+    if (unit.box.isEmpty() || unit.direction.lengthSq() === 0) return;
+    const inFrustum = () => this.isBoxInFrustum(this.getExplodedBox(unit), frustum);
+    if (inFrustum()) return;
+
+    const distance = unit.distance;
+    unit.distance = 0;
+    if (!inFrustum()) {
+      unit.distance = distance;
+      return;
+    }
+    unit.distance = this.searchDistance(unit, 0, distance, inFrustum);
+    unit.pinned = true;
+  }
+
+  /**
+   * 在 [low, high] 中二分查找满足条件的最大距离（low 须满足条件）
+   */
+  private searchDistance(unit: SolverUnit, low: number, high: number, accept: () => boolean): number {
+    for (let i = 0; i < EXPLODE_SOLVER_CONFIG.SEARCH_STEPS; i++) {
+      unit.distance = (low + high) / 2;
+      if (accept()) {
+        low = unit.distance;
+      } else {
+        high = unit.distance;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * 部件及随它移动的子部件是否都在视锥内
+   */
+  private isSubtreeInFrustum(unit: SolverUnit, frustum: THREE.Frustum): boolean {
+    return [unit, ...unit.descendants]
+      .filter(u => !u.box.isEmpty())
+      .every(u => this.isBoxInFrustum(this.getExplodedBox(u), frustum));
+  }
+
+  private isBoxInFrustum(box: THREE.Box3, frustum: THREE.Frustum): boolean {
+    const margin = this.radius * EXPLODE_SOLVER_CONFIG.FRUSTUM_MARGIN;
+    const corner = new THREE.Vector3();
+    for (let i = 0; i < 8; i++) {
+      corner.set(i & 1 ? box.max.x : box.min.x, i & 2 ? box.max.y : box.min.y, i & 4 ? box.max.z : box.min.z);
+      if (frustum.planes.some(plane => plane.distanceToPoint(corner) < margin)) return false;
+    }
+    return true;
+  }
+}
+
+export function createExplodeSolver(model: MechModel): ExplodeSolver {
+  return new ExplodeSolver(model);
+}
@@ -0,0 +1,219 @@
+/**
+ * explodeStrategy.ts - 拆解方式（每个部件拆开时的偏移）
+ *
+ * 拆解方式决定部件往哪里移动、移动多远，拆解编排（explodeChoreography.ts）决定什么时候移动：
+ * - preset：清单中的拆解向量（默认）
+ * - radial：沿模型中心 → 部件中心的方向推开，距离沿用拆解向量的长度
+ * - axial：沿选定的坐标轴展开，按部件中心在该轴上的位置分层，相邻层之间拉开相同的间距（类似技术爆炸图）
+ * - hierarchical：前半程拆开大部件，后半程按层级依次拆开子部件（各级都使用清单的拆解向量）
+ *
+ * 几何测量在模型处于原始姿态时完成（init 时），偏移换算到各部件父节点的坐标系，
+ * 每个部件还带有它在拆解因子中占用的区间 [start, end]。
+ */
+
+import * as THREE from 'three';
+import { PartId, Lang, getMechHierarchy, getDescendantParts } from '../types/mechConfig';
+import { ExplodeStrategyId, ExplodeAxis, EXPLODE_STRATEGIES, getManifestPart } from '../types/mechManifest';
+import { MechModel } from './loadMech';
+
+// ============================================
+// 配置
+// ============================================
+
+export const EXPLODE_STRATEGY_CONFIG = {
+  DEFAULT_STRATEGY: 'preset' as ExplodeStrategyId,  // 清单未指定时的拆解方式
+  DEFAULT_AXIS: 'x' as ExplodeAxis,                 // axial 的默认展开轴
+  RADIAL_MIN_OFFSET: 0.05,      // 部件中心离模型中心小于包围球半径的该比例时，沿用拆解向量的方向
+  AXIAL_GAP: 0.25,              // axial 相邻两层之间增加的间距（占模型在该轴方向尺寸的比例）
+  AXIAL_LAYER_TOLERANCE: 0.05,  // 中心坐标之差小于模型尺寸的该比例时视为同一层
+  HIERARCHY_MAJOR_SHARE: 0.5    // hierarchical 中大部件占用的拆解进度，其余按层级均分给子部件
+};
+
+const STRATEGY_NAMES: Record<ExplodeStrategyId, Record<Lang, string>> = {
+  preset: { zh: '预设方向', en: 'Preset' },
+  radial: { zh: '径向', en: 'Radial' },
+  axial: { zh: '轴向', en: 'Axial' },
+  hierarchical: { zh: '逐级', en: 'Hierarchical' }
+};
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 单个部件的拆解偏移 */
+export interface ExplodeVector {
+  offset: THREE.Vector3;  // 完全拆开时的偏移（部件父节点坐标系）
+  start: number;          // 开始移动时的拆解因子
+  end: number;            // 完全拆开时的拆解因子
+}
+
+/** 一种拆解方式下所有参与移动的部件 */
+export type ExplodeLayout = Map<PartId, ExplodeVector>;
+
+// ============================================
+// 布局计算
+// ============================================
+
+/**
+ * 计算所有拆解方式的部件偏移（需在模型处于原始姿态时调用）
+ */
+export function buildExplodeLayouts(model: MechModel, axis: ExplodeAxis): Map<ExplodeStrategyId, ExplodeLayout> {
+  model.root.updateMatrixWorld(true);
+
+  const majorParts = getMechHierarchy(model.manifest).majorParts.filter(partId => model.parts.get(partId)?.node);
+  const boxes = new Map<PartId, THREE.Box3>();
+  const total = new THREE.Box3();
+  majorParts.forEach(partId => {
+    const box = new THREE.Box3().setFromObject(model.parts.get(partId)!.node!);
+    if (box.isEmpty()) return;
+    boxes.set(partId, box);
+    total.union(box);
+  });
+
+  return new Map<ExplodeStrategyId, ExplodeLayout>([
+    ['preset', buildPresetLayout(model, majorParts)],
+    ['radial', buildRadialLayout(model, majorParts, boxes, total)],
+    ['axial', buildAxialLayout(model, majorParts, boxes, total, axis)],
+    ['hierarchical', buildHierarchicalLayout(model, majorParts)]
+  ]);
+}
+
+function buildPresetLayout(model: MechModel, majorParts: PartId[]): ExplodeLayout {
+  return new Map(majorParts.map(partId => [partId, { offset: getPresetOffset(model, partId), start: 0, end: 1 }] as const));
+}
+
+/**
+ * radial：方向取模型中心 → 部件中心，长度与清单拆解向量（世界坐标）相同
+ */
+function buildRadialLayout(model: MechModel, majorParts: PartId[], boxes: Map<PartId, THREE.Box3>, total: THREE.Box3): ExplodeLayout {
+  const layout: ExplodeLayout = new Map();
+  if (total.isEmpty()) return buildPresetLayout(model, majorParts);
+
+  const center = total.getCenter(new THREE.Vector3());
+  const minOffset = total.getBoundingSphere(new THREE.Sphere()).radius * EXPLODE_STRATEGY_CONFIG.RADIAL_MIN_OFFSET;
+  majorParts.forEach(partId => {
+    const preset = localToWorldVector(model, partId, getPresetOffset(model, partId));
+    const direction = boxes.get(partId)?.getCenter(new THREE.Vector3()).sub(center);
+    const world = direction && direction.length() > minOffset
+      ? direction.setLength(preset.length())
+      : preset;
+    layout.set(partId, { offset: worldToLocalVector(model, partId, world), start: 0, end: 1 });
+  });
+  return layout;
+}
+
+/**
+ * axial：按部件中心在轴上的坐标分层，以中间一层为基准，每层向外多移动一个间距
+ */
+function buildAxialLayout(model: MechModel, majorParts: PartId[], boxes: Map<PartId, THREE.Box3>, total: THREE.Box3, axis: ExplodeAxis): ExplodeLayout {
+  const C = EXPLODE_STRATEGY_CONFIG;
+  const layout: ExplodeLayout = new Map();
+  const size = total.isEmpty() ? 0 : total.getSize(new THREE.Vector3())[axis];
+
+  const sorted = majorParts
+    .filter(partId => boxes.has(partId))
+    .map(partId => ({ partId, value: boxes.get(partId)!.getCenter(new THREE.Vector3())[axis] }))
+    .sort((a, b) => a.value - b.value);
+
+  // 相邻部件的中心足够接近时归为同一层
+  const layers: PartId[][] = [];
+  let lastValue = -Infinity;
+  sorted.forEach(({ partId, value }) => {
+    if (layers.length === 0 || value - lastValue > size * C.AXIAL_LAYER_TOLERANCE) {
+      layers.push([]);
+    }
+    layers[layers.length - 1].push(partId);
+    lastValue = value;
+  });
+
+  const pivot = (layers.length - 1) / 2;
+  const gap = size * C.AXIAL_GAP;
+  layers.forEach((layer, index) => {
+    const world = new THREE.Vector3();
+    world[axis] = (index - pivot) * gap;
+    layer.forEach(partId => {
+      layout.set(partId, { offset: worldToLocalVector(model, partId, world), start: 0, end: 1 });
+    });
+  });
+
+  // 没有几何体的部件不移动
+  majorParts.forEach(partId => {
+    if (!layout.has(partId)) layout.set(partId, { offset: new THREE.Vector3(), start: 0, end: 1 });
+  });
+  return layout;
+}
+
+/**
+ * hierarchical：大部件占用 [0, share]，第 n 级子部件占用 share 之后均分的第 n 段
+ */
+function buildHierarchicalLayout(model: MechModel, majorParts: PartId[]): ExplodeLayout {
+  const share = EXPLODE_STRATEGY_CONFIG.HIERARCHY_MAJOR_SHARE;
+  const layout: ExplodeLayout = new Map();
+
+  const depths = new Map<PartId, number>();
+  majorParts.forEach(majorId => {
+    getDescendantParts(model.manifest, majorId).forEach(partId => {
+      if (model.parts.get(partId)?.node) depths.set(partId, getDepth(model, partId));
+    });
+  });
+  const maxDepth = Math.max(0, ...depths.values());
+  if (maxDepth === 0) return buildPresetLayout(model, majorParts);
+
+  const step = (1 - share) / maxDepth;
+  majorParts.forEach(partId => {
+    layout.set(partId, { offset: getPresetOffset(model, partId), start: 0, end: share });
+  });
+  depths.forEach((depth, partId) => {
+    const start = share + (depth - 1) * step;
+    layout.set(partId, { offset: getPresetOffset(model, partId), start, end: start + step });
+  });
+  return layout;
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 拆解因子 → 部件在自己区间内的进度 0-1
+ */
+export function getExplodeFactor(vector: ExplodeVector, factor: number): number {
+  if (factor <= vector.start) return 0;
+  if (factor >= vector.end) return 1;
+  return (factor - vector.start) / (vector.end - vector.start);
+}
+
+export function getExplodeStrategyName(strategy: ExplodeStrategyId, lang: Lang): string {
+  return STRATEGY_NAMES[strategy][lang];
+}
+
+export function getExplodeStrategies(): ExplodeStrategyId[] {
+  return [...EXPLODE_STRATEGIES];
+}
+
+/** 清单中的拆解向量（部件父节点坐标系） */
+function getPresetOffset(model: MechModel, partId: PartId): THREE.Vector3 {
+  const config = model.parts.get(partId)!;
+  return config.explodeDir.clone().multiplyScalar(config.explodeDistance);
+}
+
+/** 大部件为 0，子部件为 1，依此类推 */
+function getDepth(model: MechModel, partId: PartId): number {
+  let depth = 0;
+  for (let current = getManifestPart(model.manifest, partId)?.parent; current !== undefined; current = getManifestPart(model.manifest, current)?.parent) {
+    depth++;
+  }
+  return depth;
+}
+
+function localToWorldVector(model: MechModel, partId: PartId, vector: THREE.Vector3): THREE.Vector3 {
+  const parent = model.parts.get(partId)?.node?.parent;
+  if (!parent) return vector.clone();
+  return vector.clone().applyMatrix3(new THREE.Matrix3().setFromMatrix4(parent.matrixWorld));
+}
+
+function worldToLocalVector(model: MechModel, partId: PartId, vector: THREE.Vector3): THREE.Vector3 {
+  const parent = model.parts.get(partId)?.node?.parent;
+  if (!parent) return vector.clone();
+  return vector.clone().applyMatrix3(new THREE.Matrix3().setFromMatrix4(parent.matrixWorld).invert());
+}
@@ -0,0 +1,128 @@
+/**
+ * inferManifest.ts - 根据场景层级推导部件清单
+ *
+ * 用于直接导入的 GLB/GLTF（如刚从 Blender 导出的文件），
+ * 节点名称与清单不匹配时，按场景图结构生成部件树：
+ * - 跳过只有一个子节点的包装层，找到真正的根节点
+ * - 根节点下包含网格的子节点作为大部件
+ * - 含有两个以上网格子节点的部件继续向下拆分（深度受限）
+ *
+ * 推导出的清单不含拆解向量，由 autoExplode 根据几何体计算。
+ */
+
+import * as THREE from 'three';
+import { PartId } from '../types/mechConfig';
+import { MechManifest, ManifestPart } from '../types/mechManifest';
+
+// ============================================
+// 配置
+// ============================================
+
+export const INFER_CONFIG = {
+  MAX_DEPTH: 4,            // 最大推导层级
+  UNNAMED_PREFIX: 'Part'   // 无名节点的ID前缀
+};
+
+/** 推导结果：清单 + 部件ID到节点的直接映射（不依赖节点名称） */
+export interface InferredManifest {
+  manifest: MechManifest;
+  rootNode: THREE.Object3D;
+  nodes: Map<PartId, THREE.Object3D>;
+}
+
+// ============================================
+// 主函数
+// ============================================
+
+/**
+ * 根据场景图推导部件清单
+ */
+export function inferManifestFromScene(scene: THREE.Object3D, modelName: string = 'Model'): InferredManifest {
+  const rootNode = findContentRoot(scene);
+  const parts: ManifestPart[] = [];
+  const nodes = new Map<PartId, THREE.Object3D>();
+  const usedIds = new Set<string>();
+
+  const collect = (node: THREE.Object3D, parentId: PartId | undefined, depth: number): void => {
+    getMeshChildren(node).forEach(child => {
+      const id = createUniqueId(child, usedIds);
+      parts.push({
+        id,
+        parent: parentId,
+        names: { en: child.name || id }
+      });
+      nodes.set(id, child);
+
+      // 只有一个网格子节点时不再拆分，避免出现无意义的单子部件层级
+      if (depth + 1 < INFER_CONFIG.MAX_DEPTH && getMeshChildren(child).length > 1) {
+        collect(child, id, depth + 1);
+      }
+    });
+  };
+  collect(rootNode, undefined, 0);
+
+  // 根节点本身就是单个网格：整个模型作为一个部件
+  if (parts.length === 0 && hasMesh(rootNode)) {
+    const id = createUniqueId(rootNode, usedIds);
+    parts.push({ id, names: { en: rootNode.name || id } });
+    nodes.set(id, rootNode);
+  }
+
+  //console.log(`🧩 推导出 ${parts.length} 个部件`);
+
+  return {
+    manifest: {
+      id: modelName.toLowerCase().replace(/\s+/g, '-'),
+      names: { en: modelName },
+      rootNode: rootNode.name || undefined,
+      parts
+    },
+    rootNode,
+    nodes
+  };
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 跳过只有一个含网格子节点的包装层（Scene → Armature → Root …）
+ */
+function findContentRoot(scene: THREE.Object3D): THREE.Object3D {
+  let current = scene;
+  while (!(current instanceof THREE.Mesh)) {
+    const children = getMeshChildren(current);
+    if (children.length !== 1) break;
+    current = children[0];
+  }
+  return current;
+}
+
+/** 包含网格的直接子节点 */
+function getMeshChildren(node: THREE.Object3D): THREE.Object3D[] {
+  return node.children.filter(hasMesh);
+}
+
+/** 节点或其后代中是否有网格 */
+function hasMesh(node: THREE.Object3D): boolean {
+  let found = false;
+  node.traverse((child) => {
+    if (child instanceof THREE.Mesh) found = true;
+  });
+  return found;
+}
+
+/**
+ * 以节点名称生成唯一ID（不区分大小写去重），无名节点使用前缀编号
+ */
+function createUniqueId(node: THREE.Object3D, usedIds: Set<string>): PartId {
+  const base = node.name.trim() || `${INFER_CONFIG.UNNAMED_PREFIX}${usedIds.size + 1}`;
+  let id = base;
+  let suffix = 2;
+  while (usedIds.has(id.toLowerCase())) {
+    id = `${base}_${suffix++}`;
+  }
+  usedIds.add(id.toLowerCase());
+  return id;
+}
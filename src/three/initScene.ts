@@ -14,6 +14,15 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 
+// 相机初始视角（拆解求解器按该视角的视锥约束部件位置）
+export const CAMERA_CONFIG = {
+  FOV: 60,
+  NEAR: 0.1,
+  FAR: 1000,
+  POSITION: [0, 1.4, 5] as const,   // 略低相机高度
+  TARGET: [0, 0.05, 0] as const     // 让视角中心下移
+};
+
 // 场景配置接口
 export interface SceneConfig {
   container: HTMLElement;          // 画布容器
@@ -58,9 +67,9 @@ export function initScene(config: SceneConfig): SceneContext {
 
   // 创建透视相机
   const aspect = container.clientWidth / container.clientHeight;
-  const camera = new THREE.PerspectiveCamera(60, aspect, 0.1, 1000);
-  camera.position.set(0, 1.4, 5);  // 略低相机高度
-  camera.lookAt(0, 0.0, 0);        // 视角稍向下，使模型整体更靠屏幕下方
+  const camera = new THREE.PerspectiveCamera(CAMERA_CONFIG.FOV, aspect, CAMERA_CONFIG.NEAR, CAMERA_CONFIG.FAR);
+  camera.position.set(...CAMERA_CONFIG.POSITION);
+  camera.lookAt(...CAMERA_CONFIG.TARGET);   // 与轨道控制器、拆解求解器使用同一视角中心
 
   // 创建 WebGL 渲染器
   const renderer = new THREE.WebGLRenderer({
@@ -92,7 +101,7 @@ export function initScene(config: SceneConfig): SceneContext {
     controls.minDistance = 2;
     controls.maxDistance = 15;
     controls.maxPolarAngle = Math.PI * 0.85;
-    controls.target.set(0, 0.05, 0);  // 让视角中心下移
+    controls.target.set(...CAMERA_CONFIG.TARGET);
     controls.update();
   }
 
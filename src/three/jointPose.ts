@@ -0,0 +1,290 @@
+/**
+ * jointPose.ts - 关节姿态（部件绕关节枢轴旋转）
+ *
+ * 清单为部件声明关节（见 mechManifest.ts 中的 joint）：枢轴、各轴转角范围和运动链上的上一级部件。
+ * 姿态即各关节的转角（部件父节点坐标系中的 XYZ 欧拉角），正向运动学沿运动链累积，例如：
+ *   左手的姿态变换 = 肩关节 × 肘关节 × 腕关节 × 原始变换
+ * 每个关节变换都是绕原始姿态下枢轴的旋转，因此上臂转动时下臂和手一起移动。
+ *
+ * 结果写入 PartConfig.posePosition / poseRotation / jointRotation，拆解、组件视图和装配说明都以它为基准，
+ * 拆解方向也随关节转动，所以任何姿态下都可以拆解；原始姿态（originalPosition / originalRotation）保持不变。
+ * 对外的角度单位为度（与清单一致）。
+ *
+ * 姿态库（见 types/poseConfig.ts）中的命名姿态通过 applyPose 切换，各关节转角在过渡时长内按缓动插值，
+ * 由 update(deltaTime) 推进；逐轴插值的中间姿态始终在关节范围内。
+ */
+
+import * as THREE from 'three';
+import { PartId, PartConfig, PartJoint } from '../types/mechConfig';
+import { JointAxis, JointAngles } from '../types/mechManifest';
+import { PoseDefinition, POSE_DEFAULTS, REST_POSE_ID, parsePoses } from '../types/poseConfig';
+import { MechModel } from './loadMech';
+import { Tween, createTween } from './tween';
+
+// ============================================
+// 类型定义
+// ============================================
+
+const JOINT_AXES: JointAxis[] = ['x', 'y', 'z'];
+
+/** 关节变换：x' = rotation · x + translation（部件父节点坐标系） */
+interface JointTransform {
+  rotation: THREE.Quaternion;
+  translation: THREE.Vector3;
+}
+
+/** 运动链解析结果（清单数据保持不变） */
+export interface JointChain {
+  joints: PartId[];                                         // 有关节的部件（清单顺序）
+  attachedTo: Map<PartId, PartId>;                          // 能连接上的运动链上一级
+  broken: Array<{ partId: PartId; attachedTo: PartId }>;   // 连接不上、单独转动的关节
+}
+
+/** 姿态过渡：各关节从 from 插值到 to（弧度） */
+interface PoseBlend {
+  from: Map<PartId, THREE.Euler>;
+  to: Map<PartId, THREE.Euler>;
+  tween: Tween;
+}
+
+// ============================================
+// 姿态控制器类
+// ============================================
+
+export class PoseController {
+  private model: MechModel;
+  private joints: PartId[];                                 // 有关节的部件（清单顺序）
+  private attachedTo: Map<PartId, PartId>;                  // 运动链上一级（见 resolveJointChain）
+  private chainOrder: PartId[];                             // 同 joints，运动链上一级在前
+  private angles: Map<PartId, THREE.Euler> = new Map();     // 当前转角（弧度）
+  private poseId: string | null = REST_POSE_ID;             // 当前（或过渡目标）的命名姿态，手动调整后为 null
+  private blend: PoseBlend | null = null;
+
+  constructor(model: MechModel) {
+    this.model = model;
+    const chain = resolveJointChain(model.parts);
+    this.joints = chain.joints;
+    this.attachedTo = chain.attachedTo;
+    this.chainOrder = sortByChain(this.joints, this.attachedTo);
+    this.joints.forEach(partId => this.angles.set(partId, new THREE.Euler()));
+  }
+
+  /**
+   * 可摆姿态的部件（清单顺序）
+   */
+  getJoints(): PartId[] {
+    return [...this.joints];
+  }
+
+  getJoint(partId: PartId): PartJoint | undefined {
+    return this.joints.includes(partId) ? this.model.parts.get(partId)?.joint : undefined;
+  }
+
+  /**
+   * 关节各轴的转角范围（度），不能转动的轴不在其中
+   */
+  getJointLimits(partId: PartId): Partial<Record<JointAxis, [number, number]>> {
+    const limits = this.getJoint(partId)?.limits ?? {};
+    return Object.fromEntries(Object.entries(limits).map(([axis, [min, max]]) =>
+      [axis, [THREE.MathUtils.radToDeg(min), THREE.MathUtils.radToDeg(max)]]
+    ));
+  }
+
+  /**
+   * 关节当前的转角（度）
+   */
+  getJointAngle(partId: PartId): Record<JointAxis, number> {
+    const euler = this.angles.get(partId);
+    return {
+      x: euler ? THREE.MathUtils.radToDeg(euler.x) : 0,
+      y: euler ? THREE.MathUtils.radToDeg(euler.y) : 0,
+      z: euler ? THREE.MathUtils.radToDeg(euler.z) : 0
+    };
+  }
+
+  /**
+   * 设置关节转角（度，超出范围时取边界），返回姿态是否改变
+   * 手动调整会中止正在进行的姿态过渡
+   */
+  setJointAngle(partId: PartId, angles: JointAngles): boolean {
+    const joint = this.getJoint(partId);
+    const euler = this.angles.get(partId);
+    if (!joint || !euler) return false;
+
+    this.blend = null;
+    let changed = false;
+    JOINT_AXES.forEach(axis => {
+      const value = angles[axis];
+      const limit = joint.limits[axis];
+      if (value === undefined || !limit) return;
+      const radians = THREE.MathUtils.clamp(THREE.MathUtils.degToRad(value), limit[0], limit[1]);
+      if (euler[axis] !== radians) {
+        euler[axis] = radians;
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.poseId = null;
+      this.updatePose();
+    }
+    return changed;
+  }
+
+  /**
+   * 所有关节立即回到原始姿态，返回姿态是否改变
+   */
+  resetPose(): boolean {
+    this.blend = null;
+    this.poseId = REST_POSE_ID;
+    const changed = [...this.angles.values()].some(euler => euler.x !== 0 || euler.y !== 0 || euler.z !== 0);
+    this.angles.forEach(euler => euler.set(0, 0, 0));
+    if (changed) this.updatePose();
+    return changed;
+  }
+
+  // ============================================
+  // 命名姿态与过渡
+  // ============================================
+
+  /**
+   * 切换到命名姿态（未写出的关节和轴回到原始姿态）
+   * @param duration 过渡时长 (ms)，缺省使用姿态自己的 blend，0 表示立即到位
+   */
+  applyPose(pose: PoseDefinition, duration: number = pose.blend ?? POSE_DEFAULTS.BLEND): void {
+    const to = new Map<PartId, THREE.Euler>();
+    this.joints.forEach(partId => {
+      const limits = this.getJoint(partId)!.limits;
+      const angles = pose.joints[partId] ?? {};
+      const target = new THREE.Euler();
+      JOINT_AXES.forEach(axis => {
+        const limit = limits[axis];
+        target[axis] = limit ? THREE.MathUtils.clamp(THREE.MathUtils.degToRad(angles[axis] ?? 0), limit[0], limit[1]) : 0;
+      });
+      to.set(partId, target);
+    });
+
+    this.poseId = pose.id;
+    const from = new Map([...this.angles].map(([partId, euler]) => [partId, euler.clone()] as const));
+    this.blend = { from, to, tween: createTween({ duration, easing: 'easeInOutCubic' }) };
+    this.update(0);
+  }
+
+  /**
+   * 推进姿态过渡（deltaTime 为毫秒），返回姿态是否改变
+   */
+  update(deltaTime: number): boolean {
+    if (!this.blend) return false;
+
+    const { from, to, tween } = this.blend;
+    const t = tween.update(deltaTime);
+    this.angles.forEach((euler, partId) => {
+      const start = from.get(partId)!;
+      const end = to.get(partId)!;
+      JOINT_AXES.forEach(axis => {
+        euler[axis] = THREE.MathUtils.lerp(start[axis], end[axis], t);
+      });
+    });
+    if (tween.isDone()) this.blend = null;
+
+    this.updatePose();
+    return true;
+  }
+
+  /**
+   * 当前（或过渡目标）的命名姿态，手动调整过关节后为 null
+   */
+  getPoseId(): string | null {
+    return this.poseId;
+  }
+
+  isBlending(): boolean {
+    return this.blend !== null;
+  }
+
+  /**
+   * 正向运动学：按运动链累积关节变换，写入各部件的姿态基准
+   */
+  private updatePose(): void {
+    const transforms = new Map<PartId, JointTransform>();
+
+    this.chainOrder.forEach(partId => {
+      const config = this.model.parts.get(partId)!;
+      const joint = config.joint!;
+
+      // 绕枢轴旋转：x' = R(x - p) + p
+      const rotation = new THREE.Quaternion().setFromEuler(this.angles.get(partId)!);
+      const translation = joint.pivot.clone().sub(joint.pivot.clone().applyQuaternion(rotation));
+
+      // 叠加运动链上一级的变换（上一级的枢轴在它自己转动之前的位置上）
+      const attachedTo = this.attachedTo.get(partId);
+      const parent = attachedTo ? transforms.get(attachedTo) : undefined;
+      if (parent) {
+        translation.applyQuaternion(parent.rotation).add(parent.translation);
+        rotation.premultiply(parent.rotation);
+      }
+      transforms.set(partId, { rotation, translation });
+      config.jointRotation?.copy(rotation);
+
+      if (config.originalPosition && config.posePosition) {
+        config.posePosition.copy(config.originalPosition).applyQuaternion(rotation).add(translation);
+      }
+      if (config.originalRotation && config.poseRotation) {
+        const quaternion = new THREE.Quaternion().setFromEuler(config.originalRotation).premultiply(rotation);
+        config.poseRotation.setFromQuaternion(quaternion, config.originalRotation.order);
+      }
+    });
+  }
+}
+
+/**
+ * 解析模型中有关节的部件及其运动链
+ * 运动链上一级缺失或不在同一个父节点下时，该部件单独转动（列入 broken，由绑定报告显示）
+ */
+export function resolveJointChain(parts: Map<PartId, PartConfig>): JointChain {
+  const joints = [...parts.values()].filter(config => config.joint && config.node && config.originalPosition);
+  const ids = new Set(joints.map(config => config.id));
+  const attachedTo = new Map<PartId, PartId>();
+  const broken: JointChain['broken'] = [];
+
+  joints.forEach(config => {
+    const target = config.joint!.attachedTo;
+    if (!target) return;
+    const parentNode = parts.get(target)?.node?.parent;
+    if (ids.has(target) && parentNode && parentNode === config.node!.parent) {
+      attachedTo.set(config.id, target);
+    } else {
+      broken.push({ partId: config.id, attachedTo: target });
+    }
+  });
+  return { joints: joints.map(config => config.id), attachedTo, broken };
+}
+
+/**
+ * 按运动链排序（上一级在前）
+ */
+function sortByChain(joints: PartId[], attachedTo: Map<PartId, PartId>): PartId[] {
+  const depth = (partId: PartId): number => {
+    const parent = attachedTo.get(partId);
+    return parent ? depth(parent) + 1 : 0;
+  };
+  return [...joints].sort((a, b) => depth(a) - depth(b));
+}
+
+export function createPoseController(model: MechModel): PoseController {
+  return new PoseController(model);
+}
+
+/**
+ * 加载外部姿态库文件，不存在或格式错误时返回空列表
+ */
+export async function loadPoses(path: string): Promise<PoseDefinition[]> {
+  try {
+    const response = await fetch(path);
+    if (!response.ok) return [];
+    return parsePoses(await response.json());
+  } catch (error) {
+    //console.warn('姿态库加载失败，仅使用内置姿态:', error);
+    return [];
+  }
+}
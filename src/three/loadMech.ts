@@ -12,22 +12,43 @@
  *     ├── Rightarm (Rightupperarm, Rightdownarm, Righthand)
  *     ├── Leftleg (Leftupperleg, Leftdownleg, Leftfeet)
  *     └── Rightleg (Rightupperleg, Rightdownleg, Rightfeet)
+ * 
+ * 部件定义来自与模型同目录的清单文件（robot.glb → robot.manifest.json），
+ * 找不到清单时使用内置的 ROBOT_MANIFEST。
+ * 节点按清单的 match 规则匹配（别名、通配符/正则、忽略导出后缀、多节点组合），见 partMatcher.ts。
+ * 若节点名称与清单完全不匹配（如拖入的本地模型），则根据场景层级推导部件树。
  */
 
 import * as THREE from 'three';
 import { GLTFLoader, GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { createDecodeTimingPlugin } from './decodeTiming';
+import { applyAutoExplode } from './autoExplode';
+import { inferManifestFromScene } from './inferManifest';
+import { matchPartNodes, groupPartNodes } from './partMatcher';
+import { createPlaceholderScene } from './placeholderMech';
+import { ModelBindingReport, ManifestSource, createBindingReport } from './bindingReport';
 import {
   PartId,
   PartConfig,
   MajorPartId,
+  getMechHierarchy,
   getAllPartIds,
+  getChildParts,
   createPartConfig,
-  MECH_HIERARCHY,
-  PART_DISPLAY_NAMES,
   HIGHLIGHT_CONFIG,
   MaterialMode
 } from '../types/mechConfig';
+import {
+  MechManifest,
+  ROBOT_MANIFEST,
+  getManifestPathForModel,
+  parseMechManifest
+} from '../types/mechManifest';
+import { ModelCatalogEntry, parseModelCatalog } from '../types/modelCatalog';
+import { ASSET_CONFIG } from '../types/assetConfig';
 
 // ============================================
 // 类型定义
@@ -37,18 +58,52 @@ import {
 export interface MechModel {
   root: THREE.Group;                              // 根节点
   robotNode: THREE.Object3D | null;               // Robot 节点
+  manifest: MechManifest;                         // 部件清单
   parts: Map<PartId, PartConfig>;                 // 部件配置映射
   originalMaterials: Map<string, THREE.Material>; // 原始材质存储
   boundingBox: THREE.Box3;                        // 包围盒
   center: THREE.Vector3;                          // 中心点
+  report: ModelBindingReport;                     // 绑定检查报告
 }
 
 /** 加载配置 */
 export interface LoadConfig {
   modelPath?: string;
-  onProgress?: (progress: number) => void;
+  modelName?: string;           // 模型显示名称（推导清单时使用）
+  resourceUrls?: Map<string, string>;  // 外部资源文件名 → URL（本地导入的贴图/bin 使用 blob URL）
+  manifest?: MechManifest;      // 直接传入清单（优先）
+  manifestPath?: string;        // 清单路径，缺省为模型同目录的 *.manifest.json
+  onProgress?: (progress: number, detail?: string) => void;   // detail 为当前解码的资源及耗时
+  scale?: number;
+  autoCenter?: boolean;
+  autoExplode?: boolean;        // 根据几何体计算清单中未指定的拆解向量
+  dracoDecoderPath?: string;    // Draco 解码器目录，缺省为本地 /libs/draco/（见 assetConfig.ts）
+  basisTranscoderPath?: string; // KTX2 (Basis) 转码器目录，缺省为本地 /libs/basis/
+  renderer?: THREE.WebGLRenderer;  // KTX2 需要检测渲染器支持的压缩格式，未传入时不支持 KTX2 贴图
+}
+
+// 加载进度中下载所占的比例（%），其余为解码
+const DOWNLOAD_PROGRESS_SHARE = 80;
+
+/** processLoadedModel 的处理选项 */
+interface ProcessOptions {
+  manifestSource: ManifestSource;
+  modelName: string;
+  scale: number;
+  autoCenter: boolean;
+  autoExplode: boolean;
+  loadError?: string | null;    // 占位模型记录的加载失败原因
+  manifestError?: string | null;  // 清单文件无法使用的原因（此时使用内置清单）
+}
+
+/** 占位模型选项 */
+export interface PlaceholderOptions {
+  modelName?: string;
   scale?: number;
   autoCenter?: boolean;
+  autoExplode?: boolean;
+  loadError?: string | null;
+  manifestError?: string | null;
 }
 
 // ============================================
@@ -66,22 +121,84 @@ export async function loadMechModel(
     modelPath = '/assets/models/robot.glb',
     onProgress,
     scale = 1,
-    autoCenter = true
+    autoCenter = true,
+    autoExplode = false,
+    dracoDecoderPath = ASSET_CONFIG.draco.BASES[0],
+    basisTranscoderPath = ASSET_CONFIG.basis.BASES[0],
+    renderer
   } = config;
+  
+  const modelName = config.modelName ?? getModelFileName(modelPath);
+  
+  // 清单优先级：传入 > 清单文件 > 内置
+  let manifestSource: ManifestSource = 'config';
+  let manifest = config.manifest ?? null;
+  let manifestError: string | null = null;
+  // 本地导入的模型（blob URL）旁边没有清单文件，不发请求
+  const manifestPath = config.manifestPath ?? (modelPath.startsWith('blob:') ? null : getManifestPathForModel(modelPath));
+  if (!manifest && manifestPath) {
+    try {
+      manifest = await loadMechManifest(manifestPath);
+    } catch (error) {
+      // 清单文件存在但无法使用：仍按内置清单加载，原因记录在报告中
+      manifestError = error instanceof Error ? error.message : String(error);
+    }
+    manifestSource = 'file';
+  }
+  if (!manifest) {
+    manifest = ROBOT_MANIFEST;
+    manifestSource = 'builtin';
+  }
+  const resolvedManifest = manifest;
 
-  const loader = new GLTFLoader();
+  // 压缩格式：Draco / Meshopt 几何体，KTX2 贴图
+  const loader = new GLTFLoader(createLoadingManager(config.resourceUrls));
   const dracoLoader = new DRACOLoader();
-  dracoLoader.setDecoderPath('https://www.gstatic.com/draco/versioned/decoders/1.5.6/');
+  dracoLoader.setDecoderPath(dracoDecoderPath);
   loader.setDRACOLoader(dracoLoader);
+  loader.setMeshoptDecoder(MeshoptDecoder);
+  
+  let ktx2Loader: KTX2Loader | null = null;
+  if (renderer) {
+    ktx2Loader = new KTX2Loader();
+    ktx2Loader.setTranscoderPath(basisTranscoderPath);
+    ktx2Loader.detectSupport(renderer);
+    loader.setKTX2Loader(ktx2Loader);
+  }
+  
+  // 解码计时：下载完成后按已解码的资源数推进进度
+  loader.register(parser => createDecodeTimingPlugin(parser, (asset) => {
+    //console.log(`⏱️ 解码 ${asset.type} ${asset.name}: ${asset.duration.toFixed(1)}ms`);
+    if (!onProgress || asset.total === 0) return;
+    const decodeShare = 100 - DOWNLOAD_PROGRESS_SHARE;
+    onProgress(
+      DOWNLOAD_PROGRESS_SHARE + (asset.decoded / asset.total) * decodeShare,
+      `${asset.name} ${asset.duration.toFixed(0)}ms (${asset.decoded}/${asset.total})`
+    );
+  }));
+  
+  // 解码器的 Worker 在加载结束后释放
+  const disposeDecoders = () => {
+    dracoLoader.dispose();
+    ktx2Loader?.dispose();
+  };
 
   return new Promise((resolve, reject) => {
     loader.load(
       modelPath,
       (gltf: GLTF) => {
         //console.log('✅ 模型加载成功！');
+        disposeDecoders();
         printModelStructure(gltf.scene);
         
-        const mechModel = processLoadedModel(gltf, scale, autoCenter);
+        const mechModel = processLoadedModel(gltf.scene, resolvedManifest, {
+          manifestSource,
+          modelName,
+          scale,
+          autoCenter,
+          autoExplode,
+          manifestError
+        });
         scene.add(mechModel.root);
         
         //console.log(`📦 共绑定 ${mechModel.parts.size} 个部件`);
@@ -89,13 +206,15 @@ export async function loadMechModel(
       },
       (progress) => {
         if (onProgress && progress.total > 0) {
-          onProgress((progress.loaded / progress.total) * 100);
+          onProgress((progress.loaded / progress.total) * DOWNLOAD_PROGRESS_SHARE);
         }
       },
       (error) => {
         //console.error('模型加载失败:', error);
-        // 创建占位模型
-        const placeholderModel = createPlaceholderMech();
+        disposeDecoders();
+        // 创建占位模型，失败原因记录在报告中
+        const message = error instanceof Error ? error.message : String(error);
+        const placeholderModel = createPlaceholderMech({ loadError: message, manifestError, modelName, scale, autoCenter, autoExplode });
         scene.add(placeholderModel.root);
         resolve(placeholderModel);
       }
@@ -103,6 +222,60 @@ export async function loadMechModel(
   });
 }
 
+/**
+ * 从模型路径取文件名（不含扩展名），用作默认模型名称
+ */
+function getModelFileName(modelPath: string): string {
+  const fileName = modelPath.split(/[\\/]/).pop() || modelPath;
+  return fileName.replace(/\.(glb|gltf)$/i, '');
+}
+
+/**
+ * 创建加载管理器：按文件名把外部资源重定向到指定 URL
+ */
+function createLoadingManager(resourceUrls?: Map<string, string>): THREE.LoadingManager {
+  const manager = new THREE.LoadingManager();
+  if (!resourceUrls || resourceUrls.size === 0) return manager;
+  
+  manager.setURLModifier((url) => {
+    const fileName = decodeURIComponent(url.split(/[\\/]/).pop() || '');
+    return resourceUrls.get(fileName) ?? url;
+  });
+  return manager;
+}
+
+/**
+ * 加载清单文件，文件不存在 (404) 时返回 null
+ * 请求失败、JSON 或清单格式错误时抛出异常，由调用方报告
+ */
+export async function loadMechManifest(manifestPath: string): Promise<MechManifest | null> {
+  const response = await fetch(manifestPath);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`${manifestPath}: HTTP ${response.status}`);
+  }
+  try {
+    return parseMechManifest(await response.json());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${manifestPath}: ${message}`);
+  }
+}
+
+/**
+ * 加载模型库文件，文件不存在或格式错误时返回空列表
+ */
+export async function loadModelCatalog(catalogPath: string): Promise<ModelCatalogEntry[]> {
+  try {
+    const response = await fetch(catalogPath);
+    if (!response.ok) return [];
+    return parseModelCatalog(await response.json());
+  } catch (error) {
+    //console.warn('模型库加载失败，仅使用内置模型:', error);
+    return [];
+  }
+}
+
 /**
  * 打印模型结构（调试用）
  */
@@ -127,21 +300,26 @@ function printModelStructure(object: THREE.Object3D, depth: number = 0): void {
 /**
  * 处理加载的模型，建立部件映射
  */
-function processLoadedModel(gltf: GLTF, scale: number, autoCenter: boolean): MechModel {
-  const originalScene = gltf.scene;
+function processLoadedModel(originalScene: THREE.Object3D, manifest: MechManifest, options: ProcessOptions): MechModel {
+  const { scale, autoCenter, modelName } = options;
+  let { autoExplode, manifestSource } = options;
+  
   const root = new THREE.Group();
   root.name = 'MechRoot';
   
   // 添加原始场景到根节点
   root.add(originalScene);
   
-  // 查找 Robot 节点
+  // 查找清单指定的根节点（如 Robot）
   let robotNode: THREE.Object3D | null = null;
-  originalScene.traverse((node) => {
-    if (node.name === 'Robot' || node.name === 'robot') {
-      robotNode = node;
-    }
-  });
+  const rootNodeName = manifest.rootNode?.toLowerCase();
+  if (rootNodeName) {
+    originalScene.traverse((node) => {
+      if (node.name.toLowerCase() === rootNodeName) {
+        robotNode = node;
+      }
+    });
+  }
   
   if (!robotNode) {
     // 如果没有 Robot 节点，使用整个场景
@@ -152,44 +330,31 @@ function processLoadedModel(gltf: GLTF, scale: number, autoCenter: boolean): Mec
   // 建立部件映射
   const parts = new Map<PartId, PartConfig>();
   const originalMaterials = new Map<string, THREE.Material>();
-  const allPartIds = getAllPartIds();
   
-  // 遍历模型，按名称绑定部件
-  originalScene.traverse((node) => {
-    const nodeName = node.name;
-    
-    // 检查是否匹配预定义的部件名称
-    for (const partId of allPartIds) {
-      // 不区分大小写匹配
-      if (nodeName.toLowerCase() === partId.toLowerCase()) {
-        const config = createPartConfig(partId, node);
-        parts.set(partId, config);
-        
-        // 存储原始材质
-        if (node instanceof THREE.Mesh && node.material) {
-          storeMaterial(node, originalMaterials);
-        }
-        
-        // 递归存储子节点材质
-        node.traverse((child) => {
-          if (child instanceof THREE.Mesh && child.material) {
-            storeMaterial(child, originalMaterials);
-          }
-        });
-        
-        // 设置阴影
-        node.traverse((child) => {
-          if (child instanceof THREE.Mesh) {
-            child.castShadow = true;
-            child.receiveShadow = true;
-          }
-        });
-        
-        //console.log(`  📌 绑定部件: ${partId} → ${nodeName}`);
-        break;
-      }
-    }
-  });
+  // 按清单的匹配规则（ID、别名、通配符/正则、导出后缀）查找部件节点
+  const matchedNodes = matchPartNodes(originalScene, manifest);
+  const missingParts = getAllPartIds(manifest).filter(id => !matchedNodes.has(id));
+  
+  if (getMechHierarchy(manifest).majorParts.some(id => matchedNodes.has(id))) {
+    matchedNodes.forEach((nodes, partId) => {
+      // 多个节点组合成一个部件
+      const node = groupPartNodes(partId, nodes);
+      bindPart(manifest, partId, node, parts, originalMaterials);
+      //console.log(`  📌 绑定部件: ${partId} → ${nodes.map(n => n.name).join(', ')}`);
+    });
+  } else {
+    // 没有任何大部件匹配：根据场景层级推导部件树
+    //console.warn('⚠️ 节点名称与清单不匹配，根据场景层级推导部件');
+    const inferred = inferManifestFromScene(originalScene, modelName);
+    manifest = inferred.manifest;
+    manifestSource = 'inferred';
+    robotNode = inferred.rootNode;
+    inferred.nodes.forEach((node, partId) => {
+      bindPart(manifest, partId, node, parts, originalMaterials);
+    });
+    // 推导的清单没有拆解向量，只能自动计算
+    autoExplode = true;
+  }
   
   // 计算包围盒
   originalScene.updateMatrixWorld(true);
@@ -227,16 +392,85 @@ function processLoadedModel(gltf: GLTF, scale: number, autoCenter: boolean): Mec
   const finalCenter = new THREE.Vector3();
   finalBoundingBox.getCenter(finalCenter);
   
+  // 自动计算拆解向量（清单中已指定的保持不变）
+  if (autoExplode) {
+    applyAutoExplode(parts, manifest);
+  }
+  
+  // 绑定检查报告；内置清单只是兜底，推导后不再按它报告缺失部件
+  const report = createBindingReport({
+    scene: originalScene,
+    modelName,
+    missingParts: manifestSource === 'inferred' && options.manifestSource === 'builtin' ? [] : missingParts,
+    manifest,
+    manifestSource,
+    parts,
+    loadError: options.loadError,
+    manifestError: options.manifestError
+  });
+  
   return {
     root,
     robotNode,
+    manifest,
     parts,
     originalMaterials,
     boundingBox: finalBoundingBox,
-    center: finalCenter
+    center: finalCenter,
+    report
   };
 }
 
+/**
+ * 绑定单个部件：创建配置、存储原始材质、设置阴影
+ */
+function bindPart(
+  manifest: MechManifest,
+  partId: PartId,
+  node: THREE.Object3D,
+  parts: Map<PartId, PartConfig>,
+  originalMaterials: Map<string, THREE.Material>
+): void {
+  parts.set(partId, createPartConfig(manifest, partId, node));
+  
+  node.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.material) {
+      // 存储原始材质（包括子节点）
+      storeMaterial(child, originalMaterials);
+      // 设置阴影
+      child.castShadow = true;
+      child.receiveShadow = true;
+    }
+  });
+}
+
+/**
+ * 释放模型：从场景移除并释放几何体、材质和贴图（切换模型时调用）
+ */
+export function disposeMechModel(scene: THREE.Scene, model: MechModel): void {
+  scene.remove(model.root);
+  
+  const disposeMaterial = (mat: THREE.Material) => {
+    Object.values(mat).forEach((value) => {
+      if (value instanceof THREE.Texture) {
+        value.dispose();
+      }
+    });
+    mat.dispose();
+  };
+  
+  model.root.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach(disposeMaterial);
+    }
+  });
+  model.originalMaterials.forEach(mat => mat.dispose());
+  model.originalMaterials.clear();
+  model.parts.clear();
+}
+
 /**
  * 存储原始材质
  */
@@ -380,10 +614,7 @@ export function getPartConfig(model: MechModel, partId: PartId): PartConfig | un
  * 获取大部件的子部件列表
  */
 export function getChildPartConfigs(model: MechModel, majorPartId: MajorPartId): PartConfig[] {
-  const children = MECH_HIERARCHY.childrenMap[majorPartId as keyof typeof MECH_HIERARCHY.childrenMap];
-  if (!children) return [];
-  
-  return children
+  return getChildParts(model.manifest, majorPartId)
     .map(childId => model.parts.get(childId))
     .filter((config): config is PartConfig => config !== undefined);
 }
@@ -393,68 +624,19 @@ export function getChildPartConfigs(model: MechModel, majorPartId: MajorPartId):
 // ============================================
 
 /**
- * 创建占位模型
+ * 创建占位模型（节点结构与 Robot.glb 一致，覆盖内置清单的全部部件）
+ * 与真实模型走同一套绑定、居中和报告流程，离线或无头测试时所有交互均可用
  */
-function createPlaceholderMech(): MechModel {
-  const root = new THREE.Group();
-  root.name = 'PlaceholderMech';
-  
-  const parts = new Map<PartId, PartConfig>();
-  const originalMaterials = new Map<string, THREE.Material>();
-  
-  // 创建简单的占位几何体
-  const bodyMaterial = new THREE.MeshStandardMaterial({
-    color: 0x117733,
-    metalness: 0.7,
-    roughness: 0.3,
-    transparent: true
+export function createPlaceholderMech(options: PlaceholderOptions = {}): MechModel {
+  return processLoadedModel(createPlaceholderScene(), ROBOT_MANIFEST, {
+    manifestSource: 'builtin',
+    modelName: options.modelName ?? 'PlaceholderMech',
+    scale: options.scale ?? 1,
+    autoCenter: options.autoCenter ?? true,
+    autoExplode: options.autoExplode ?? false,
+    loadError: options.loadError ?? null,
+    manifestError: options.manifestError ?? null
   });
-  
-  const goldMaterial = new THREE.MeshStandardMaterial({
-    color: 0xd4af37,
-    metalness: 0.8,
-    roughness: 0.2,
-    transparent: true
-  });
-
-  // 简单的部件配置
-  const placeholderParts: Array<{
-    id: PartId;
-    geometry: THREE.BufferGeometry;
-    position: [number, number, number];
-    material: THREE.Material;
-  }> = [
-    { id: 'mainbody', geometry: new THREE.BoxGeometry(0.7, 0.9, 0.4), position: [0, 0.5, 0], material: bodyMaterial },
-    { id: 'Head', geometry: new THREE.SphereGeometry(0.2, 16, 16), position: [0, 1.2, 0], material: goldMaterial },
-    { id: 'Leftarm', geometry: new THREE.CapsuleGeometry(0.08, 0.5, 8, 16), position: [-0.5, 0.5, 0], material: bodyMaterial },
-    { id: 'Rightarm', geometry: new THREE.CapsuleGeometry(0.08, 0.5, 8, 16), position: [0.5, 0.5, 0], material: bodyMaterial },
-    { id: 'Leftleg', geometry: new THREE.CapsuleGeometry(0.1, 0.6, 8, 16), position: [-0.2, -0.3, 0], material: bodyMaterial },
-    { id: 'Rightleg', geometry: new THREE.CapsuleGeometry(0.1, 0.6, 8, 16), position: [0.2, -0.3, 0], material: bodyMaterial },
-  ];
-  
-  placeholderParts.forEach(({ id, geometry, position, material }) => {
-    const mesh = new THREE.Mesh(geometry, material);
-    mesh.name = id;
-    mesh.position.set(...position);
-    mesh.castShadow = true;
-    root.add(mesh);
-    
-    const config = createPartConfig(id, mesh);
-    parts.set(id, config);
-  });
-
-  const boundingBox = new THREE.Box3().setFromObject(root);
-  const center = new THREE.Vector3();
-  boundingBox.getCenter(center);
-
-  return {
-    root,
-    robotNode: root,
-    parts,
-    originalMaterials,
-    boundingBox,
-    center
-  };
 }
 
 // ============================================
@@ -0,0 +1,179 @@
+/**
+ * partMatcher.ts - 节点名称与部件的匹配规则
+ *
+ * Blender 等工具导出的节点名常带后缀（Head.001、Head_low）或使用其他命名（L_UpperArm），
+ * 因此绑定时按以下优先级匹配，分数高者优先：
+ * 1. 与部件ID完全相同（不区分大小写）
+ * 2. 清单 match.aliases 中的别名
+ * 3. 清单 match.patterns 中的通配符（* ?）或 /正则/flags
+ * 4. 去掉常见导出后缀后与部件ID或别名相同
+ *
+ * 默认每个部件绑定一个节点；match.multiple 为 true 时，所有匹配的节点组合成一个部件。
+ */
+
+import * as THREE from 'three';
+import { PartId } from '../types/mechConfig';
+import { MechManifest, ManifestPart } from '../types/mechManifest';
+
+// ============================================
+// 配置
+// ============================================
+
+export const NODE_MATCH_CONFIG = {
+  // 匹配前可忽略的导出后缀
+  IGNORED_SUFFIXES: [
+    /\.\d{3}$/,                   // Blender 重名后缀：Head.001
+    /[_.-](low|high|lod\d+)$/i,   // 高低模后缀：Head_low、Head_LOD0
+    /[_.-]?mesh$/i                // Head_mesh、HeadMesh
+  ]
+};
+
+// 匹配分数
+const SCORE_EXACT = 4;
+const SCORE_ALIAS = 3;
+const SCORE_PATTERN = 2;
+const SCORE_NORMALIZED = 1;
+
+/** 编译后的部件匹配器 */
+interface PartMatcher {
+  part: ManifestPart;
+  names: Set<string>;       // 部件ID + 别名（小写）
+  patterns: RegExp[];
+}
+
+// ============================================
+// 匹配
+// ============================================
+
+/**
+ * 按清单规则为每个部件查找节点
+ * 每个节点只归属分数最高的部件（同分时取清单中靠前的部件）
+ */
+export function matchPartNodes(scene: THREE.Object3D, manifest: MechManifest): Map<PartId, THREE.Object3D[]> {
+  const matchers = manifest.parts.map(compilePartMatcher);
+
+  // 节点 → 最佳部件
+  const candidates = new Map<PartId, Array<{ node: THREE.Object3D; score: number }>>();
+  scene.traverse((node) => {
+    if (!node.name) return;
+
+    let best: { partId: PartId; score: number } | null = null;
+    for (const matcher of matchers) {
+      const score = getMatchScore(matcher, node.name);
+      if (score > 0 && (!best || score > best.score)) {
+        best = { partId: matcher.part.id, score };
+      }
+    }
+    if (!best) return;
+
+    const list = candidates.get(best.partId) || [];
+    list.push({ node, score: best.score });
+    candidates.set(best.partId, list);
+  });
+
+  const result = new Map<PartId, THREE.Object3D[]>();
+  matchers.forEach(({ part }) => {
+    const list = candidates.get(part.id);
+    if (!list || list.length === 0) return;
+
+    if (part.match?.multiple) {
+      // 祖先节点已匹配时跳过后代，避免同一几何体被移动两次
+      const nodes = list.map(entry => entry.node);
+      result.set(part.id, nodes.filter(node => !hasAncestorIn(node, nodes)));
+    } else {
+      // 取分数最高的节点（同分时取遍历顺序靠前的）
+      const best = list.reduce((a, b) => (b.score > a.score ? b : a));
+      result.set(part.id, [best.node]);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 把多个节点组合为一个部件节点
+ * 新建的 Group 放在第一个节点的父节点下，attach 保持各节点的世界变换不变
+ */
+export function groupPartNodes(partId: PartId, nodes: THREE.Object3D[]): THREE.Object3D {
+  if (nodes.length === 1) return nodes[0];
+
+  const group = new THREE.Group();
+  group.name = partId;
+  group.userData.sourceNodeNames = nodes.map(node => node.name);
+
+  const parent = nodes[0].parent;
+  if (parent) {
+    parent.add(group);
+    parent.updateMatrixWorld(true);
+  }
+  nodes.forEach(node => group.attach(node));
+
+  return group;
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+function compilePartMatcher(part: ManifestPart): PartMatcher {
+  const names = new Set<string>([part.id.toLowerCase()]);
+  part.match?.aliases?.forEach(alias => names.add(alias.toLowerCase()));
+  return {
+    part,
+    names,
+    patterns: (part.match?.patterns || []).map(compilePattern)
+  };
+}
+
+function getMatchScore(matcher: PartMatcher, nodeName: string): number {
+  const lower = nodeName.toLowerCase();
+  if (lower === matcher.part.id.toLowerCase()) return SCORE_EXACT;
+  if (matcher.names.has(lower)) return SCORE_ALIAS;
+  if (matcher.patterns.some(pattern => pattern.test(nodeName))) return SCORE_PATTERN;
+  if (matcher.names.has(stripSuffixes(lower))) return SCORE_NORMALIZED;
+  return 0;
+}
+
+/**
+ * 反复去掉可忽略的后缀（Head_low.001 → Head）
+ */
+function stripSuffixes(name: string): string {
+  let current = name;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const suffix of NODE_MATCH_CONFIG.IGNORED_SUFFIXES) {
+      const stripped = current.replace(suffix, '');
+      if (stripped !== current && stripped.length > 0) {
+        current = stripped;
+        changed = true;
+      }
+    }
+  }
+  return current;
+}
+
+/**
+ * 编译匹配规则："/正则/flags" 按正则处理，其余按通配符处理（不区分大小写）
+ */
+function compilePattern(pattern: string): RegExp {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    return new RegExp(regexMatch[1], regexMatch[2]);
+  }
+
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function hasAncestorIn(node: THREE.Object3D, nodes: THREE.Object3D[]): boolean {
+  let current = node.parent;
+  while (current) {
+    if (nodes.includes(current)) return true;
+    current = current.parent;
+  }
+  return false;
+}
@@ -0,0 +1,110 @@
+/**
+ * placeholderMech.ts - 程序化占位机器人
+ *
+ * Robot.glb 加载失败（离线、无模型文件、无头测试）时使用。
+ * 节点结构与 Robot.glb 一致，覆盖内置清单的全部 19 个部件，
+ * 因此大部件拆解、子部件拆解和组件视图都能正常工作：
+ * Scene (Group)
+ * └── Robot (Object3D)
+ *     ├── Head, neck, mainbody
+ *     ├── Leftarm (Leftupperarm, Leftdownarm, Lefthand)
+ *     ├── Rightarm (Rightupperarm, Rightdownarm, Righthand)
+ *     ├── Leftleg (Leftupperleg, Leftdownleg, Leftfeet)
+ *     └── Rightleg (Rightupperleg, Rightdownleg, Rightfeet)
+ */
+
+import * as THREE from 'three';
+import { PartId } from '../types/mechConfig';
+
+// ============================================
+// 配置
+// ============================================
+
+export const PLACEHOLDER_CONFIG = {
+  BODY_COLOR: 0x117733,
+  JOINT_COLOR: 0xd4af37,
+  SHOULDER: [0.48, 0.88, 0] as [number, number, number],   // 左肩位置（右侧取 X 镜像）
+  HIP: [0.2, 0.02, 0] as [number, number, number]          // 左髋位置
+};
+
+type PlaceholderMaterial = 'body' | 'joint';
+
+/** 单个占位部件：位置相对父节点 */
+interface PlaceholderPart {
+  id: PartId;
+  parent?: PartId;
+  geometry?: () => THREE.BufferGeometry;   // 缺省为空节点（如 Leftarm）
+  position: [number, number, number];
+  material?: PlaceholderMaterial;
+}
+
+// 左侧肢体，右侧由 mirrorSide 生成
+const LEFT_LIMBS: PlaceholderPart[] = [
+  { id: 'Leftarm', position: PLACEHOLDER_CONFIG.SHOULDER },
+  { id: 'Leftupperarm', parent: 'Leftarm', geometry: () => new THREE.CapsuleGeometry(0.08, 0.22, 6, 12), position: [0, -0.18, 0], material: 'body' },
+  { id: 'Leftdownarm', parent: 'Leftarm', geometry: () => new THREE.CapsuleGeometry(0.07, 0.22, 6, 12), position: [0, -0.52, 0], material: 'body' },
+  { id: 'Lefthand', parent: 'Leftarm', geometry: () => new THREE.BoxGeometry(0.12, 0.15, 0.1), position: [0, -0.78, 0], material: 'joint' },
+
+  { id: 'Leftleg', position: PLACEHOLDER_CONFIG.HIP },
+  { id: 'Leftupperleg', parent: 'Leftleg', geometry: () => new THREE.CapsuleGeometry(0.1, 0.26, 6, 12), position: [0, -0.22, 0], material: 'body' },
+  { id: 'Leftdownleg', parent: 'Leftleg', geometry: () => new THREE.CapsuleGeometry(0.09, 0.26, 6, 12), position: [0, -0.62, 0], material: 'body' },
+  { id: 'Leftfeet', parent: 'Leftleg', geometry: () => new THREE.BoxGeometry(0.16, 0.08, 0.28), position: [0, -0.9, 0.05], material: 'joint' }
+];
+
+const PLACEHOLDER_PARTS: PlaceholderPart[] = [
+  { id: 'mainbody', geometry: () => new THREE.BoxGeometry(0.7, 0.9, 0.4), position: [0, 0.5, 0], material: 'body' },
+  { id: 'neck', geometry: () => new THREE.CylinderGeometry(0.07, 0.09, 0.12, 12), position: [0, 1.01, 0], material: 'joint' },
+  { id: 'Head', geometry: () => new THREE.SphereGeometry(0.2, 16, 16), position: [0, 1.25, 0], material: 'joint' },
+  ...LEFT_LIMBS,
+  ...LEFT_LIMBS.map(mirrorSide)
+];
+
+// ============================================
+// 创建
+// ============================================
+
+/**
+ * 创建占位机器人场景（相当于 gltf.scene，由 loadMech 按内置清单绑定）
+ */
+export function createPlaceholderScene(): THREE.Group {
+  const scene = new THREE.Group();
+  scene.name = 'Scene';
+
+  const robot = new THREE.Object3D();
+  robot.name = 'Robot';
+  scene.add(robot);
+
+  const materials: Record<PlaceholderMaterial, THREE.MeshStandardMaterial> = {
+    body: new THREE.MeshStandardMaterial({ color: PLACEHOLDER_CONFIG.BODY_COLOR, metalness: 0.7, roughness: 0.3 }),
+    joint: new THREE.MeshStandardMaterial({ color: PLACEHOLDER_CONFIG.JOINT_COLOR, metalness: 0.8, roughness: 0.2 })
+  };
+
+  // 父部件在数组中排在子部件之前
+  const nodes = new Map<PartId, THREE.Object3D>();
+  PLACEHOLDER_PARTS.forEach(({ id, parent, geometry, position, material }) => {
+    const node = geometry
+      ? new THREE.Mesh(geometry(), materials[material || 'body'])
+      : new THREE.Object3D();
+    node.name = id;
+    node.position.set(...position);
+
+    const parentNode = parent ? nodes.get(parent) : robot;
+    (parentNode || robot).add(node);
+    nodes.set(id, node);
+  });
+
+  return scene;
+}
+
+/**
+ * 左侧部件 → 右侧部件（ID 中的 Left 换成 Right，X 取反）
+ */
+function mirrorSide(part: PlaceholderPart): PlaceholderPart {
+  const [x, y, z] = part.position;
+  return {
+    ...part,
+    id: part.id.replace('Left', 'Right'),
+    parent: part.parent?.replace('Left', 'Right'),
+    position: [-x, y, z]
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * ringLayout.ts - 组件视图的圆环布局
+ *
+ * 思路：
+ * - 部件位置：按部件包围盒中心相对节点原点（轴心）的偏移反推节点位置，使几何中心落在圆环中心
+ * - 部件缩放：包围球半径缩放到圆环半径的一定比例
+ * - 小圆环：沿椭圆均匀分布，水平半径随视口宽高比伸缩；部件过多时分成内外多圈，
+ *   圆环半径按相邻圆环的间距收缩，避免重叠
+ *
+ * 圆环位置和半径都在世界坐标系中（与圆环装饰一致），由状态机换算到布局空间。
+ * 清单中的 ringOffset 为手动覆盖：填写后节点原点 = 圆环中心 + 偏移，不再自动居中。
+ */
+
+import * as THREE from 'three';
+import { PartId, PartConfig } from '../types/mechConfig';
+
+// ============================================
+// 配置
+// ============================================
+
+export const RING_LAYOUT_CONFIG = {
+  MAIN_RING_CENTER: [0, 0.1, 2.0] as const,  // 大圆环中心（世界坐标）
+  MAIN_RING_RADIUS: 1.2,     // 大圆环半径
+  MAIN_FILL: 0.7,            // 部件包围球占大圆环半径的比例（留出内层装饰）
+  SUB_RING_DISTANCE: 4.0,    // 小圆环距离中心的距离（参考宽高比下的竖直半径）
+  SUB_RING_Z: -2,            // 小圆环的Z位置
+  SUB_RING_RADIUS: 0.5,      // 小圆环最大半径
+  SUB_RING_MIN_RADIUS: 0.2,  // 小圆环最小半径
+  SUB_RING_SPACING: 0.4,     // 小圆环半径占相邻圆环间距的比例
+  SUB_RING_MAX_PER_LOOP: 10, // 每圈最多的小圆环数量，超出时增加内圈
+  SUB_LOOP_SHRINK: 0.3,      // 每增加一圈，距离缩小的比例
+  SUB_FILL: 0.9,             // 部件包围球占小圆环半径的比例
+  REFERENCE_ASPECT: 16 / 9,  // 参考宽高比（此时小圆环排成正圆）
+  MIN_ASPECT_FACTOR: 0.6,    // 水平半径缩放范围
+  MAX_ASPECT_FACTOR: 1.4,
+  MIN_SCALE: 0.05,           // 部件缩放范围
+  MAX_SCALE: 8
+};
+
+/** 部件在原始姿态下的几何信息（世界坐标） */
+export interface RingPartBounds {
+  centerOffset: THREE.Vector3;  // 包围盒中心 - 节点原点
+  radius: number;               // 包围球半径
+}
+
+/** 小圆环布局 */
+export interface SubRingLayout {
+  positions: THREE.Vector3[];   // 各小圆环中心（世界坐标）
+  radius: number;               // 小圆环半径
+}
+
+// ============================================
+// 部件几何
+// ============================================
+
+/**
+ * 测量所有部件的包围盒（需在模型处于原始姿态时调用）
+ */
+export function measureRingBounds(parts: Map<PartId, PartConfig>, root: THREE.Object3D): Map<PartId, RingPartBounds> {
+  root.updateMatrixWorld(true);
+
+  const bounds = new Map<PartId, RingPartBounds>();
+  parts.forEach((config, partId) => {
+    if (!config.node) return;
+    const box = new THREE.Box3().setFromObject(config.node);
+    if (box.isEmpty()) return;
+
+    const origin = config.node.getWorldPosition(new THREE.Vector3());
+    bounds.set(partId, {
+      centerOffset: box.getCenter(new THREE.Vector3()).sub(origin),
+      radius: box.getSize(new THREE.Vector3()).length() / 2
+    });
+  });
+  return bounds;
+}
+
+/**
+ * 缩放到圆环内的比例（相对部件原始大小）
+ */
+export function getFitScale(bounds: RingPartBounds | undefined, ringRadius: number, fill: number): number {
+  if (!bounds || bounds.radius <= 0) return 1;
+  const scale = (ringRadius * fill) / bounds.radius;
+  return THREE.MathUtils.clamp(scale, RING_LAYOUT_CONFIG.MIN_SCALE, RING_LAYOUT_CONFIG.MAX_SCALE);
+}
+
+/**
+ * 几何中心落在圆环中心时节点原点的世界坐标
+ */
+export function getCenteredOrigin(ringCenter: THREE.Vector3, bounds: RingPartBounds | undefined, scale: number): THREE.Vector3 {
+  const origin = ringCenter.clone();
+  if (bounds) {
+    origin.addScaledVector(bounds.centerOffset, -scale);
+  }
+  return origin;
+}
+
+// ============================================
+// 圆环位置
+// ============================================
+
+export function getMainRingCenter(): THREE.Vector3 {
+  return new THREE.Vector3(...RING_LAYOUT_CONFIG.MAIN_RING_CENTER);
+}
+
+/**
+ * 按部件数量和视口宽高比计算小圆环的位置和半径
+ * 每圈从底部开始按角度均匀分布，内圈错开半个间隔
+ */
+export function computeSubRingLayout(count: number, aspect: number): SubRingLayout {
+  const C = RING_LAYOUT_CONFIG;
+  const positions: THREE.Vector3[] = [];
+  let radius = C.SUB_RING_RADIUS;
+  if (count <= 0) return { positions, radius };
+
+  const aspectFactor = THREE.MathUtils.clamp(
+    (aspect > 0 ? aspect : C.REFERENCE_ASPECT) / C.REFERENCE_ASPECT,
+    C.MIN_ASPECT_FACTOR,
+    C.MAX_ASPECT_FACTOR
+  );
+  const loops = Math.ceil(count / C.SUB_RING_MAX_PER_LOOP);
+
+  let remaining = count;
+  for (let loop = 0; loop < loops; loop++) {
+    const n = Math.ceil(remaining / (loops - loop));
+    remaining -= n;
+
+    const ry = C.SUB_RING_DISTANCE * Math.max(1 - loop * C.SUB_LOOP_SHRINK, C.SUB_LOOP_SHRINK);
+    const rx = ry * aspectFactor;
+    const angleStep = (Math.PI * 2) / n;
+    const startAngle = -Math.PI / 2 + (loop % 2) * angleStep / 2;
+    for (let i = 0; i < n; i++) {
+      const angle = startAngle + angleStep * i;
+      positions.push(new THREE.Vector3(Math.cos(angle) * rx, Math.sin(angle) * ry, C.SUB_RING_Z));
+    }
+
+    // 椭圆周长的近似值 / 圆环数量 = 相邻圆环的间距
+    const perimeter = Math.PI * 2 * Math.sqrt((rx * rx + ry * ry) / 2);
+    radius = Math.min(radius, (perimeter / n) * C.SUB_RING_SPACING);
+  }
+
+  return { positions, radius: Math.max(radius, C.SUB_RING_MIN_RADIUS) };
+}
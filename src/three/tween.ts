@@ -0,0 +1,269 @@
+/**
+ * tween.ts - 基于时间的补间与弹簧
+ *
+ * 所有动画都按每帧的 deltaTime (ms) 推进，与显示器刷新率无关：
+ * - Tween：固定时长 + 缓动曲线，从 from 过渡到 to（相机移动、圆环布局、淡入淡出）
+ * - Spring：临界阻尼弹簧，持续跟随可变的目标值（按住按键或手势调整的拆解程度）
+ * - TweenGroup：统一推进一组补间，结束后自动移除
+ *
+ * 补间和弹簧都可以等待完成：await tween.finished / await spring.settled()
+ */
+
+// ============================================
+// 配置
+// ============================================
+
+export const TWEEN_CONFIG = {
+  EXPLOSION_SMOOTH_TIME: 150,     // 拆解程度跟随目标的平滑时间 (ms)
+  RING_TRANSITION_DURATION: 800,  // 组件视图布局过渡时长 (ms)
+  RING_FADE_DURATION: 300,        // 圆环装饰淡入淡出时长 (ms)
+  HIGHLIGHT_FADE_DURATION: 150,   // 悬停高亮淡入淡出时长 (ms)
+  ASSEMBLY_SMOOTH_TIME: 150,      // 装配说明中部件移动的平滑时间 (ms)
+  SPRING_EPSILON: 0.001           // 弹簧与目标的差值小于该值视为到位
+};
+
+// ============================================
+// 缓动曲线
+// ============================================
+
+export type Easing = (t: number) => number;
+
+export const EASING = {
+  linear: (t: number) => t,
+  easeInQuad: (t: number) => t * t,
+  easeOutQuad: (t: number) => t * (2 - t),
+  easeInOutQuad: (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  smoothstep: (t: number) => t * t * (3 - 2 * t)
+} satisfies Record<string, Easing>;
+
+export type EasingName = keyof typeof EASING;
+
+/**
+ * 是否为已知的缓动曲线名称（只认 EASING 自身的键，不含 toString 等原型属性）
+ */
+export function isEasingName(name: string): name is EasingName {
+  return Object.prototype.hasOwnProperty.call(EASING, name);
+}
+
+// ============================================
+// 补间
+// ============================================
+
+export interface TweenOptions {
+  duration: number;                 // 时长 (ms)，0 表示立即到位
+  easing?: EasingName | Easing;     // 默认 easeInOutCubic
+  from?: number;                    // 默认 0
+  to?: number;                      // 默认 1
+}
+
+export class Tween {
+  readonly from: number;
+  readonly to: number;
+  readonly duration: number;
+  /** 结束时 resolve：正常完成为 true，被取消为 false */
+  readonly finished: Promise<boolean>;
+
+  private easing: Easing;
+  private elapsed: number = 0;
+  private done: boolean = false;
+  private resolve!: (completed: boolean) => void;
+
+  constructor(options: TweenOptions) {
+    this.from = options.from ?? 0;
+    this.to = options.to ?? 1;
+    this.duration = Math.max(0, options.duration);
+    const easing = options.easing ?? 'easeInOutCubic';
+    this.easing = typeof easing === 'function' ? easing : EASING[easing];
+    this.finished = new Promise(resolve => { this.resolve = resolve; });
+    if (this.duration === 0) this.finish();
+  }
+
+  /**
+   * 推进 deltaTime 毫秒，返回当前值
+   */
+  update(deltaTime: number): number {
+    if (!this.done) {
+      this.elapsed += Math.max(0, deltaTime);
+      if (this.elapsed >= this.duration) this.finish();
+    }
+    return this.value;
+  }
+
+  /** 线性进度 0-1 */
+  get progress(): number {
+    return this.duration === 0 ? 1 : Math.min(1, this.elapsed / this.duration);
+  }
+
+  /** 缓动后的当前值 */
+  get value(): number {
+    return this.from + (this.to - this.from) * this.easing(this.progress);
+  }
+
+  /**
+   * 取消补间（值停在当前位置，finished 以 false 结束）
+   */
+  cancel(): void {
+    if (this.done) return;
+    this.done = true;
+    this.resolve(false);
+  }
+
+  isDone(): boolean {
+    return this.done;
+  }
+
+  private finish(): void {
+    this.elapsed = this.duration;
+    this.done = true;
+    this.resolve(true);
+  }
+}
+
+export function createTween(options: TweenOptions): Tween {
+  return new Tween(options);
+}
+
+// ============================================
+// 弹簧
+// ============================================
+
+/**
+ * 临界阻尼弹簧：目标变化时平滑跟随，不会越过目标
+ */
+export class Spring {
+  value: number;
+  target: number;
+  velocity: number = 0;       // 每毫秒的变化量
+  smoothTime: number;         // 大约多久追上目标 (ms)
+
+  private waiting: Array<() => void> = [];
+
+  constructor(value: number, smoothTime: number) {
+    this.value = value;
+    this.target = value;
+    this.smoothTime = Math.max(1, smoothTime);
+  }
+
+  /**
+   * 推进 deltaTime 毫秒，返回当前值
+   */
+  update(deltaTime: number): number {
+    if (this.isSettled()) {
+      this.resolveWaiting();
+      return this.value;
+    }
+
+    // 临界阻尼弹簧的近似解（与帧间隔无关）
+    const dt = Math.max(0, deltaTime);
+    const omega = 2 / this.smoothTime;
+    const x = omega * dt;
+    const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x);
+    const change = this.value - this.target;
+    const temp = (this.velocity + omega * change) * dt;
+    this.velocity = (this.velocity - omega * temp) * decay;
+    let next = this.target + (change + temp) * decay;
+
+    // 防止越过目标
+    if ((this.target - this.value > 0) === (next > this.target)) {
+      next = this.target;
+      this.velocity = 0;
+    }
+    this.value = next;
+
+    if (Math.abs(this.value - this.target) < TWEEN_CONFIG.SPRING_EPSILON) {
+      this.jump(this.target);
+    }
+    return this.value;
+  }
+
+  /**
+   * 直接跳到指定值（不产生动画）
+   */
+  jump(value: number): void {
+    this.value = value;
+    this.target = value;
+    this.velocity = 0;
+    this.resolveWaiting();
+  }
+
+  isSettled(): boolean {
+    return this.value === this.target && this.velocity === 0;
+  }
+
+  /**
+   * 到达目标时 resolve（已到位时立即 resolve）
+   */
+  settled(): Promise<void> {
+    if (this.isSettled()) return Promise.resolve();
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private resolveWaiting(): void {
+    if (this.waiting.length === 0) return;
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach(resolve => resolve());
+  }
+}
+
+export function createSpring(value: number, smoothTime: number): Spring {
+  return new Spring(value, smoothTime);
+}
+
+// ============================================
+// 补间组
+// ============================================
+
+/**
+ * 一组同时推进的补间：每帧调用 update，结束的补间自动移除
+ */
+export class TweenGroup {
+  private tweens: Map<string, { tween: Tween; onUpdate: (value: number) => void }> = new Map();
+
+  /**
+   * 启动补间（同名补间会被取消并替换），onUpdate 每帧收到当前值
+   */
+  start(key: string, options: TweenOptions, onUpdate: (value: number) => void): Tween {
+    this.tweens.get(key)?.tween.cancel();
+    const tween = new Tween(options);
+    this.tweens.set(key, { tween, onUpdate });
+    onUpdate(tween.value);
+    return tween;
+  }
+
+  update(deltaTime: number): void {
+    this.tweens.forEach(({ tween, onUpdate }, key) => {
+      onUpdate(tween.update(deltaTime));
+      if (tween.isDone()) this.tweens.delete(key);
+    });
+  }
+
+  get(key: string): Tween | undefined {
+    return this.tweens.get(key)?.tween;
+  }
+
+  cancel(key: string): void {
+    this.tweens.get(key)?.tween.cancel();
+    this.tweens.delete(key);
+  }
+
+  cancelAll(): void {
+    this.tweens.forEach(({ tween }) => tween.cancel());
+    this.tweens.clear();
+  }
+
+  isIdle(): boolean {
+    return this.tweens.size === 0;
+  }
+
+  /**
+   * 所有当前补间结束时 resolve
+   */
+  async whenIdle(): Promise<void> {
+    while (this.tweens.size > 0) {
+      await Promise.all([...this.tweens.values()].map(({ tween }) => tween.finished));
+    }
+  }
+}
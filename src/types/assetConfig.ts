@@ -0,0 +1,101 @@
+/**
+ * assetConfig.ts - 解码器与手势识别资源的位置
+ *
+ * 展厅机器没有外网，因此 Draco 解码器、KTX2 转码器和 MediaPipe 资源默认从本地 public/ 提供：
+ *   public/libs/draco/          ← three/examples/jsm/libs/draco/gltf/
+ *   public/libs/basis/          ← three/examples/jsm/libs/basis/（KTX2 转码器）
+ *   public/libs/mediapipe/      ← node_modules/@mediapipe/（hands、camera_utils）
+ * Meshopt 解码器内嵌在 JS 中，随应用一起打包，无需单独提供。
+ * 由 scripts/copy-vendor-assets.mjs 在 npm install / dev / build 前复制。
+ *
+ * 每个资源按 BASES 顺序探测，本地缺失时回退到 CDN，都不可用时在 HUD 中提示。
+ * 部署时可直接修改 BASES（如改为内网镜像地址）。
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+export type AssetId = 'draco' | 'basis' | 'mediapipe';
+
+/** 资源状态：本地 / 回退到 CDN / 不可用 */
+export type AssetStatus = 'local' | 'fallback' | 'failed';
+
+/** 资源位置配置 */
+export interface AssetLocation {
+  BASES: string[];      // 候选目录（以 / 结尾），第一个为本地目录
+  PROBE_FILE: string;   // 用于探测目录是否可用的文件
+}
+
+/** 探测结果 */
+export interface ResolvedAsset {
+  base: string;         // 不可用时为本地目录（加载时再报错）
+  status: AssetStatus;
+}
+
+// ============================================
+// 配置
+// ============================================
+
+export const ASSET_CONFIG: Record<AssetId, AssetLocation> = {
+  draco: {
+    BASES: [
+      '/libs/draco/',
+      'https://www.gstatic.com/draco/versioned/decoders/1.5.6/'
+    ],
+    PROBE_FILE: 'draco_wasm_wrapper.js'
+  },
+  basis: {
+    BASES: [
+      '/libs/basis/',
+      'https://cdn.jsdelivr.net/npm/three@0.160.0/examples/jsm/libs/basis/'
+    ],
+    PROBE_FILE: 'basis_transcoder.js'
+  },
+  mediapipe: {
+    // 目录结构与 npm 包一致：hands/hands.js、camera_utils/camera_utils.js
+    BASES: [
+      '/libs/mediapipe/',
+      'https://cdn.jsdelivr.net/npm/@mediapipe/'
+    ],
+    PROBE_FILE: 'hands/hands.js'
+  }
+};
+
+export const ASSET_PROBE_TIMEOUT = 3000;   // 单个目录的探测超时 (ms)
+
+// ============================================
+// 探测
+// ============================================
+
+/**
+ * 按顺序探测资源目录，返回第一个可用的目录
+ */
+export async function resolveAssetBase(id: AssetId): Promise<ResolvedAsset> {
+  const { BASES, PROBE_FILE } = ASSET_CONFIG[id];
+
+  for (let i = 0; i < BASES.length; i++) {
+    if (await probeAsset(BASES[i] + PROBE_FILE)) {
+      return { base: BASES[i], status: i === 0 ? 'local' : 'fallback' };
+    }
+  }
+  return { base: BASES[0], status: 'failed' };
+}
+
+/**
+ * 检查文件是否存在
+ * 开发服务器对不存在的路径会返回 index.html（200），因此同时检查 Content-Type
+ */
+async function probeAsset(url: string): Promise<boolean> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ASSET_PROBE_TIMEOUT);
+  try {
+    const response = await fetch(url, { method: 'HEAD', signal: controller.signal });
+    const contentType = response.headers.get('content-type') || '';
+    return response.ok && !contentType.includes('text/html');
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
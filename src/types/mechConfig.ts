@@ -23,39 +23,63 @@
  *         ├── Rightdownleg (Mesh)
  *         ├── Rightfeet (Mesh)
  *         └── Rightupperleg (Mesh)
+ * 
+ * 部件列表、显示名称和拆解向量由清单提供（见 mechManifest.ts），
+ * 本文件只保留与具体模型无关的类型和工具函数。
+ * 层级深度不限：清单中任何部件都可以作为父部件（如 手 → 手指）。
  */
 
 import * as THREE from 'three';
+import { MechManifest, JointKind, JointAxis, getManifestPart } from './mechManifest';
 
 // ============================================
 // 部件 ID 类型定义
 // ============================================
 
-/** 所有可识别的部件ID */
-export type PartId =
-  // 大部件（第一级）
-  | 'Head' | 'neck' | 'mainbody'
-  | 'Leftarm' | 'Rightarm'
-  | 'Leftleg' | 'Rightleg'
-  // 左臂子部件
-  | 'Leftupperarm' | 'Leftdownarm' | 'Lefthand'
-  // 右臂子部件
-  | 'Rightupperarm' | 'Rightdownarm' | 'Righthand'
-  // 左腿子部件
-  | 'Leftupperleg' | 'Leftdownleg' | 'Leftfeet'
-  // 右腿子部件
-  | 'Rightupperleg' | 'Rightdownleg' | 'Rightfeet';
+/**
+ * 部件ID（来自清单，如 'Head'、'Leftarm'）
+ * 部件列表由 MechManifest 在运行时提供，不再是编译期的联合类型
+ */
+export type PartId = string;
 
 /** 大部件（第一级拆解） */
-export type MajorPartId = 'Head' | 'neck' | 'mainbody' | 'Leftarm' | 'Rightarm' | 'Leftleg' | 'Rightleg';
+export type MajorPartId = PartId;
 
-/** 有子部件的大部件 */
-export type ParentPartId = 'Leftarm' | 'Rightarm' | 'Leftleg' | 'Rightleg';
+/** 有子部件的部件（可以位于任意层级） */
+export type ParentPartId = PartId;
+
+/** 显示语言 */
+export type Lang = 'zh' | 'en';
+
+declare global {
+  interface Window {
+    currentLang?: Lang;   // index.html 的 applyLanguage 设置
+  }
+}
+
+/**
+ * 获取当前语言（从全局变量或 localStorage）
+ */
+export function getCurrentLang(): Lang {
+  if (window.currentLang !== undefined) {
+    return window.currentLang;
+  }
+  const saved = localStorage.getItem('jarvis-lang');
+  return (saved === 'en') ? 'en' : 'zh';
+}
 
 // ============================================
 // 部件配置接口
 // ============================================
 
+/** 部件关节（清单中的 joint，转角范围换算为弧度） */
+export interface PartJoint {
+  kind?: JointKind;
+  pivot: THREE.Vector3;                                 // 枢轴（父节点坐标系，原始姿态）
+  limits: Partial<Record<JointAxis, [number, number]>>; // 各轴转角范围（弧度），未列出的轴不能转动
+  attachedTo?: PartId;                                  // 运动链上的上一级部件
+}
+
 /** 单个部件的配置 */
 export interface PartConfig {
   id: PartId;
@@ -66,126 +90,53 @@ export interface PartConfig {
   explodeDistance: number;         // 拆解距离
   originalPosition?: THREE.Vector3;// 原始位置
   originalRotation?: THREE.Euler;  // 原始旋转
+  joint?: PartJoint;               // 关节（可摆姿态的部件才有）
+  posePosition?: THREE.Vector3;    // 当前姿态下的位置（拆解、组件视图和装配说明都以此为基准）
+  poseRotation?: THREE.Euler;      // 当前姿态下的旋转
+  jointRotation?: THREE.Quaternion;// 关节沿运动链累积的旋转（父节点坐标系），拆解方向随之转动
 }
 
 /** 机甲层级结构 */
 export interface MechHierarchy {
-  majorParts: MajorPartId[];                          // 第一级大部件列表
-  childrenMap: Partial<Record<ParentPartId, PartId[]>>; // 大部件 → 子零件列表
+  majorParts: MajorPartId[];                  // 第一级大部件列表
+  childrenMap: Record<ParentPartId, PartId[]>; // 父部件 → 直接子部件列表（任意深度）
 }
 
 // ============================================
-// 预设配置
+// 层级结构（由清单推导）
 // ============================================
 
-/** 机甲层级结构配置 */
-export const MECH_HIERARCHY: MechHierarchy = {
-  // 大部件列表（第一级拆解时展示）
-  majorParts: ['Head', 'neck', 'mainbody', 'Leftarm', 'Rightarm', 'Leftleg', 'Rightleg'],
-  
-  // 子部件映射
-  childrenMap: {
-    'Leftarm': ['Leftupperarm', 'Leftdownarm', 'Lefthand'],
-    'Rightarm': ['Rightupperarm', 'Rightdownarm', 'Righthand'],
-    'Leftleg': ['Leftupperleg', 'Leftdownleg', 'Leftfeet'],
-    'Rightleg': ['Rightupperleg', 'Rightdownleg', 'Rightfeet']
-  }
-};
+const hierarchyCache = new WeakMap<MechManifest, MechHierarchy>();
 
-/** 部件显示名称（中文） */
-export const PART_DISPLAY_NAMES: Record<PartId, string> = {
-  // 大部件
-  Head: '头部',
-  neck: '颈部',
-  mainbody: '主体',
-  Leftarm: '左臂',
-  Rightarm: '右臂',
-  Leftleg: '左腿',
-  Rightleg: '右腿',
-  // 左臂子部件
-  Leftupperarm: '左上臂',
-  Leftdownarm: '左下臂',
-  Lefthand: '左手',
-  // 右臂子部件
-  Rightupperarm: '右上臂',
-  Rightdownarm: '右下臂',
-  Righthand: '右手',
-  // 左腿子部件
-  Leftupperleg: '左大腿',
-  Leftdownleg: '左小腿',
-  Leftfeet: '左脚',
-  // 右腿子部件
-  Rightupperleg: '右大腿',
-  Rightdownleg: '右小腿',
-  Rightfeet: '右脚'
-};
-
-/** 部件显示名称（英文） */
-export const PART_DISPLAY_NAMES_EN: Record<PartId, string> = {
-  // Major parts
-  Head: 'Head',
-  neck: 'Neck',
-  mainbody: 'Body',
-  Leftarm: 'Left Arm',
-  Rightarm: 'Right Arm',
-  Leftleg: 'Left Leg',
-  Rightleg: 'Right Leg',
-  // Left arm sub-parts
-  Leftupperarm: 'Left Upper Arm',
-  Leftdownarm: 'Left Forearm',
-  Lefthand: 'Left Hand',
-  // Right arm sub-parts
-  Rightupperarm: 'Right Upper Arm',
-  Rightdownarm: 'Right Forearm',
-  Righthand: 'Right Hand',
-  // Left leg sub-parts
-  Leftupperleg: 'Left Thigh',
-  Leftdownleg: 'Left Shin',
-  Leftfeet: 'Left Foot',
-  // Right leg sub-parts
-  Rightupperleg: 'Right Thigh',
-  Rightdownleg: 'Right Shin',
-  Rightfeet: 'Right Foot'
-};
+/**
+ * 获取清单对应的层级结构（按清单对象缓存）
+ */
+export function getMechHierarchy(manifest: MechManifest): MechHierarchy {
+  const cached = hierarchyCache.get(manifest);
+  if (cached) return cached;
+  
+  const hierarchy: MechHierarchy = { majorParts: [], childrenMap: {} };
+  manifest.parts.forEach(part => {
+    if (part.parent) {
+      const siblings = hierarchy.childrenMap[part.parent] || [];
+      siblings.push(part.id);
+      hierarchy.childrenMap[part.parent] = siblings;
+    } else {
+      hierarchy.majorParts.push(part.id);
+    }
+  });
+  
+  hierarchyCache.set(manifest, hierarchy);
+  return hierarchy;
+}
 
 /** 根据语言获取部件名称 */
-export function getPartDisplayName(partId: PartId, lang: 'zh' | 'en' = 'zh'): string {
-  return lang === 'en' ? PART_DISPLAY_NAMES_EN[partId] : PART_DISPLAY_NAMES[partId];
+export function getPartDisplayName(manifest: MechManifest, partId: PartId, lang: Lang = 'zh'): string {
+  const names = getManifestPart(manifest, partId)?.names;
+  if (!names) return partId;
+  return names[lang] || names.en || partId;
 }
 
-/** 拆解方向预设 - 朝各个方向分散（保持整体位置稳定） */
-export const EXPLODE_OFFSETS: Record<PartId, { direction: [number, number, number]; distance: number }> = {
-  // 大部件拆解方向 - 修正左右方向，减少下移
-  Head: { direction: [0, 0.8, 0.4], distance: 0.5 },          // 头：向上+前
-  neck: { direction: [0, 0.5, 0.3], distance: 0.3 },          // 颈：向上+前
-  mainbody: { direction: [0, 0.1, 0.5], distance: 0.2 },      // 主体：略向上+前（补偿整体下移）
-  Leftarm: { direction: [1, 0.2, 0.3], distance: 0.6 },       // 左臂：向右+略上+前（用户视角左）
-  Rightarm: { direction: [-1, 0.2, 0.3], distance: 0.6 },     // 右臂：向左+略上+前（用户视角右）
-  // 腿部更明显向下拆解，减少左右偏移
-  Leftleg: { direction: [0.15, -0.65, 0.2], distance: 0.55 },
-  Rightleg: { direction: [-0.15, -0.65, 0.2], distance: 0.55 },
-  
-  // 左臂子部件（方向也交换）
-  Leftupperarm: { direction: [0.5, 0.2, 0.4], distance: 0.25 },
-  Leftdownarm: { direction: [0.4, 0.1, 0.5], distance: 0.3 },
-  Lefthand: { direction: [0.3, 0, 0.6], distance: 0.35 },
-  
-  // 右臂子部件（方向也交换）
-  Rightupperarm: { direction: [-0.5, 0.2, 0.4], distance: 0.25 },
-  Rightdownarm: { direction: [-0.4, 0.1, 0.5], distance: 0.3 },
-  Righthand: { direction: [-0.3, 0, 0.6], distance: 0.35 },
-  
-  // 左腿子部件（方向也交换，减少下移）
-  Leftupperleg: { direction: [0.3, 0, 0.4], distance: 0.25 },
-  Leftdownleg: { direction: [0.2, -0.1, 0.5], distance: 0.3 },
-  Leftfeet: { direction: [0.1, -0.2, 0.5], distance: 0.35 },
-  
-  // 右腿子部件（方向也交换，减少下移）
-  Rightupperleg: { direction: [-0.3, 0, 0.4], distance: 0.25 },
-  Rightdownleg: { direction: [-0.2, -0.1, 0.5], distance: 0.3 },
-  Rightfeet: { direction: [-0.1, -0.2, 0.5], distance: 0.35 }
-};
-
 // ============================================
 // 工厂函数
 // ============================================
@@ -193,58 +144,71 @@ export const EXPLODE_OFFSETS: Record<PartId, { direction: [number, number, numbe
 /**
  * 创建部件配置
  */
-export function createPartConfig(id: PartId, node: THREE.Object3D | null = null): PartConfig {
-  const offset = EXPLODE_OFFSETS[id];
-  const displayName = PART_DISPLAY_NAMES[id];
-  
-  // 确定父部件
-  let parentId: MajorPartId | undefined;
-  for (const [parent, children] of Object.entries(MECH_HIERARCHY.childrenMap)) {
-    if (children?.includes(id)) {
-      parentId = parent as MajorPartId;
-      break;
-    }
-  }
+export function createPartConfig(manifest: MechManifest, id: PartId, node: THREE.Object3D | null = null): PartConfig {
+  const part = getManifestPart(manifest, id);
+  const offset = part?.explode ?? { direction: [0, 0, 0], distance: 0 };
   
   return {
     id,
-    displayName,
+    displayName: getPartDisplayName(manifest, id, 'zh'),
     node,
-    parentId,
+    parentId: part?.parent,
     explodeDir: new THREE.Vector3(...offset.direction).normalize(),
     explodeDistance: offset.distance,
     originalPosition: node ? node.position.clone() : undefined,
-    originalRotation: node ? node.rotation.clone() : undefined
+    originalRotation: node ? node.rotation.clone() : undefined,
+    joint: part?.joint && {
+      kind: part.joint.kind,
+      pivot: new THREE.Vector3(...part.joint.pivot),
+      limits: Object.fromEntries(Object.entries(part.joint.limits).map(([axis, [min, max]]) =>
+        [axis, [THREE.MathUtils.degToRad(min), THREE.MathUtils.degToRad(max)]]
+      )),
+      attachedTo: part.joint.attachedTo
+    },
+    // 初始为原始姿态
+    posePosition: node ? node.position.clone() : undefined,
+    poseRotation: node ? node.rotation.clone() : undefined,
+    jointRotation: node ? new THREE.Quaternion() : undefined
   };
 }
 
 /**
  * 获取部件的子部件列表
  */
-export function getChildParts(partId: PartId): PartId[] {
-  return MECH_HIERARCHY.childrenMap[partId as ParentPartId] || [];
+export function getChildParts(manifest: MechManifest, partId: PartId): PartId[] {
+  return getMechHierarchy(manifest).childrenMap[partId] || [];
+}
+
+/**
+ * 获取部件的全部后代（深度优先，子部件在前）
+ */
+export function getDescendantParts(manifest: MechManifest, partId: PartId): PartId[] {
+  const result: PartId[] = [];
+  getChildParts(manifest, partId).forEach(childId => {
+    result.push(childId, ...getDescendantParts(manifest, childId));
+  });
+  return result;
 }
 
 /**
  * 检查是否是大部件
  */
-export function isMajorPart(partId: PartId): partId is MajorPartId {
-  return MECH_HIERARCHY.majorParts.includes(partId as MajorPartId);
+export function isMajorPart(manifest: MechManifest, partId: PartId): boolean {
+  return getMechHierarchy(manifest).majorParts.includes(partId);
 }
 
 /**
  * 检查是否有子部件
  */
-export function hasChildren(partId: PartId): partId is ParentPartId {
-  const children = MECH_HIERARCHY.childrenMap[partId as ParentPartId];
-  return children !== undefined && children.length > 0;
+export function hasChildren(manifest: MechManifest, partId: PartId): boolean {
+  return getChildParts(manifest, partId).length > 0;
 }
 
 /**
  * 获取所有部件ID列表
  */
-export function getAllPartIds(): PartId[] {
-  return Object.keys(PART_DISPLAY_NAMES) as PartId[];
+export function getAllPartIds(manifest: MechManifest): PartId[] {
+  return manifest.parts.map(part => part.id);
 }
 
 // ============================================
@@ -273,29 +237,10 @@ export const HIGHLIGHT_CONFIG = {
 // 视图状态类型
 // ============================================
 
-/** 机甲视图状态 */
-export type MechViewState = 'Assembled' | 'MajorExploded' | 'PartList' | 'PartDetailExploded';
+/** 机甲视图状态（状态图的状态，见 SimpleStateMachine） */
+export type MechViewState = 'Assembled' | 'Exploded' | 'PartView' | 'Assembly';
 
 /** 材质模式 */
 export type MaterialMode = 'default' | 'metal' | 'wire';
 
-/** UI 状态 */
-export interface MechUIState {
-  state: MechViewState;
-  currentMajorPart: MajorPartId | null;   // 当前选中的大部件
-  currentSubPart: PartId | null;           // 当前选中的子零件
-  highlightedIndex: number;                // 当前高亮的索引（在列表中）
-  explosionFactor: number;                 // 当前拆解因子 (0-1)
-}
-
-/** 创建初始 UI 状态 */
-export function createInitialUIState(): MechUIState {
-  return {
-    state: 'Assembled',
-    currentMajorPart: null,
-    currentSubPart: null,
-    highlightedIndex: 0,
-    explosionFactor: 0
-  };
-}
 
@@ -0,0 +1,504 @@
+/**
+ * mechManifest.ts - 机甲部件清单（Manifest）
+ *
+ * 清单描述一个机器人模型的部件树，与 GLB 放在同一目录下：
+ *   /assets/models/robot.glb
+ *   /assets/models/robot.manifest.json
+ *
+ * 每个部件包含：
+ * - 父部件（缺省即为第一级大部件；层级深度不限，如 手 → 手指 → 指节）
+ * - 各语言显示名称
+ * - 拆解方向和距离（可省略，由几何体自动计算）
+ * - 组件视图中在大/小圆环内的位置（可省略，按包围盒自动居中，见 three/ringLayout.ts）
+ * - 节点匹配规则（别名、通配符/正则、多节点组合），适配不同的导出命名
+ * - 装配说明：前置部件和每一步的字幕（见 three/assemblyGuide.ts）
+ * - 关节：枢轴、各轴转角范围和运动链，用于摆姿态（见 three/jointPose.ts）
+ *
+ * 清单还可以编写拆解编排（choreographies）：大部件的错峰、缓动和旋转（见 three/explodeChoreography.ts），
+ * 以及默认的拆解方式（explodeStrategy / explodeAxis，见 three/explodeStrategy.ts）。
+ *
+ * 部件在 parts 数组中的顺序即为大部件列表和子部件列表的顺序。
+ * 内置的 ROBOT_MANIFEST 对应 Robot.glb，找不到清单文件时作为兜底。
+ */
+
+import { EasingName, isEasingName } from '../three/tween';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export type Vec3Tuple = [number, number, number];
+
+/** 拆解向量 */
+export interface ManifestExplode {
+  direction: Vec3Tuple;   // 拆解方向（无需归一化）
+  distance: number;       // 拆解距离
+}
+
+/** 圆环布局偏移（手动覆盖：节点原点 = 圆环中心 + 偏移，不再按包围盒自动居中，缩放仍自动计算） */
+export interface ManifestRingOffset {
+  main?: Vec3Tuple;       // 在【大圆环】中心时的位置偏移
+  sub?: Vec3Tuple;        // 在【小圆环】中的位置偏移
+}
+
+/** 节点匹配规则（见 partMatcher.ts） */
+export interface ManifestMatch {
+  aliases?: string[];     // 其他可接受的节点名，如 ['L_UpperArm']（不区分大小写）
+  patterns?: string[];    // 通配符 'Head*' 或正则 '/^head[._]/i'
+  multiple?: boolean;     // 所有匹配的节点组合成一个部件（默认只取最佳的一个）
+}
+
+/**
+ * 装配说明
+ * after 中的部件装好后才能装本部件；写在有子部件的部件上时对它的所有末级部件生效，
+ * 引用有子部件的部件时表示它的所有末级部件。拆卸顺序为装配顺序的逆序。
+ */
+export interface ManifestAssembly {
+  after?: string[];                       // 前置部件ID
+  caption?: Record<string, string>;       // 装配字幕，如 { zh: '……', en: '...' }
+  removeCaption?: Record<string, string>; // 拆卸字幕（缺省使用通用文字）
+}
+
+/** 关节类型（姿态面板中显示的关节名称） */
+export const JOINT_KINDS = ['shoulder', 'elbow', 'wrist', 'hip', 'knee', 'ankle'] as const;
+export type JointKind = typeof JOINT_KINDS[number];
+export type JointAxis = 'x' | 'y' | 'z';
+
+/** 关节各轴的转角（度） */
+export type JointAngles = Partial<Record<JointAxis, number>>;
+
+/**
+ * 关节：部件绕枢轴旋转
+ * 枢轴和旋转轴都在部件父节点的坐标系中（原始姿态），转角范围为度，未列出的轴不能转动。
+ * attachedTo 为运动链上的上一级部件（如 下臂 → 上臂），它转动时本部件随之移动，需要同样有关节且挂在同一个父节点下。
+ */
+export interface ManifestJoint {
+  kind?: JointKind;
+  pivot: Vec3Tuple;
+  limits: Partial<Record<JointAxis, [number, number]>>;
+  attachedTo?: string;
+}
+
+/** 拆解方式：清单向量 / 径向 / 沿轴展开 / 逐级 */
+export const EXPLODE_STRATEGIES = ['preset', 'radial', 'axial', 'hierarchical'] as const;
+export type ExplodeStrategyId = typeof EXPLODE_STRATEGIES[number];
+export type ExplodeAxis = 'x' | 'y' | 'z';
+
+/** 拆解编排类型（也是内置编排的 id） */
+export const CHOREOGRAPHY_KINDS = ['simultaneous', 'cascade', 'radial'] as const;
+export type ChoreographyKind = typeof CHOREOGRAPHY_KINDS[number];
+
+/** 单个大部件的拆解曲线（delay / duration 为占整个拆解进度的比例 0-1） */
+export interface ManifestPartTiming {
+  delay?: number;         // 开始移动时的拆解进度
+  duration?: number;      // 移动占用的拆解进度
+  easing?: EasingName;
+  spin?: number;          // 移动过程中绕拆解方向旋转的圈数（整圈时拆开后朝向不变）
+}
+
+/**
+ * 拆解编排
+ * cascade 的 groups 为依次拆解的大部件分组（组内同时），未列出的大部件放在最后一组；
+ * stagger 为相邻两组（radial 为最内与最外部件）开始时刻之差。
+ */
+export interface ManifestChoreography {
+  id: string;
+  kind: ChoreographyKind;
+  names?: Record<string, string>;
+  groups?: string[][];
+  stagger?: number;
+  easing?: EasingName;                        // 默认缓动
+  spin?: number;                              // 默认旋转圈数
+  parts?: Record<string, ManifestPartTiming>; // 单个部件的覆盖
+}
+
+/** 清单中的单个部件 */
+export interface ManifestPart {
+  id: string;                       // 部件ID（与模型节点名称对应，不区分大小写）
+  parent?: string;                  // 父部件ID
+  names: Record<string, string>;    // 各语言显示名称，如 { zh: '头部', en: 'Head' }
+  explode?: ManifestExplode;        // 缺省时可由几何体自动计算（见 autoExplode.ts）
+  ringOffset?: ManifestRingOffset;
+  match?: ManifestMatch;            // 节点名称与部件ID不一致时的匹配规则
+  pickPriority?: number;            // 射线拾取优先级，默认 1；数值低的部件会让位给身后的部件
+  assembly?: ManifestAssembly;      // 装配顺序和字幕
+  joint?: ManifestJoint;            // 可摆姿态的关节
+}
+
+/** 机甲部件清单 */
+export interface MechManifest {
+  id: string;
+  names: Record<string, string>;    // 模型显示名称
+  rootNode?: string;                // 根节点名称（缺省使用整个场景）
+  parts: ManifestPart[];
+  choreographies?: ManifestChoreography[];  // 拆解编排（与内置编排同 id 时覆盖内置编排）
+  defaultChoreography?: string;     // 默认编排 id（缺省为 simultaneous）
+  explodeStrategy?: ExplodeStrategyId;  // 默认拆解方式（缺省为 preset）
+  explodeAxis?: ExplodeAxis;        // axial 拆解方式的展开轴（世界坐标，缺省为 x）
+}
+
+// ============================================
+// 内置清单：Robot.glb
+// ============================================
+
+export const ROBOT_MANIFEST: MechManifest = {
+  id: 'robot',
+  names: { zh: '机器人', en: 'Robot' },
+  rootNode: 'Robot',
+  parts: [
+    // 大部件拆解方向 - 修正左右方向，减少下移
+    {
+      id: 'Head',
+      names: { zh: '头部', en: 'Head' },
+      explode: { direction: [0, 0.8, 0.4], distance: 0.5 },          // 头：向上+前
+      assembly: { after: ['neck'], caption: { zh: '将头部装到颈部顶端', en: 'Mount the head on top of the neck' } }
+    },
+    {
+      id: 'neck',
+      names: { zh: '颈部', en: 'Neck' },
+      explode: { direction: [0, 0.5, 0.3], distance: 0.3 },          // 颈：向上+前
+      pickPriority: 0,
+      assembly: { after: ['mainbody'], caption: { zh: '将颈部插入主体上方的接口', en: 'Insert the neck into the socket on top of the body' } }
+    },
+    {
+      id: 'mainbody',
+      names: { zh: '主体', en: 'Body' },
+      explode: { direction: [0, 0.1, 0.5], distance: 0.2 },          // 主体：略向上+前（补偿整体下移）
+      pickPriority: 0,
+      assembly: { caption: { zh: '放置主体，其余部件都安装在主体上', en: 'Place the body; every other part mounts onto it' } }
+    },
+    {
+      id: 'Leftarm',
+      names: { zh: '左臂', en: 'Left Arm' },
+      explode: { direction: [1, 0.2, 0.3], distance: 0.6 },          // 左臂：向右+略上+前（用户视角左）
+      assembly: { after: ['mainbody'] }
+    },
+    {
+      id: 'Rightarm',
+      names: { zh: '右臂', en: 'Right Arm' },
+      explode: { direction: [-1, 0.2, 0.3], distance: 0.6 },         // 右臂：向左+略上+前（用户视角右）
+      assembly: { after: ['mainbody'] }
+    },
+    // 腿部更明显向下拆解，减少左右偏移
+    {
+      id: 'Leftleg',
+      names: { zh: '左腿', en: 'Left Leg' },
+      explode: { direction: [0.15, -0.65, 0.2], distance: 0.55 },
+      assembly: { after: ['mainbody'] }
+    },
+    {
+      id: 'Rightleg',
+      names: { zh: '右腿', en: 'Right Leg' },
+      explode: { direction: [-0.15, -0.65, 0.2], distance: 0.55 },
+      assembly: { after: ['mainbody'] }
+    },
+
+    // 左臂子部件（方向也交换）
+    { id: 'Leftupperarm', parent: 'Leftarm', names: { zh: '左上臂', en: 'Left Upper Arm' }, explode: { direction: [0.5, 0.2, 0.4], distance: 0.25 }, joint: { kind: 'shoulder', pivot: [0, 0, 0], limits: { x: [-180, 60], y: [-90, 90], z: [-10, 100] } } },
+    { id: 'Leftdownarm', parent: 'Leftarm', names: { zh: '左下臂', en: 'Left Forearm' }, explode: { direction: [0.4, 0.1, 0.5], distance: 0.3 }, assembly: { after: ['Leftupperarm'] }, joint: { kind: 'elbow', pivot: [0, -0.36, 0], limits: { x: [-145, 0] }, attachedTo: 'Leftupperarm' } },
+    { id: 'Lefthand', parent: 'Leftarm', names: { zh: '左手', en: 'Left Hand' }, explode: { direction: [0.3, 0, 0.6], distance: 0.35 }, assembly: { after: ['Leftdownarm'] }, joint: { kind: 'wrist', pivot: [0, -0.7, 0], limits: { x: [-70, 70], z: [-30, 30] }, attachedTo: 'Leftdownarm' } },
+
+    // 右臂子部件（方向也交换）
+    { id: 'Rightupperarm', parent: 'Rightarm', names: { zh: '右上臂', en: 'Right Upper Arm' }, explode: { direction: [-0.5, 0.2, 0.4], distance: 0.25 }, joint: { kind: 'shoulder', pivot: [0, 0, 0], limits: { x: [-180, 60], y: [-90, 90], z: [-100, 10] } } },
+    { id: 'Rightdownarm', parent: 'Rightarm', names: { zh: '右下臂', en: 'Right Forearm' }, explode: { direction: [-0.4, 0.1, 0.5], distance: 0.3 }, assembly: { after: ['Rightupperarm'] }, joint: { kind: 'elbow', pivot: [0, -0.36, 0], limits: { x: [-145, 0] }, attachedTo: 'Rightupperarm' } },
+    { id: 'Righthand', parent: 'Rightarm', names: { zh: '右手', en: 'Right Hand' }, explode: { direction: [-0.3, 0, 0.6], distance: 0.35 }, assembly: { after: ['Rightdownarm'] }, joint: { kind: 'wrist', pivot: [0, -0.7, 0], limits: { x: [-70, 70], z: [-30, 30] }, attachedTo: 'Rightdownarm' } },
+
+    // 左腿子部件（方向也交换，减少下移）
+    { id: 'Leftupperleg', parent: 'Leftleg', names: { zh: '左大腿', en: 'Left Thigh' }, explode: { direction: [0.3, 0, 0.4], distance: 0.25 }, joint: { kind: 'hip', pivot: [0, 0, 0], limits: { x: [-120, 40], y: [-45, 45], z: [-10, 60] } } },
+    { id: 'Leftdownleg', parent: 'Leftleg', names: { zh: '左小腿', en: 'Left Shin' }, explode: { direction: [0.2, -0.1, 0.5], distance: 0.3 }, assembly: { after: ['Leftupperleg'] }, joint: { kind: 'knee', pivot: [0, -0.42, 0], limits: { x: [0, 140] }, attachedTo: 'Leftupperleg' } },
+    { id: 'Leftfeet', parent: 'Leftleg', names: { zh: '左脚', en: 'Left Foot' }, explode: { direction: [0.1, -0.2, 0.5], distance: 0.35 }, assembly: { after: ['Leftdownleg'] }, joint: { kind: 'ankle', pivot: [0, -0.86, 0], limits: { x: [-45, 45] }, attachedTo: 'Leftdownleg' } },
+
+    // 右腿子部件（方向也交换，减少下移）
+    { id: 'Rightupperleg', parent: 'Rightleg', names: { zh: '右大腿', en: 'Right Thigh' }, explode: { direction: [-0.3, 0, 0.4], distance: 0.25 }, joint: { kind: 'hip', pivot: [0, 0, 0], limits: { x: [-120, 40], y: [-45, 45], z: [-60, 10] } } },
+    { id: 'Rightdownleg', parent: 'Rightleg', names: { zh: '右小腿', en: 'Right Shin' }, explode: { direction: [-0.2, -0.1, 0.5], distance: 0.3 }, assembly: { after: ['Rightupperleg'] }, joint: { kind: 'knee', pivot: [0, -0.42, 0], limits: { x: [0, 140] }, attachedTo: 'Rightupperleg' } },
+    { id: 'Rightfeet', parent: 'Rightleg', names: { zh: '右脚', en: 'Right Foot' }, explode: { direction: [-0.1, -0.2, 0.5], distance: 0.35 }, assembly: { after: ['Rightdownleg'] }, joint: { kind: 'ankle', pivot: [0, -0.86, 0], limits: { x: [-45, 45] }, attachedTo: 'Rightdownleg' } }
+  ],
+  // 依次拆解：头颈 → 双臂 → 双腿（主体最后），头部拆开时转一圈
+  choreographies: [
+    {
+      id: 'cascade',
+      kind: 'cascade',
+      names: { zh: '依次拆解', en: 'Cascade' },
+      groups: [['Head', 'neck'], ['Leftarm', 'Rightarm'], ['Leftleg', 'Rightleg']],
+      stagger: 0.2,
+      easing: 'easeInOutCubic',
+      parts: { Head: { spin: 1 } }
+    }
+  ]
+};
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 根据模型路径推导清单路径（robot.glb → robot.manifest.json）
+ */
+export function getManifestPathForModel(modelPath: string): string {
+  return modelPath.replace(/\.(glb|gltf)$/i, '') + '.manifest.json';
+}
+
+/**
+ * 查找清单中的部件
+ */
+export function getManifestPart(manifest: MechManifest, partId: string): ManifestPart | undefined {
+  return manifest.parts.find(part => part.id === partId);
+}
+
+/**
+ * 校验并解析清单 JSON，格式错误时抛出异常
+ */
+export function parseMechManifest(data: unknown): MechManifest {
+  const raw = data as Partial<MechManifest> | null;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Manifest must be an object');
+  }
+  if (typeof raw.id !== 'string' || !Array.isArray(raw.parts)) {
+    throw new Error('Manifest requires "id" and "parts"');
+  }
+
+  const ids = new Set<string>();
+  raw.parts.forEach((part, index) => {
+    if (!part || typeof part.id !== 'string') {
+      throw new Error(`Manifest part #${index} has no id`);
+    }
+    if (ids.has(part.id)) {
+      throw new Error(`Duplicate manifest part "${part.id}"`);
+    }
+    ids.add(part.id);
+
+    if (part.explode !== undefined
+      && (!isVec3(part.explode.direction) || typeof part.explode.distance !== 'number')) {
+      throw new Error(`Manifest part "${part.id}" has an invalid explode vector`);
+    }
+    if (part.match !== undefined) {
+      validateMatch(part.id, part.match);
+    }
+    if (part.assembly !== undefined) {
+      validateAssembly(part.id, part.assembly);
+    }
+    if (part.joint !== undefined) {
+      validateJoint(part.id, part.joint);
+    }
+  });
+
+  raw.parts.forEach((part) => {
+    if (part.parent !== undefined && !ids.has(part.parent)) {
+      throw new Error(`Manifest part "${part.id}" references unknown parent "${part.parent}"`);
+    }
+    part.assembly?.after?.forEach(id => {
+      if (!ids.has(id)) {
+        throw new Error(`Manifest part "${part.id}" is assembled after unknown part "${id}"`);
+      }
+    });
+    const attachedTo = part.joint?.attachedTo;
+    if (attachedTo !== undefined && !raw.parts!.some(other => other.id === attachedTo && other.joint !== undefined)) {
+      throw new Error(`Manifest part "${part.id}" is attached to "${attachedTo}", which has no joint`);
+    }
+  });
+
+  // 层级深度不限，但不允许出现环（运动链、装配顺序同理）
+  const parentOf = new Map(raw.parts.map(part => [part.id, part.parent] as const));
+  const attachedOf = new Map(raw.parts.map(part => [part.id, part.joint?.attachedTo] as const));
+  raw.parts.forEach((part) => {
+    if (hasCycle(part.id, parentOf)) {
+      throw new Error(`Manifest part "${part.id}" has a cyclic parent chain`);
+    }
+    if (hasCycle(part.id, attachedOf)) {
+      throw new Error(`Manifest part "${part.id}" has a cyclic joint chain`);
+    }
+  });
+  const assemblyCycle = findAssemblyCycle(raw.parts);
+  if (assemblyCycle !== null) {
+    throw new Error(`Manifest part "${assemblyCycle}" has a cyclic assembly order`);
+  }
+
+  if (raw.choreographies !== undefined) {
+    validateChoreographies(raw.choreographies, ids);
+  }
+  if (raw.defaultChoreography !== undefined) {
+    const known = [...CHOREOGRAPHY_KINDS, ...(raw.choreographies ?? []).map(choreography => choreography.id)];
+    if (!known.includes(raw.defaultChoreography)) {
+      throw new Error(`Manifest default choreography "${raw.defaultChoreography}" is not defined`);
+    }
+  }
+
+  if (raw.explodeStrategy !== undefined && !EXPLODE_STRATEGIES.includes(raw.explodeStrategy)) {
+    throw new Error(`Manifest has an unknown explode strategy "${raw.explodeStrategy}"`);
+  }
+  if (raw.explodeAxis !== undefined && !['x', 'y', 'z'].includes(raw.explodeAxis)) {
+    throw new Error(`Manifest has an invalid explode axis "${raw.explodeAxis}"`);
+  }
+
+  return {
+    id: raw.id,
+    names: raw.names || { en: raw.id },
+    rootNode: raw.rootNode,
+    parts: raw.parts.map(part => ({ ...part, names: part.names || { en: part.id } })),
+    choreographies: raw.choreographies,
+    defaultChoreography: raw.defaultChoreography,
+    explodeStrategy: raw.explodeStrategy,
+    explodeAxis: raw.explodeAxis
+  };
+}
+
+function validateMatch(partId: string, match: ManifestMatch): void {
+  const lists = [match.aliases, match.patterns];
+  if (lists.some(list => list !== undefined && !(Array.isArray(list) && list.every(v => typeof v === 'string')))) {
+    throw new Error(`Manifest part "${partId}" has invalid match rules`);
+  }
+  match.patterns?.forEach(pattern => {
+    const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (!regexMatch) return;
+    try {
+      new RegExp(regexMatch[1], regexMatch[2]);
+    } catch {
+      throw new Error(`Manifest part "${partId}" has an invalid pattern ${pattern}`);
+    }
+  });
+}
+
+function validateAssembly(partId: string, assembly: ManifestAssembly): void {
+  const after = assembly.after;
+  if (after !== undefined && !(Array.isArray(after) && after.every(v => typeof v === 'string'))) {
+    throw new Error(`Manifest part "${partId}" has an invalid assembly order`);
+  }
+  const captions = [assembly.caption, assembly.removeCaption];
+  if (captions.some(caption => caption !== undefined && (typeof caption !== 'object' || caption === null))) {
+    throw new Error(`Manifest part "${partId}" has an invalid assembly caption`);
+  }
+}
+
+function validateJoint(partId: string, joint: ManifestJoint): void {
+  const label = `Manifest part "${partId}" joint`;
+  if (typeof joint !== 'object' || joint === null || !isVec3(joint.pivot)) {
+    throw new Error(`${label} needs a pivot`);
+  }
+  if (joint.kind !== undefined && !JOINT_KINDS.includes(joint.kind)) {
+    throw new Error(`${label} has an unknown kind "${joint.kind}"`);
+  }
+  if (typeof joint.limits !== 'object' || joint.limits === null) {
+    throw new Error(`${label} needs rotation limits`);
+  }
+  Object.entries(joint.limits).forEach(([axis, range]) => {
+    const valid = ['x', 'y', 'z'].includes(axis) && Array.isArray(range) && range.length === 2
+      && range.every(v => typeof v === 'number') && range[0] <= range[1];
+    if (!valid) {
+      throw new Error(`${label} has an invalid limit for axis "${axis}"`);
+    }
+  });
+  if (joint.attachedTo !== undefined && (typeof joint.attachedTo !== 'string' || joint.attachedTo === partId)) {
+    throw new Error(`${label} has an invalid attachedTo`);
+  }
+}
+
+function validateChoreographies(choreographies: unknown, partIds: Set<string>): void {
+  if (!Array.isArray(choreographies)) {
+    throw new Error('Manifest choreographies must be an array');
+  }
+  const ids = new Set<string>();
+  choreographies.forEach((choreography: ManifestChoreography, index) => {
+    if (!choreography || typeof choreography.id !== 'string') {
+      throw new Error(`Manifest choreography #${index} has no id`);
+    }
+    const label = `Manifest choreography "${choreography.id}"`;
+    if (ids.has(choreography.id)) {
+      throw new Error(`Duplicate ${label}`);
+    }
+    ids.add(choreography.id);
+
+    if (!CHOREOGRAPHY_KINDS.includes(choreography.kind)) {
+      throw new Error(`${label} has an unknown kind "${choreography.kind}"`);
+    }
+    if (choreography.groups !== undefined) {
+      const groups = choreography.groups;
+      if (!Array.isArray(groups) || !groups.every(group => Array.isArray(group) && group.every(v => typeof v === 'string'))) {
+        throw new Error(`${label} has invalid groups`);
+      }
+      groups.flat().forEach(id => {
+        if (!partIds.has(id)) throw new Error(`${label} references unknown part "${id}"`);
+      });
+    }
+    validateTiming(label, choreography);
+    if (choreography.parts !== undefined) {
+      if (typeof choreography.parts !== 'object' || choreography.parts === null) {
+        throw new Error(`${label} has invalid part timings`);
+      }
+      Object.entries(choreography.parts).forEach(([id, timing]) => {
+        if (!partIds.has(id)) throw new Error(`${label} references unknown part "${id}"`);
+        validateTiming(`${label} part "${id}"`, timing);
+      });
+    }
+  });
+}
+
+function validateTiming(label: string, timing: ManifestPartTiming & { stagger?: number }): void {
+  const numbers = [timing.delay, timing.duration, timing.spin, timing.stagger];
+  if (numbers.some(v => v !== undefined && typeof v !== 'number')) {
+    throw new Error(`${label} has an invalid timing`);
+  }
+  if (timing.easing !== undefined && (typeof timing.easing !== 'string' || !isEasingName(timing.easing))) {
+    throw new Error(`${label} has an unknown easing "${timing.easing}"`);
+  }
+}
+
+/** 沿 next 链能否回到起点 */
+function hasCycle(start: string, next: Map<string, string | undefined>): boolean {
+  const visited = new Set<string>([start]);
+  for (let current = next.get(start); current !== undefined; current = next.get(current)) {
+    if (visited.has(current)) return true;
+    visited.add(current);
+  }
+  return false;
+}
+
+/**
+ * 装配顺序中处于循环依赖上的末级部件，没有时返回 null
+ * 依赖关系与 buildAssemblyPlan（three/assemblyGuide.ts）一致：
+ * 祖先部件的 after 对它的所有末级部件生效，引用有子部件的部件等于引用它的所有末级部件
+ */
+function findAssemblyCycle(parts: ManifestPart[]): string | null {
+  const byId = new Map(parts.map(part => [part.id, part] as const));
+  const children = new Map<string, string[]>();
+  parts.forEach(part => {
+    if (part.parent !== undefined) {
+      children.set(part.parent, [...(children.get(part.parent) ?? []), part.id]);
+    }
+  });
+  const leavesOf = (id: string): string[] => children.has(id) ? children.get(id)!.flatMap(leavesOf) : [id];
+
+  const dependsOn = new Map<string, Set<string>>();
+  parts.filter(part => !children.has(part.id)).forEach(leaf => {
+    const deps = new Set<string>();
+    for (let current: ManifestPart | undefined = leaf; current; current = current.parent !== undefined ? byId.get(current.parent) : undefined) {
+      current.assembly?.after?.forEach(id => leavesOf(id).forEach(leafId => deps.add(leafId)));
+    }
+    deps.delete(leaf.id);
+    dependsOn.set(leaf.id, deps);
+  });
+
+  // 深度优先搜索，回到搜索路径上的部件即为环
+  const done = new Set<string>();
+  const visiting = new Set<string>();
+  const visit = (id: string): string | null => {
+    if (done.has(id)) return null;
+    if (visiting.has(id)) return id;
+    visiting.add(id);
+    for (const dep of dependsOn.get(id) ?? []) {
+      const cycle = visit(dep);
+      if (cycle !== null) return cycle;
+    }
+    visiting.delete(id);
+    done.add(id);
+    return null;
+  };
+  for (const id of dependsOn.keys()) {
+    const cycle = visit(id);
+    if (cycle !== null) return cycle;
+  }
+  return null;
+}
+
+function isVec3(value: unknown): value is Vec3Tuple {
+  return Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number');
+}
@@ -0,0 +1,85 @@
+/**
+ * modelCatalog.ts - 模型库
+ *
+ * 每个条目对应一个可切换的机器人模型，清单默认与模型同目录
+ * （robot.glb → robot.manifest.json），也可以单独指定 manifestPath。
+ *
+ * 内置条目之外，部署时可在 /assets/models/catalog.json 中追加或覆盖条目，
+ * 无需重新构建：
+ *   { "models": [ { "id": "scout", "names": { "zh": "侦察机", "en": "Scout" }, "modelPath": "/assets/models/scout.glb" } ] }
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 模型库条目 */
+export interface ModelCatalogEntry {
+  id: string;                       // 用于 ?model= 参数
+  names: Record<string, string>;    // 各语言显示名称
+  modelPath: string;
+  manifestPath?: string;            // 缺省为模型同目录的 *.manifest.json
+}
+
+// ============================================
+// 内置模型库
+// ============================================
+
+export const MODEL_CATALOG: ModelCatalogEntry[] = [
+  {
+    id: 'robot',
+    names: { zh: '机器人', en: 'Robot' },
+    modelPath: '/assets/models/robot.glb'
+  }
+];
+
+export const DEFAULT_MODEL_ID = 'robot';
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 查找模型条目
+ */
+export function getCatalogEntry(catalog: ModelCatalogEntry[], id: string): ModelCatalogEntry | undefined {
+  return catalog.find(entry => entry.id === id);
+}
+
+/**
+ * 合并模型库：同 id 的条目以后者为准，其余按出现顺序追加
+ */
+export function mergeModelCatalogs(base: ModelCatalogEntry[], extra: ModelCatalogEntry[]): ModelCatalogEntry[] {
+  const merged = [...base];
+  extra.forEach(entry => {
+    const index = merged.findIndex(e => e.id === entry.id);
+    if (index >= 0) {
+      merged[index] = entry;
+    } else {
+      merged.push(entry);
+    }
+  });
+  return merged;
+}
+
+/**
+ * 校验并解析 catalog.json，格式错误时抛出异常
+ */
+export function parseModelCatalog(data: unknown): ModelCatalogEntry[] {
+  const raw = data as { models?: Partial<ModelCatalogEntry>[] } | null;
+  if (!raw || !Array.isArray(raw.models)) {
+    throw new Error('Catalog requires a "models" array');
+  }
+
+  return raw.models.map((entry, index) => {
+    if (!entry || typeof entry.id !== 'string' || typeof entry.modelPath !== 'string') {
+      throw new Error(`Catalog entry #${index} requires "id" and "modelPath"`);
+    }
+    return {
+      id: entry.id,
+      names: entry.names || { en: entry.id },
+      modelPath: entry.modelPath,
+      manifestPath: entry.manifestPath
+    };
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * poseConfig.ts - 姿态库格式
+ *
+ * 姿态是一组关节转角（度，部件父节点坐标系中的 XYZ 欧拉角，见 three/jointPose.ts）：
+ *   {
+ *     "id": "guard",
+ *     "names": { "zh": "防御架势", "en": "Guard Stance" },
+ *     "joints": {
+ *       "Leftupperarm": { "x": -45, "z": 20 },
+ *       "Leftdownarm": { "x": -120 }
+ *     },
+ *     "blend": 800                              // 可选，切换到该姿态的过渡时长 (ms)
+ *   }
+ * 未写出的关节和轴回到原始姿态，超出关节范围的转角取边界，当前模型没有的关节忽略。
+ *
+ * 内置姿态之外，部署时可在 /assets/poses/poses.json（{ "poses": [ ... ] }）中追加或覆盖姿态。
+ */
+
+import { Lang, PartId } from './mechConfig';
+import { JointAngles, JointAxis } from './mechManifest';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 姿态 */
+export interface PoseDefinition {
+  id: string;
+  names: Record<string, string>;            // 各语言显示名称
+  joints: Record<PartId, JointAngles>;      // 各关节的转角（度）
+  blend?: number;                           // 过渡时长 (ms)
+}
+
+export const POSE_DEFAULTS = {
+  BLEND: 800
+};
+
+/** 原始姿态（所有关节归零），始终可用 */
+export const REST_POSE_ID = 'rest';
+
+const JOINT_AXES: JointAxis[] = ['x', 'y', 'z'];
+
+// ============================================
+// 内置姿态（内置机器人的关节，见 mechManifest.ts）
+// ============================================
+
+export const BUILTIN_POSES: PoseDefinition[] = [
+  {
+    id: REST_POSE_ID,
+    names: { zh: '原始姿态', en: 'Rest' },
+    joints: {}
+  },
+  {
+    id: 't-pose',
+    names: { zh: 'T 字姿态', en: 'T-Pose' },
+    joints: {
+      Leftupperarm: { z: 90 },
+      Rightupperarm: { z: -90 }
+    }
+  },
+  {
+    id: 'guard',
+    names: { zh: '防御架势', en: 'Guard Stance' },
+    joints: {
+      Leftupperarm: { x: -45, z: 20 },
+      Leftdownarm: { x: -120 },
+      Lefthand: { x: -20 },
+      Rightupperarm: { x: -45, z: -20 },
+      Rightdownarm: { x: -120 },
+      Righthand: { x: -20 },
+      Leftupperleg: { x: -15, z: 10 },
+      Leftdownleg: { x: 25 },
+      Leftfeet: { x: -10 },
+      Rightupperleg: { x: 10, z: -10 },
+      Rightdownleg: { x: 20 },
+      Rightfeet: { x: -30 }
+    }
+  },
+  {
+    id: 'walk-contact',
+    names: { zh: '行走触地', en: 'Walk Contact' },
+    joints: {
+      Leftupperarm: { x: 25 },
+      Leftdownarm: { x: -15 },
+      Rightupperarm: { x: -30 },
+      Rightdownarm: { x: -30 },
+      Leftupperleg: { x: -30 },
+      Leftdownleg: { x: 5 },
+      Leftfeet: { x: 25 },
+      Rightupperleg: { x: 20 },
+      Rightdownleg: { x: 15 },
+      Rightfeet: { x: -35 }
+    }
+  },
+  {
+    id: 'kneel',
+    names: { zh: '单膝跪地', en: 'Kneel' },
+    joints: {
+      Leftupperarm: { x: -30 },
+      Leftdownarm: { x: -60 },
+      Rightupperarm: { x: 10 },
+      Rightdownarm: { x: -10 },
+      Leftupperleg: { x: -90 },
+      Leftdownleg: { x: 90 },
+      Rightdownleg: { x: 90 },
+      Rightfeet: { x: -45 }
+    },
+    blend: 1200
+  }
+];
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 合并姿态库：同 id 的姿态以后者为准，其余按出现顺序追加
+ */
+export function mergePoses(base: PoseDefinition[], extra: PoseDefinition[]): PoseDefinition[] {
+  const merged = [...base];
+  extra.forEach(pose => {
+    const index = merged.findIndex(p => p.id === pose.id);
+    if (index >= 0) {
+      merged[index] = pose;
+    } else {
+      merged.push(pose);
+    }
+  });
+  return merged;
+}
+
+export function getPoseName(pose: PoseDefinition, lang: Lang): string {
+  return pose.names[lang] || pose.names.en || pose.id;
+}
+
+/**
+ * 姿态是否适用于给定的关节：原始姿态始终适用，其余姿态至少要用到其中一个关节
+ */
+export function isPoseApplicable(pose: PoseDefinition, joints: PartId[]): boolean {
+  return pose.id === REST_POSE_ID || Object.keys(pose.joints).some(partId => joints.includes(partId));
+}
+
+/**
+ * 校验并解析 poses.json，格式错误时抛出异常
+ */
+export function parsePoses(data: unknown): PoseDefinition[] {
+  const raw = data as { poses?: unknown[] } | null;
+  if (!raw || !Array.isArray(raw.poses)) {
+    throw new Error('Pose file requires a "poses" array');
+  }
+  return raw.poses.map((pose, index) => parsePose(pose, `pose #${index}`));
+}
+
+function parsePose(data: unknown, label: string): PoseDefinition {
+  const pose = isRecord(data) ? data : null;
+  if (!pose || typeof pose.id !== 'string' || !isRecord(pose.joints)) {
+    throw new Error(`${label} requires "id" and a "joints" object`);
+  }
+  const id = pose.id;
+
+  const joints: Record<PartId, JointAngles> = {};
+  Object.entries(pose.joints).forEach(([partId, angles]) => {
+    if (!isRecord(angles)) {
+      throw new Error(`${label} (${id}): joint "${partId}" requires an { x, y, z } object`);
+    }
+    joints[partId] = {};
+    JOINT_AXES.forEach(axis => {
+      const angle = angles[axis];
+      if (angle === undefined) return;
+      if (typeof angle !== 'number' || !Number.isFinite(angle)) {
+        throw new Error(`${label} (${id}): joint "${partId}" axis "${axis}" must be a number`);
+      }
+      joints[partId][axis] = angle;
+    });
+  });
+
+  const blend = pose.blend;
+  if (blend !== undefined && !(typeof blend === 'number' && Number.isFinite(blend) && blend >= 0)) {
+    throw new Error(`${label} (${id}): "blend" must be a non-negative number`);
+  }
+
+  const names = pose.names;
+  if (names !== undefined && !(isRecord(names) && Object.values(names).every(name => typeof name === 'string'))) {
+    throw new Error(`${label} (${id}): "names" must map languages to strings`);
+  }
+
+  return {
+    id,
+    names: names !== undefined ? names as Record<string, string> : { en: id },
+    joints,
+    blend
+  };
+}
+
+/** 普通对象（不含数组和 null） */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,228 @@
+/**
+ * tourConfig.ts - 导览脚本格式
+ *
+ * 导览是一组按顺序播放的步骤，每一步描述目标视图和字幕：
+ *   {
+ *     "id": "overview",
+ *     "names": { "zh": "整机导览", "en": "Overview" },
+ *     "modelId": "robot",                       // 可选，播放前切换到该模型
+ *     "steps": [
+ *       {
+ *         "state": "PartView",
+ *         "part": ["Leftarm", "Lefthand"],      // 聚焦路径，也可以只写大部件 "Leftarm"
+ *         "explosion": 1, "partExplosion": 0.5, // 可选，0-1
+ *         "material": "wire",                   // 可选，缺省保持当前材质
+ *         "camera": { "position": [2, 1.5, 4], "target": [0, 0.05, 0] },  // 可选
+ *         "caption": { "zh": "……", "en": "..." },
+ *         "duration": 5000,                     // 本步停留时长 (ms)，包含过渡
+ *         "transition": 1500                    // 可选，相机过渡时长 (ms)
+ *       }
+ *     ]
+ *   }
+ *
+ * 内置导览之外，部署时可在 /assets/tours/tours.json（{ "tours": [ ... ] }）中追加或覆盖导览。
+ */
+
+import { MechViewState, MaterialMode, PartId } from './mechConfig';
+import { Vec3Tuple } from './mechManifest';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 导览步骤 */
+export interface TourStep {
+  state: MechViewState;
+  part?: PartId[];                  // 聚焦路径（PartView），第一项为大部件
+  explosion?: number;               // 整机拆解程度
+  partExplosion?: number;           // 组件拆解程度
+  material?: MaterialMode;
+  camera?: { position: Vec3Tuple; target: Vec3Tuple };
+  caption: Record<string, string>;  // 各语言字幕
+  duration: number;                 // 停留时长 (ms)
+  transition?: number;              // 相机过渡时长 (ms)
+}
+
+/** 导览 */
+export interface TourDefinition {
+  id: string;
+  names: Record<string, string>;    // 各语言显示名称
+  modelId?: string;                 // 模型库中的模型，缺省为当前模型
+  steps: TourStep[];
+}
+
+export const TOUR_DEFAULTS = {
+  DURATION: 5000,
+  TRANSITION: 1500
+};
+
+const VIEW_STATES: MechViewState[] = ['Assembled', 'Exploded', 'PartView'];
+const MATERIAL_MODES: MaterialMode[] = ['default', 'metal', 'wire'];
+
+// ============================================
+// 内置导览
+// ============================================
+
+export const BUILTIN_TOURS: TourDefinition[] = [
+  {
+    id: 'robot-overview',
+    names: { zh: '整机导览', en: 'Robot Overview' },
+    modelId: 'robot',
+    steps: [
+      {
+        state: 'Assembled',
+        material: 'default',
+        camera: { position: [0, 1.4, 5], target: [0, 0.05, 0] },
+        caption: { zh: 'JARVIS 机甲整机，共 7 个大部件', en: 'The JARVIS mech, built from 7 major parts' },
+        duration: 4000
+      },
+      {
+        state: 'Exploded',
+        explosion: 1,
+        camera: { position: [3.5, 2, 4], target: [0, 0.05, 0] },
+        caption: { zh: '拆解视图：各部件沿拆解方向分离', en: 'Exploded view: every part moves along its explode direction' },
+        duration: 5000
+      },
+      {
+        state: 'PartView',
+        part: ['Head'],
+        material: 'metal',
+        caption: { zh: '头部：传感器与视觉模块', en: 'Head: sensors and vision module' },
+        duration: 5000
+      },
+      {
+        state: 'PartView',
+        part: ['Leftarm'],
+        partExplosion: 0.6,
+        material: 'wire',
+        caption: { zh: '左臂：上臂、前臂与手部三段结构', en: 'Left arm: upper arm, forearm and hand' },
+        duration: 6000
+      },
+      {
+        state: 'Assembled',
+        explosion: 0,
+        material: 'default',
+        camera: { position: [0, 1.4, 5], target: [0, 0.05, 0] },
+        caption: { zh: '重新组装，导览结束', en: 'Reassembled, end of tour' },
+        duration: 4000
+      }
+    ]
+  }
+];
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 合并导览：同 id 的导览以后者为准，其余按出现顺序追加
+ */
+export function mergeTours(base: TourDefinition[], extra: TourDefinition[]): TourDefinition[] {
+  const merged = [...base];
+  extra.forEach(tour => {
+    const index = merged.findIndex(t => t.id === tour.id);
+    if (index >= 0) {
+      merged[index] = tour;
+    } else {
+      merged.push(tour);
+    }
+  });
+  return merged;
+}
+
+/**
+ * 校验并解析 tours.json，格式错误时抛出异常
+ */
+export function parseTours(data: unknown): TourDefinition[] {
+  const raw = data as { tours?: unknown[] } | null;
+  if (!raw || !Array.isArray(raw.tours)) {
+    throw new Error('Tour file requires a "tours" array');
+  }
+  return raw.tours.map((tour, index) => parseTour(tour, `tour #${index}`));
+}
+
+function parseTour(data: unknown, label: string): TourDefinition {
+  const tour = data as Partial<TourDefinition> | null;
+  if (!tour || typeof tour.id !== 'string' || !Array.isArray(tour.steps) || tour.steps.length === 0) {
+    throw new Error(`${label} requires "id" and a non-empty "steps" array`);
+  }
+  return {
+    id: tour.id,
+    names: tour.names || { en: tour.id },
+    modelId: typeof tour.modelId === 'string' ? tour.modelId : undefined,
+    steps: tour.steps.map((step, index) => parseStep(step, `${label} (${tour.id}) step #${index}`))
+  };
+}
+
+function parseStep(data: unknown, label: string): TourStep {
+  const step = isRecord(data) ? data : null;
+  if (!step || !isOneOf(VIEW_STATES, step.state)) {
+    throw new Error(`${label} requires "state" (${VIEW_STATES.join(' / ')})`);
+  }
+  const state = step.state;
+
+  const part: unknown = typeof step.part === 'string' ? [step.part] : step.part;
+  if (part !== undefined && !(Array.isArray(part) && part.every(id => typeof id === 'string'))) {
+    throw new Error(`${label}: "part" must be a part id or an array of part ids`);
+  }
+  if (state === 'PartView' && !(part as PartId[] | undefined)?.length) {
+    throw new Error(`${label}: PartView requires "part"`);
+  }
+
+  const material = step.material;
+  if (material !== undefined && !isOneOf(MATERIAL_MODES, material)) {
+    throw new Error(`${label}: unknown material "${material}"`);
+  }
+
+  let camera: TourStep['camera'];
+  if (step.camera !== undefined) {
+    const { position, target } = isRecord(step.camera) ? step.camera : {};
+    if (!isVec3(position) || !isVec3(target)) {
+      throw new Error(`${label}: "camera" requires "position" and "target" [x, y, z]`);
+    }
+    camera = { position, target };
+  }
+
+  const caption = step.caption ?? {};
+  if (!(isRecord(caption) && Object.values(caption).every(text => typeof text === 'string'))) {
+    throw new Error(`${label}: "caption" must map languages to strings`);
+  }
+
+  const duration = step.duration;
+  if (duration !== undefined && !(typeof duration === 'number' && Number.isFinite(duration) && duration > 0)) {
+    throw new Error(`${label}: "duration" must be a positive number`);
+  }
+  const transition = step.transition;
+  if (transition !== undefined && !(typeof transition === 'number' && Number.isFinite(transition) && transition >= 0)) {
+    throw new Error(`${label}: "transition" must be a non-negative number`);
+  }
+
+  return {
+    state,
+    part: part as PartId[] | undefined,
+    explosion: optionalNumber(step.explosion),
+    partExplosion: optionalNumber(step.partExplosion),
+    material,
+    camera,
+    caption: caption as Record<string, string>,
+    duration: duration ?? TOUR_DEFAULTS.DURATION,
+    transition
+  };
+}
+
+/** 普通对象（不含数组和 null） */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOneOf<T extends string>(values: T[], value: unknown): value is T {
+  return values.includes(value as T);
+}
+
+function isVec3(value: unknown): value is Vec3Tuple {
+  return Array.isArray(value) && value.length === 3 && value.every(Number.isFinite);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
@@ -0,0 +1,279 @@
+/**
+ * assemblyPanel.ts - 装配 / 拆卸说明面板
+ *
+ * - 未进入说明时只显示开始按钮（装配 / 拆卸）
+ * - 说明中显示当前步骤的部件、字幕和进度，以及上一步 / 下一步 / 退出按钮
+ */
+
+import { Lang, getCurrentLang } from '../types/mechConfig';
+import { AssemblyMode } from '../three/assemblyGuide';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface AssemblyPanelCallbacks {
+  onStart?: (mode: AssemblyMode) => void;
+  onPrev?: () => void;
+  onNext?: () => void;
+  onExit?: () => void;
+}
+
+/** 当前步骤的显示内容 */
+export interface AssemblyPanelStep {
+  mode: AssemblyMode;
+  index: number;
+  total: number;
+  partName: string;
+  caption: string;
+}
+
+const TEXT: Record<Lang, Record<string, string>> = {
+  zh: {
+    title: '装配说明',
+    assemble: '装配',
+    disassemble: '拆卸',
+    startAssemble: '从完全拆解开始逐步装配 (I)',
+    startDisassemble: '从整机开始逐步拆卸 (Shift+I)',
+    prev: '上一步 (←)',
+    next: '下一步 (→)',
+    exit: '退出 (ESC)',
+    done: '（完成）'
+  },
+  en: {
+    title: 'Assembly guide',
+    assemble: 'Assemble',
+    disassemble: 'Disassemble',
+    startAssemble: 'Assemble step by step from fully exploded (I)',
+    startDisassemble: 'Disassemble step by step from the assembled robot (Shift+I)',
+    prev: 'Previous step (←)',
+    next: 'Next step (→)',
+    exit: 'Exit (ESC)',
+    done: ' (done)'
+  }
+};
+
+// ============================================
+// 装配说明面板类
+// ============================================
+
+export class AssemblyPanel {
+  private callbacks: AssemblyPanelCallbacks;
+  private container: HTMLElement | null = null;
+  private label: HTMLElement | null = null;
+  private part: HTMLElement | null = null;
+  private caption: HTMLElement | null = null;
+  private progress: HTMLElement | null = null;
+
+  constructor(callbacks: AssemblyPanelCallbacks = {}) {
+    this.callbacks = callbacks;
+    this.createContainer();
+  }
+
+  /**
+   * 创建面板容器
+   */
+  private createContainer(): void {
+    const existing = document.getElementById('assembly-panel');
+    if (existing) {
+      existing.remove();
+    }
+
+    const t = TEXT[getCurrentLang()];
+    this.container = document.createElement('div');
+    this.container.id = 'assembly-panel';
+    this.container.className = 'assembly-panel';
+
+    const controls = document.createElement('div');
+    controls.className = 'assembly-controls';
+
+    this.label = document.createElement('span');
+    this.label.className = 'assembly-label';
+    this.label.textContent = `◈ ${t.title}`;
+    controls.appendChild(this.label);
+
+    // 开始按钮（未进入说明时显示）
+    const start = document.createElement('span');
+    start.className = 'assembly-start';
+    start.appendChild(this.createButton(t.assemble, t.startAssemble, () => this.callbacks.onStart?.('assemble')));
+    start.appendChild(this.createButton(t.disassemble, t.startDisassemble, () => this.callbacks.onStart?.('disassemble')));
+    controls.appendChild(start);
+
+    // 步骤按钮（说明中显示）
+    const steps = document.createElement('span');
+    steps.className = 'assembly-steps';
+    steps.appendChild(this.createButton('⏮', t.prev, () => this.callbacks.onPrev?.()));
+    steps.appendChild(this.createButton('⏭', t.next, () => this.callbacks.onNext?.()));
+    steps.appendChild(this.createButton('⏹', t.exit, () => this.callbacks.onExit?.()));
+    this.progress = document.createElement('span');
+    this.progress.className = 'assembly-progress';
+    steps.appendChild(this.progress);
+    controls.appendChild(steps);
+
+    this.container.appendChild(controls);
+
+    this.part = document.createElement('div');
+    this.part.className = 'assembly-part';
+    this.container.appendChild(this.part);
+
+    this.caption = document.createElement('div');
+    this.caption.className = 'assembly-caption';
+    this.container.appendChild(this.caption);
+
+    document.body.appendChild(this.container);
+
+    this.addStyles();
+  }
+
+  /**
+   * 添加样式
+   */
+  private addStyles(): void {
+    const styleId = 'assembly-panel-styles';
+    if (document.getElementById(styleId)) return;
+
+    const style = document.createElement('style');
+    style.id = styleId;
+    style.textContent = `
+      .assembly-panel {
+        position: fixed;
+        top: 90px;
+        left: 50%;
+        transform: translateX(-50%);
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 6px;
+        z-index: 150;
+        font-family: var(--font-display);
+        font-size: 10px;
+        letter-spacing: 0.5px;
+        color: var(--primary-cyan);
+        pointer-events: none;
+      }
+
+      .assembly-controls {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 4px 10px;
+        background: rgba(0, 20, 40, 0.7);
+        border: 1px solid var(--border-dim);
+        border-radius: 12px;
+        backdrop-filter: blur(10px);
+        pointer-events: auto;
+      }
+
+      .assembly-start,
+      .assembly-steps {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .assembly-steps,
+      .assembly-part,
+      .assembly-caption,
+      .assembly-panel.active .assembly-start {
+        display: none;
+      }
+
+      .assembly-panel.active .assembly-steps {
+        display: flex;
+      }
+
+      .assembly-panel.active .assembly-part,
+      .assembly-panel.active .assembly-caption {
+        display: block;
+      }
+
+      .assembly-btn {
+        min-width: 22px;
+        height: 18px;
+        padding: 0 6px;
+        font-family: var(--font-display);
+        font-size: 10px;
+        color: var(--primary-cyan);
+        background: transparent;
+        border: 1px solid var(--border-dim);
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .assembly-btn:hover {
+        border-color: var(--primary-cyan);
+      }
+
+      .assembly-progress {
+        min-width: 36px;
+        text-align: right;
+        color: var(--accent-gold);
+      }
+
+      .assembly-part {
+        font-size: 13px;
+        color: var(--accent-gold);
+      }
+
+      .assembly-caption {
+        max-width: 60vw;
+        padding: 8px 18px;
+        font-family: var(--font-body);
+        font-size: 15px;
+        color: #fff;
+        text-align: center;
+        background: rgba(0, 20, 40, 0.75);
+        border: 1px solid var(--border-glow);
+        border-radius: 10px;
+        box-shadow: var(--glow-cyan);
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * 更新当前步骤（null 表示未进入说明）
+   */
+  update(step: AssemblyPanelStep | null): void {
+    if (!this.container || !this.label || !this.part || !this.caption || !this.progress) return;
+
+    const t = TEXT[getCurrentLang()];
+    this.container.classList.toggle('active', step !== null);
+    if (!step) {
+      this.label.textContent = `◈ ${t.title}`;
+      this.part.textContent = '';
+      this.caption.textContent = '';
+      this.progress.textContent = '';
+      return;
+    }
+
+    const isLast = step.index === step.total - 1;
+    this.label.textContent = `◈ ${t[step.mode]}`;
+    this.part.textContent = step.partName + (isLast ? t.done : '');
+    // 字幕可能来自外部清单，使用 textContent
+    this.caption.textContent = step.caption;
+    this.progress.textContent = `${step.index + 1}/${step.total}`;
+  }
+
+  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'assembly-btn';
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  dispose(): void {
+    this.container?.remove();
+    this.container = null;
+    this.label = null;
+    this.part = null;
+    this.caption = null;
+    this.progress = null;
+  }
+}
+
+export function createAssemblyPanel(callbacks?: AssemblyPanelCallbacks): AssemblyPanel {
+  return new AssemblyPanel(callbacks);
+}
@@ -0,0 +1,338 @@
+/**
+ * bookmarkStrip.ts - HUD 底部的视图书签栏
+ *
+ * - 每个书签显示缩略图、序号（对应数字键 1-9）和名称
+ * - 单击恢复，双击名称重命名，× 删除
+ * - 右侧按钮：保存当前视图、导出 / 导入 JSON
+ */
+
+import { Lang, getCurrentLang } from '../types/mechConfig';
+import { ViewBookmark } from '../state/bookmarks';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface BookmarkStripCallbacks {
+  onSave?: () => void;
+  onRestore?: (bookmark: ViewBookmark) => void;
+  onRename?: (bookmark: ViewBookmark) => void;
+  onDelete?: (bookmark: ViewBookmark) => void;
+  onExport?: () => void;
+  onImport?: (text: string) => void;
+}
+
+const TEXT: Record<Lang, Record<string, string>> = {
+  zh: {
+    title: '书签',
+    empty: '按 B 保存当前视图',
+    save: '保存当前视图 (B)',
+    export: '导出书签',
+    import: '导入书签',
+    delete: '删除',
+    rename: '双击重命名'
+  },
+  en: {
+    title: 'Bookmarks',
+    empty: 'Press B to save the current view',
+    save: 'Save current view (B)',
+    export: 'Export bookmarks',
+    import: 'Import bookmarks',
+    delete: 'Delete',
+    rename: 'Double-click to rename'
+  }
+};
+
+// ============================================
+// 书签栏类
+// ============================================
+
+export class BookmarkStrip {
+  private callbacks: BookmarkStripCallbacks;
+  private container: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private fileInput: HTMLInputElement | null = null;
+  private bookmarks: ViewBookmark[] = [];
+  private activeId: string | null = null;
+
+  constructor(callbacks: BookmarkStripCallbacks = {}) {
+    this.callbacks = callbacks;
+    this.createContainer();
+  }
+
+  /**
+   * 创建书签栏容器
+   */
+  private createContainer(): void {
+    const existing = document.getElementById('bookmark-strip');
+    if (existing) {
+      existing.remove();
+    }
+
+    const t = TEXT[getCurrentLang()];
+    this.container = document.createElement('div');
+    this.container.id = 'bookmark-strip';
+    this.container.className = 'bookmark-strip';
+
+    this.list = document.createElement('div');
+    this.list.className = 'bookmark-list';
+    this.container.appendChild(this.list);
+
+    const actions = document.createElement('div');
+    actions.className = 'bookmark-actions';
+    actions.appendChild(this.createButton('+', t.save, () => this.callbacks.onSave?.()));
+    actions.appendChild(this.createButton('⇩', t.export, () => this.callbacks.onExport?.()));
+    actions.appendChild(this.createButton('⇧', t.import, () => this.fileInput?.click()));
+    this.container.appendChild(actions);
+
+    // 导入用的隐藏文件选择框
+    this.fileInput = document.createElement('input');
+    this.fileInput.type = 'file';
+    this.fileInput.accept = '.json,application/json';
+    this.fileInput.style.display = 'none';
+    this.fileInput.addEventListener('change', () => this.readImportFile());
+    this.container.appendChild(this.fileInput);
+
+    document.body.appendChild(this.container);
+
+    this.addStyles();
+    this.render();
+  }
+
+  /**
+   * 添加样式
+   */
+  private addStyles(): void {
+    const styleId = 'bookmark-strip-styles';
+    if (document.getElementById(styleId)) return;
+
+    const style = document.createElement('style');
+    style.id = styleId;
+    style.textContent = `
+      .bookmark-strip {
+        position: fixed;
+        bottom: 20px;
+        left: 50%;
+        transform: translateX(-50%);
+        max-width: calc(100vw - 680px);
+        display: flex;
+        align-items: stretch;
+        gap: 8px;
+        padding: 6px 8px;
+        z-index: 150;
+        font-family: var(--font-display);
+        font-size: 10px;
+        letter-spacing: 0.5px;
+        color: var(--primary-cyan);
+        background: rgba(0, 20, 40, 0.7);
+        border: 1px solid var(--border-dim);
+        border-radius: 12px;
+        backdrop-filter: blur(10px);
+        pointer-events: auto;
+      }
+
+      .bookmark-list {
+        display: flex;
+        gap: 6px;
+        overflow-x: auto;
+      }
+
+      .bookmark-empty {
+        align-self: center;
+        padding: 0 6px;
+        color: rgba(0, 212, 255, 0.5);
+        white-space: nowrap;
+      }
+
+      .bookmark-item {
+        position: relative;
+        flex: 0 0 auto;
+        width: 80px;
+        cursor: pointer;
+        border: 1px solid var(--border-dim);
+        border-radius: 6px;
+        overflow: hidden;
+        transition: border-color 0.2s, box-shadow 0.2s;
+      }
+
+      .bookmark-item:hover,
+      .bookmark-item.active {
+        border-color: var(--primary-cyan);
+        box-shadow: var(--glow-cyan);
+      }
+
+      .bookmark-thumb {
+        display: block;
+        width: 80px;
+        height: 45px;
+        object-fit: cover;
+        background: #000;
+      }
+
+      .bookmark-index {
+        position: absolute;
+        top: 2px;
+        left: 4px;
+        color: var(--accent-gold);
+        text-shadow: 0 0 4px #000;
+      }
+
+      .bookmark-delete {
+        position: absolute;
+        top: 0;
+        right: 3px;
+        display: none;
+        color: var(--status-offline);
+      }
+
+      .bookmark-item:hover .bookmark-delete {
+        display: block;
+      }
+
+      .bookmark-name {
+        padding: 2px 4px;
+        font-family: var(--font-body);
+        font-size: 11px;
+        color: rgba(255, 255, 255, 0.8);
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+
+      .bookmark-actions {
+        display: flex;
+        flex-direction: column;
+        justify-content: center;
+        gap: 2px;
+      }
+
+      .bookmark-btn {
+        width: 22px;
+        height: 18px;
+        padding: 0;
+        font-size: 11px;
+        color: var(--primary-cyan);
+        background: transparent;
+        border: 1px solid var(--border-dim);
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .bookmark-btn:hover {
+        border-color: var(--primary-cyan);
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * 更新书签列表
+   */
+  update(bookmarks: ViewBookmark[]): void {
+    this.bookmarks = bookmarks;
+    if (this.activeId && !bookmarks.some(bookmark => bookmark.id === this.activeId)) {
+      this.activeId = null;
+    }
+    this.render();
+  }
+
+  /**
+   * 高亮当前恢复的书签（视图改变后传入 null）
+   */
+  setActive(id: string | null): void {
+    if (this.activeId === id) return;
+    this.activeId = id;
+    this.render();
+  }
+
+  /**
+   * 渲染书签列表
+   */
+  private render(): void {
+    if (!this.list) return;
+
+    const t = TEXT[getCurrentLang()];
+    this.list.innerHTML = '';
+    if (this.bookmarks.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'bookmark-empty';
+      empty.textContent = `◈ ${t.title} · ${t.empty}`;
+      this.list.appendChild(empty);
+      return;
+    }
+
+    this.bookmarks.forEach((bookmark, index) => {
+      const item = document.createElement('div');
+      item.className = `bookmark-item ${bookmark.id === this.activeId ? 'active' : ''}`;
+      item.title = `${bookmark.name}${bookmark.modelId ? ` · ${bookmark.modelId}` : ''}\n${t.rename}`;
+      item.addEventListener('click', () => this.callbacks.onRestore?.(bookmark));
+
+      const thumb = document.createElement('img');
+      thumb.className = 'bookmark-thumb';
+      thumb.alt = '';
+      if (bookmark.thumbnail) thumb.src = bookmark.thumbnail;
+      item.appendChild(thumb);
+
+      // 数字键 1-9
+      if (index < 9) {
+        const badge = document.createElement('span');
+        badge.className = 'bookmark-index';
+        badge.textContent = String(index + 1);
+        item.appendChild(badge);
+      }
+
+      const remove = document.createElement('span');
+      remove.className = 'bookmark-delete';
+      remove.textContent = '×';
+      remove.title = t.delete;
+      remove.addEventListener('click', (event) => {
+        event.stopPropagation();
+        this.callbacks.onDelete?.(bookmark);
+      });
+      item.appendChild(remove);
+
+      // 名称来自用户输入或外部文件，使用 textContent
+      const name = document.createElement('div');
+      name.className = 'bookmark-name';
+      name.textContent = bookmark.name;
+      name.addEventListener('dblclick', (event) => {
+        event.stopPropagation();
+        this.callbacks.onRename?.(bookmark);
+      });
+      item.appendChild(name);
+
+      this.list!.appendChild(item);
+    });
+  }
+
+  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'bookmark-btn';
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * 读取选择的导入文件
+   */
+  private readImportFile(): void {
+    const file = this.fileInput?.files?.[0];
+    if (!file) return;
+    file.text().then(text => this.callbacks.onImport?.(text));
+    // 允许再次选择同一个文件
+    this.fileInput!.value = '';
+  }
+
+  dispose(): void {
+    this.container?.remove();
+    this.container = null;
+    this.list = null;
+    this.fileInput = null;
+  }
+}
+
+export function createBookmarkStrip(callbacks?: BookmarkStripCallbacks): BookmarkStrip {
+  return new BookmarkStrip(callbacks);
+}
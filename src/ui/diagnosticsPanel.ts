@@ -0,0 +1,322 @@
+/**
+ * diagnosticsPanel.ts - 模型诊断面板
+ *
+ * 显示模型绑定检查报告（见 bindingReport.ts），方便美术直接修正导出文件：
+ * - 标题栏显示问题数量，点击展开/收起
+ * - 加载失败或清单文件有误时自动展开
+ */
+
+import { Lang, getCurrentLang } from '../types/mechConfig';
+import { ModelBindingReport, getReportIssueCount } from '../three/bindingReport';
+
+// ============================================
+// 配置
+// ============================================
+
+export const DIAGNOSTICS_CONFIG = {
+  MAX_LIST_ITEMS: 12          // 每个列表最多显示的条目数
+};
+
+const TEXT: Record<Lang, Record<string, string>> = {
+  zh: {
+    title: '模型诊断',
+    ok: '无问题',
+    issues: '个问题',
+    loadError: '加载失败（已使用占位模型）',
+    manifest: '清单',
+    manifestError: '清单文件有误（已使用内置清单）',
+    bound: '已绑定部件',
+    missing: '缺失部件',
+    unknown: '未归属网格',
+    duplicate: '重名节点',
+    material: '非标准材质',
+    joint: '运动链断开的关节（单独转动）',
+    stats: '统计',
+    meshes: '网格',
+    vertices: '顶点',
+    triangles: '三角面',
+    materials: '材质',
+    more: '还有'
+  },
+  en: {
+    title: 'Diagnostics',
+    ok: 'No issues',
+    issues: 'issues',
+    loadError: 'Load failed (placeholder in use)',
+    manifest: 'Manifest',
+    manifestError: 'Manifest file invalid (built-in manifest in use)',
+    bound: 'Bound parts',
+    missing: 'Missing parts',
+    unknown: 'Unassigned meshes',
+    duplicate: 'Duplicate names',
+    material: 'Non-standard materials',
+    joint: 'Unlinked joints (move alone)',
+    stats: 'Stats',
+    meshes: 'Meshes',
+    vertices: 'Vertices',
+    triangles: 'Triangles',
+    materials: 'Materials',
+    more: 'more'
+  }
+};
+
+// ============================================
+// 诊断面板类
+// ============================================
+
+export class DiagnosticsPanel {
+  private container: HTMLElement | null = null;
+  private header: HTMLElement | null = null;
+  private body: HTMLElement | null = null;
+  private report: ModelBindingReport | null = null;
+  private isExpanded: boolean = false;
+
+  // 绑定的事件处理函数引用
+  private boundOnHeaderClick: () => void;
+
+  constructor() {
+    this.boundOnHeaderClick = this.toggle.bind(this);
+    this.createContainer();
+  }
+
+  /**
+   * 创建面板容器
+   */
+  private createContainer(): void {
+    const existing = document.getElementById('diagnostics-panel');
+    if (existing) {
+      existing.remove();
+    }
+
+    this.container = document.createElement('div');
+    this.container.id = 'diagnostics-panel';
+    this.container.className = 'diagnostics-panel';
+
+    this.header = document.createElement('div');
+    this.header.className = 'diagnostics-header';
+    this.header.addEventListener('click', this.boundOnHeaderClick);
+    this.container.appendChild(this.header);
+
+    this.body = document.createElement('div');
+    this.body.className = 'diagnostics-body';
+    this.container.appendChild(this.body);
+
+    document.body.appendChild(this.container);
+
+    this.addStyles();
+    this.render();
+  }
+
+  /**
+   * 添加样式
+   */
+  private addStyles(): void {
+    const styleId = 'diagnostics-panel-styles';
+    if (document.getElementById(styleId)) return;
+
+    const style = document.createElement('style');
+    style.id = styleId;
+    style.textContent = `
+      .diagnostics-panel {
+        position: fixed;
+        top: 76px;
+        right: 20px;
+        width: 280px;
+        z-index: 150;
+        font-family: var(--font-display);
+        font-size: 11px;
+        letter-spacing: 0.5px;
+        color: var(--primary-cyan);
+        background: rgba(0, 20, 40, 0.7);
+        border: 1px solid var(--border-dim);
+        border-radius: 12px;
+        backdrop-filter: blur(10px);
+        pointer-events: auto;
+      }
+
+      .diagnostics-header {
+        display: flex;
+        justify-content: space-between;
+        padding: 6px 14px;
+        cursor: pointer;
+        user-select: none;
+      }
+
+      .diagnostics-header .diagnostics-count.ok {
+        color: var(--status-online);
+      }
+
+      .diagnostics-header .diagnostics-count.warn {
+        color: var(--accent-gold);
+        text-shadow: 0 0 6px var(--accent-gold);
+      }
+
+      .diagnostics-header .diagnostics-count.error {
+        color: var(--status-offline);
+        text-shadow: 0 0 6px var(--status-offline);
+      }
+
+      .diagnostics-body {
+        display: none;
+        max-height: 50vh;
+        overflow-y: auto;
+        padding: 0 14px 10px;
+        border-top: 1px solid var(--border-dim);
+      }
+
+      .diagnostics-panel.expanded .diagnostics-body {
+        display: block;
+      }
+
+      .diagnostics-section {
+        margin-top: 8px;
+      }
+
+      .diagnostics-section-title {
+        color: rgba(0, 212, 255, 0.5);
+        font-size: 10px;
+        margin-bottom: 3px;
+      }
+
+      .diagnostics-section.warn .diagnostics-section-title {
+        color: var(--accent-gold);
+      }
+
+      .diagnostics-section.error .diagnostics-section-title {
+        color: var(--status-offline);
+      }
+
+      .diagnostics-item {
+        font-family: var(--font-body);
+        font-size: 12px;
+        color: rgba(255, 255, 255, 0.8);
+        word-break: break-all;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * 更新报告
+   */
+  update(report: ModelBindingReport): void {
+    this.report = report;
+    // 加载失败或清单文件有误时自动展开
+    if (report.loadError || report.manifestError) {
+      this.isExpanded = true;
+    }
+    this.render();
+  }
+
+  /**
+   * 渲染面板内容
+   */
+  private render(): void {
+    if (!this.container || !this.header || !this.body) return;
+
+    const t = TEXT[getCurrentLang()];
+    const report = this.report;
+    this.container.classList.toggle('expanded', this.isExpanded);
+    this.container.style.display = report ? '' : 'none';
+    if (!report) return;
+
+    const issueCount = getReportIssueCount(report);
+    const level = report.loadError || report.manifestError ? 'error' : issueCount > 0 ? 'warn' : 'ok';
+    this.header.innerHTML = '';
+    this.header.appendChild(this.createText('span', `◈ ${t.title} · ${report.modelName}`));
+    this.header.appendChild(this.createText(
+      'span',
+      issueCount > 0 ? `${issueCount} ${t.issues} ${this.isExpanded ? '▴' : '▾'}` : `${t.ok} ${this.isExpanded ? '▴' : '▾'}`,
+      `diagnostics-count ${level}`
+    ));
+
+    this.body.innerHTML = '';
+    if (report.loadError) {
+      this.appendSection(t.loadError, [report.loadError], 'error');
+    }
+    if (report.manifestError) {
+      this.appendSection(t.manifestError, [report.manifestError], 'error');
+    }
+    this.appendSection(t.manifest, [`${report.manifestId} (${report.manifestSource})`]);
+    this.appendSection(
+      `${t.bound} (${report.boundParts.length})`,
+      report.boundParts.map(part => {
+        const source = part.nodeNames.join(', ');
+        return part.partId === source ? part.partId : `${part.partId} ← ${source}`;
+      })
+    );
+    this.appendSection(`${t.missing} (${report.missingParts.length})`, report.missingParts, 'warn');
+    this.appendSection(`${t.unknown} (${report.unknownMeshes.length})`, report.unknownMeshes, 'warn');
+    this.appendSection(
+      `${t.duplicate} (${report.duplicateNames.length})`,
+      report.duplicateNames.map(entry => `${entry.name} ×${entry.count}`),
+      'warn'
+    );
+    this.appendSection(
+      `${t.material} (${report.nonStandardMaterials.length})`,
+      report.nonStandardMaterials.map(entry => `${entry.meshName}: ${entry.materialType}`),
+      'warn'
+    );
+    this.appendSection(
+      `${t.joint} (${report.brokenJoints.length})`,
+      report.brokenJoints.map(entry => `${entry.partId} ↛ ${entry.attachedTo}`),
+      'warn'
+    );
+    this.appendSection(t.stats, [
+      `${t.meshes} ${report.stats.meshes} · ${t.materials} ${report.stats.materials}`,
+      `${t.vertices} ${report.stats.vertices.toLocaleString()} · ${t.triangles} ${report.stats.triangles.toLocaleString()}`
+    ]);
+  }
+
+  /**
+   * 添加一个分组（空的问题分组不显示）
+   */
+  private appendSection(title: string, items: string[], level?: 'warn' | 'error'): void {
+    if (!this.body) return;
+    if (level && items.length === 0) return;
+
+    const section = document.createElement('div');
+    section.className = `diagnostics-section ${level || ''}`;
+    section.appendChild(this.createText('div', title, 'diagnostics-section-title'));
+
+    items.slice(0, DIAGNOSTICS_CONFIG.MAX_LIST_ITEMS).forEach(item => {
+      section.appendChild(this.createText('div', item, 'diagnostics-item'));
+    });
+    if (items.length > DIAGNOSTICS_CONFIG.MAX_LIST_ITEMS) {
+      const rest = items.length - DIAGNOSTICS_CONFIG.MAX_LIST_ITEMS;
+      section.appendChild(this.createText('div', `… ${TEXT[getCurrentLang()].more} ${rest}`, 'diagnostics-item'));
+    }
+
+    this.body.appendChild(section);
+  }
+
+  /**
+   * 创建文本元素（使用 textContent，节点名称来自外部文件）
+   */
+  private createText(tag: string, text: string, className?: string): HTMLElement {
+    const el = document.createElement(tag);
+    el.textContent = text;
+    if (className) el.className = className;
+    return el;
+  }
+
+  /**
+   * 展开/收起
+   */
+  toggle(): void {
+    this.isExpanded = !this.isExpanded;
+    this.render();
+  }
+
+  dispose(): void {
+    this.header?.removeEventListener('click', this.boundOnHeaderClick);
+    this.container?.remove();
+    this.container = null;
+    this.header = null;
+    this.body = null;
+  }
+}
+
+export function createDiagnosticsPanel(): DiagnosticsPanel {
+  return new DiagnosticsPanel();
+}
@@ -24,9 +24,9 @@ export interface HUDConfig {
 // 状态名称映射
 const STATE_DISPLAY_NAMES: Record<MechViewState, string> = {
   'Assembled': '组装',
-  'MajorExploded': '拆解',
-  'PartList': '列表',
-  'PartDetailExploded': '详情'
+  'Exploded': '拆解',
+  'PartView': '组件',
+  'Assembly': '装配'
 };
 
 // 简化的手势名称
@@ -0,0 +1,347 @@
+/**
+ * posePanel.ts - 姿态面板
+ *
+ * 每个关节一组滑块（只显示能转动的轴），拖动时立即摆姿态（见 three/jointPose.ts）：
+ * - 标题栏点击展开/收起，默认收起
+ * - 组件视图和装配说明中禁用（部件由布局和说明控制）
+ */
+
+import { Lang, getCurrentLang } from '../types/mechConfig';
+import { JointKind, JointAxis } from '../types/mechManifest';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface PosePanelCallbacks {
+  onJointChange?: (partId: string, axis: JointAxis, degrees: number) => void;
+  onReset?: () => void;
+}
+
+/** 一个关节的显示内容（角度单位为度） */
+export interface PosePanelJoint {
+  id: string;
+  name: string;
+  kind?: JointKind;
+  limits: Partial<Record<JointAxis, [number, number]>>;
+  angles: Record<JointAxis, number>;
+}
+
+const TEXT: Record<Lang, Record<string, string>> = {
+  zh: {
+    title: '姿态',
+    reset: '复位',
+    resetTitle: '所有关节回到原始姿态',
+    disabled: '整机或拆解视图中可摆姿态',
+    empty: '当前模型没有关节',
+    shoulder: '肩',
+    elbow: '肘',
+    wrist: '腕',
+    hip: '髋',
+    knee: '膝',
+    ankle: '踝'
+  },
+  en: {
+    title: 'Pose',
+    reset: 'Reset',
+    resetTitle: 'Return all joints to the rest pose',
+    disabled: 'Posing is available in the assembled or exploded view',
+    empty: 'This model has no joints',
+    shoulder: 'Shoulder',
+    elbow: 'Elbow',
+    wrist: 'Wrist',
+    hip: 'Hip',
+    knee: 'Knee',
+    ankle: 'Ankle'
+  }
+};
+
+// ============================================
+// 姿态面板类
+// ============================================
+
+export class PosePanel {
+  private callbacks: PosePanelCallbacks;
+  private container: HTMLElement | null = null;
+  private header: HTMLElement | null = null;
+  private body: HTMLElement | null = null;
+  private joints: PosePanelJoint[] = [];
+  private isExpanded: boolean = false;
+  private enabled: boolean = true;
+
+  // 绑定的事件处理函数引用
+  private boundOnHeaderClick: () => void;
+
+  constructor(callbacks: PosePanelCallbacks = {}) {
+    this.callbacks = callbacks;
+    this.boundOnHeaderClick = this.toggle.bind(this);
+    this.createContainer();
+  }
+
+  /**
+   * 创建面板容器
+   */
+  private createContainer(): void {
+    const existing = document.getElementById('pose-panel');
+    if (existing) {
+      existing.remove();
+    }
+
+    this.container = document.createElement('div');
+    this.container.id = 'pose-panel';
+    this.container.className = 'pose-panel';
+
+    this.header = document.createElement('div');
+    this.header.className = 'pose-header';
+    this.header.addEventListener('click', this.boundOnHeaderClick);
+    this.container.appendChild(this.header);
+
+    this.body = document.createElement('div');
+    this.body.className = 'pose-body';
+    this.container.appendChild(this.body);
+
+    document.body.appendChild(this.container);
+
+    this.addStyles();
+    this.render();
+  }
+
+  /**
+   * 添加样式
+   */
+  private addStyles(): void {
+    const styleId = 'pose-panel-styles';
+    if (document.getElementById(styleId)) return;
+
+    const style = document.createElement('style');
+    style.id = styleId;
+    style.textContent = `
+      .pose-panel {
+        position: fixed;
+        bottom: 250px;
+        right: 20px;
+        width: 280px;
+        z-index: 150;
+        font-family: var(--font-display);
+        font-size: 11px;
+        letter-spacing: 0.5px;
+        color: var(--primary-cyan);
+        background: rgba(0, 20, 40, 0.7);
+        border: 1px solid var(--border-dim);
+        border-radius: 12px;
+        backdrop-filter: blur(10px);
+        pointer-events: auto;
+      }
+
+      .pose-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 6px 14px;
+        cursor: pointer;
+        user-select: none;
+      }
+
+      .pose-reset {
+        font-family: var(--font-display);
+        font-size: 10px;
+        color: var(--primary-cyan);
+        background: transparent;
+        border: 1px solid var(--border-dim);
+        border-radius: 8px;
+        padding: 1px 8px;
+        cursor: pointer;
+      }
+
+      .pose-reset:hover:not(:disabled) {
+        border-color: var(--primary-cyan);
+        box-shadow: 0 0 6px rgba(0, 212, 255, 0.4);
+      }
+
+      .pose-body {
+        display: none;
+        max-height: 40vh;
+        overflow-y: auto;
+        padding: 0 14px 10px;
+        border-top: 1px solid var(--border-dim);
+      }
+
+      .pose-panel.expanded .pose-body {
+        display: block;
+      }
+
+      .pose-panel.disabled .pose-joint {
+        opacity: 0.4;
+      }
+
+      .pose-hint {
+        margin-top: 8px;
+        font-family: var(--font-body);
+        font-size: 12px;
+        color: rgba(255, 255, 255, 0.6);
+      }
+
+      .pose-joint {
+        margin-top: 8px;
+      }
+
+      .pose-joint-title {
+        color: rgba(0, 212, 255, 0.5);
+        font-size: 10px;
+        margin-bottom: 3px;
+      }
+
+      .pose-axis {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+
+      .pose-axis-label {
+        width: 10px;
+        text-transform: uppercase;
+      }
+
+      .pose-axis input {
+        flex: 1;
+        accent-color: var(--primary-cyan);
+      }
+
+      .pose-axis-value {
+        width: 36px;
+        text-align: right;
+        font-family: var(--font-body);
+        color: rgba(255, 255, 255, 0.8);
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * 更新关节列表（切换模型、复位或外部摆姿态后调用）
+   */
+  setJoints(joints: PosePanelJoint[]): void {
+    this.joints = joints;
+    this.render();
+  }
+
+  /**
+   * 启用/禁用滑块（组件视图和装配说明中禁用）
+   */
+  setEnabled(enabled: boolean): void {
+    if (this.enabled === enabled) return;
+    this.enabled = enabled;
+    this.render();
+  }
+
+  /**
+   * 渲染面板内容
+   */
+  private render(): void {
+    if (!this.container || !this.header || !this.body) return;
+
+    const t = TEXT[getCurrentLang()];
+    this.container.classList.toggle('expanded', this.isExpanded);
+    this.container.classList.toggle('disabled', !this.enabled);
+
+    this.header.innerHTML = '';
+    this.header.appendChild(this.createText('span', `◈ ${t.title} ${this.isExpanded ? '▴' : '▾'}`));
+    const reset = document.createElement('button');
+    reset.className = 'pose-reset';
+    reset.textContent = t.reset;
+    reset.title = t.resetTitle;
+    reset.disabled = !this.enabled || this.joints.length === 0;
+    reset.addEventListener('click', (e) => {
+      e.stopPropagation();
+      reset.blur();
+      this.callbacks.onReset?.();
+    });
+    this.header.appendChild(reset);
+
+    this.body.innerHTML = '';
+    if (this.joints.length === 0) {
+      this.body.appendChild(this.createText('div', t.empty, 'pose-hint'));
+      return;
+    }
+    if (!this.enabled) {
+      this.body.appendChild(this.createText('div', t.disabled, 'pose-hint'));
+    }
+    this.joints.forEach(joint => this.appendJoint(joint));
+  }
+
+  /**
+   * 添加一个关节（每个可转动的轴一个滑块）
+   */
+  private appendJoint(joint: PosePanelJoint): void {
+    if (!this.body) return;
+
+    const t = TEXT[getCurrentLang()];
+    const section = document.createElement('div');
+    section.className = 'pose-joint';
+    const kind = joint.kind ? ` · ${t[joint.kind]}` : '';
+    section.appendChild(this.createText('div', `${joint.name}${kind}`, 'pose-joint-title'));
+
+    (['x', 'y', 'z'] as JointAxis[]).forEach(axis => {
+      const limit = joint.limits[axis];
+      if (!limit) return;
+
+      const row = document.createElement('div');
+      row.className = 'pose-axis';
+      row.appendChild(this.createText('span', axis, 'pose-axis-label'));
+
+      const input = document.createElement('input');
+      input.type = 'range';
+      input.min = String(Math.round(limit[0]));
+      input.max = String(Math.round(limit[1]));
+      input.step = '1';
+      input.value = String(Math.round(joint.angles[axis]));
+      input.disabled = !this.enabled;
+      row.appendChild(input);
+
+      const value = this.createText('span', `${input.value}°`, 'pose-axis-value');
+      row.appendChild(value);
+
+      input.addEventListener('input', () => {
+        value.textContent = `${input.value}°`;
+        joint.angles[axis] = Number(input.value);
+        this.callbacks.onJointChange?.(joint.id, axis, Number(input.value));
+      });
+      // 松开后交还焦点，避免方向键继续调节滑块
+      input.addEventListener('change', () => input.blur());
+
+      section.appendChild(row);
+    });
+
+    this.body.appendChild(section);
+  }
+
+  /**
+   * 创建文本元素（使用 textContent，部件名称来自外部文件）
+   */
+  private createText(tag: string, text: string, className?: string): HTMLElement {
+    const el = document.createElement(tag);
+    el.textContent = text;
+    if (className) el.className = className;
+    return el;
+  }
+
+  /**
+   * 展开/收起
+   */
+  toggle(): void {
+    this.isExpanded = !this.isExpanded;
+    this.render();
+  }
+
+  dispose(): void {
+    this.header?.removeEventListener('click', this.boundOnHeaderClick);
+    this.container?.remove();
+    this.container = null;
+    this.header = null;
+    this.body = null;
+  }
+}
+
+export function createPosePanel(callbacks?: PosePanelCallbacks): PosePanel {
+  return new PosePanel(callbacks);
+}
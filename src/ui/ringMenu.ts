@@ -7,7 +7,8 @@
  * - 与 3D 场景中的高亮同步
  */
 
-import { PartId, PART_DISPLAY_NAMES, MechViewState } from '../types/mechConfig';
+import { PartId, MechViewState, getPartDisplayName } from '../types/mechConfig';
+import { MechManifest, ROBOT_MANIFEST } from '../types/mechManifest';
 
 // ============================================
 // 配置
@@ -52,6 +53,7 @@ export class RingMenu {
   private isVisible: boolean = false;
   private currentHighlightIndex: number = 0;
   private currentState: MechViewState = 'Assembled';
+  private manifest: MechManifest = ROBOT_MANIFEST;   // 部件名称来源
   
   constructor() {
     this.createContainer();
@@ -475,6 +477,13 @@ export class RingMenu {
     document.head.appendChild(style);
   }
   
+  /**
+   * 设置部件清单（切换模型后调用）
+   */
+  setManifest(manifest: MechManifest): void {
+    this.manifest = manifest;
+  }
+  
   /**
    * 更新菜单项
    */
@@ -510,7 +519,7 @@ export class RingMenu {
       const angle = itemCount === 1 ? 0 : startAngle + angleStep * index;
       return {
         id,
-        displayName: PART_DISPLAY_NAMES[id],
+        displayName: getPartDisplayName(this.manifest, id),
         isHighlighted: index === highlightedIndex,
         angle
       };
@@ -637,8 +646,8 @@ export class RingMenu {
   updateVisibility(state: MechViewState | string): void {
     this.currentState = state as MechViewState;
     
-    // 兼容当前状态机：组件视图（PartView）也显示
-    if (state === 'PartList' || state === 'PartDetailExploded' || state === 'PartView') {
+    // 组件视图（PartView）中显示
+    if (state === 'PartView') {
       this.show();
     } else {
       this.hide();
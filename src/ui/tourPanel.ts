@@ -0,0 +1,275 @@
+/**
+ * tourPanel.ts - 导览字幕与播放控制
+ *
+ * - 上方字幕：当前步骤的说明文字（按当前语言）
+ * - 控制栏：选择导览、上一步 / 播放暂停 / 下一步 / 停止、步骤进度
+ */
+
+import { Lang, getCurrentLang } from '../types/mechConfig';
+import { TourDefinition } from '../types/tourConfig';
+import { TourStatus } from '../state/tourPlayer';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface TourPanelCallbacks {
+  onToggle?: (tourId: string) => void;    // 播放 / 暂停（未播放时播放所选导览）
+  onPrev?: () => void;
+  onNext?: () => void;
+  onStop?: () => void;
+}
+
+const TEXT: Record<Lang, Record<string, string>> = {
+  zh: {
+    title: '导览',
+    prev: '上一步 ([)',
+    toggle: '播放 / 暂停 (P)',
+    next: '下一步 (])',
+    stop: '停止',
+    paused: '（已暂停）'
+  },
+  en: {
+    title: 'Tour',
+    prev: 'Previous step ([)',
+    toggle: 'Play / pause (P)',
+    next: 'Next step (])',
+    stop: 'Stop',
+    paused: ' (paused)'
+  }
+};
+
+// ============================================
+// 导览面板类
+// ============================================
+
+export class TourPanel {
+  private callbacks: TourPanelCallbacks;
+  private container: HTMLElement | null = null;
+  private caption: HTMLElement | null = null;
+  private select: HTMLSelectElement | null = null;
+  private toggleButton: HTMLButtonElement | null = null;
+  private progress: HTMLElement | null = null;
+  private tours: TourDefinition[] = [];
+
+  constructor(callbacks: TourPanelCallbacks = {}) {
+    this.callbacks = callbacks;
+    this.createContainer();
+  }
+
+  /**
+   * 创建面板容器
+   */
+  private createContainer(): void {
+    const existing = document.getElementById('tour-panel');
+    if (existing) {
+      existing.remove();
+    }
+
+    const t = TEXT[getCurrentLang()];
+    this.container = document.createElement('div');
+    this.container.id = 'tour-panel';
+    this.container.className = 'tour-panel';
+
+    this.caption = document.createElement('div');
+    this.caption.className = 'tour-caption';
+    this.container.appendChild(this.caption);
+
+    const controls = document.createElement('div');
+    controls.className = 'tour-controls';
+
+    const label = document.createElement('span');
+    label.className = 'tour-label';
+    label.textContent = `◈ ${t.title}`;
+    controls.appendChild(label);
+
+    this.select = document.createElement('select');
+    this.select.className = 'tour-select';
+    controls.appendChild(this.select);
+
+    controls.appendChild(this.createButton('⏮', t.prev, () => this.callbacks.onPrev?.()));
+    this.toggleButton = this.createButton('▶', t.toggle, () => {
+      if (this.select?.value) this.callbacks.onToggle?.(this.select.value);
+    });
+    controls.appendChild(this.toggleButton);
+    controls.appendChild(this.createButton('⏭', t.next, () => this.callbacks.onNext?.()));
+    controls.appendChild(this.createButton('⏹', t.stop, () => this.callbacks.onStop?.()));
+
+    this.progress = document.createElement('span');
+    this.progress.className = 'tour-progress';
+    controls.appendChild(this.progress);
+
+    this.container.appendChild(controls);
+    document.body.appendChild(this.container);
+
+    this.addStyles();
+  }
+
+  /**
+   * 添加样式
+   */
+  private addStyles(): void {
+    const styleId = 'tour-panel-styles';
+    if (document.getElementById(styleId)) return;
+
+    const style = document.createElement('style');
+    style.id = styleId;
+    style.textContent = `
+      .tour-panel {
+        position: fixed;
+        bottom: 110px;
+        left: 50%;
+        transform: translateX(-50%);
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 8px;
+        z-index: 150;
+        font-family: var(--font-display);
+        font-size: 10px;
+        letter-spacing: 0.5px;
+        color: var(--primary-cyan);
+        pointer-events: none;
+      }
+
+      .tour-caption {
+        display: none;
+        max-width: 60vw;
+        padding: 8px 18px;
+        font-family: var(--font-body);
+        font-size: 15px;
+        color: #fff;
+        text-align: center;
+        background: rgba(0, 20, 40, 0.75);
+        border: 1px solid var(--border-glow);
+        border-radius: 10px;
+        box-shadow: var(--glow-cyan);
+      }
+
+      .tour-panel.active .tour-caption {
+        display: block;
+      }
+
+      .tour-controls {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        padding: 4px 10px;
+        background: rgba(0, 20, 40, 0.7);
+        border: 1px solid var(--border-dim);
+        border-radius: 12px;
+        backdrop-filter: blur(10px);
+        pointer-events: auto;
+      }
+
+      .tour-select {
+        max-width: 140px;
+        font-family: var(--font-display);
+        font-size: 10px;
+        color: var(--primary-cyan);
+        background: transparent;
+        border: 1px solid var(--border-dim);
+        border-radius: 4px;
+      }
+
+      .tour-select option {
+        background: #001428;
+      }
+
+      .tour-btn {
+        width: 22px;
+        height: 18px;
+        padding: 0;
+        font-size: 10px;
+        color: var(--primary-cyan);
+        background: transparent;
+        border: 1px solid var(--border-dim);
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .tour-btn:hover {
+        border-color: var(--primary-cyan);
+      }
+
+      .tour-progress {
+        min-width: 36px;
+        text-align: right;
+        color: var(--accent-gold);
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * 设置可选的导览
+   */
+  setTours(tours: TourDefinition[]): void {
+    if (!this.select) return;
+    this.tours = tours;
+    const lang = getCurrentLang();
+    this.select.innerHTML = '';
+    tours.forEach(tour => {
+      const option = document.createElement('option');
+      option.value = tour.id;
+      option.textContent = tour.names[lang] || tour.names.en || tour.id;
+      this.select!.appendChild(option);
+    });
+  }
+
+  /**
+   * 当前选中的导览
+   */
+  getSelectedTourId(): string | null {
+    return this.select?.value || null;
+  }
+
+  /**
+   * 更新播放状态和字幕
+   */
+  update(status: TourStatus, tour: TourDefinition | null, stepIndex: number): void {
+    if (!this.container || !this.caption || !this.toggleButton || !this.progress || !this.select) return;
+
+    const active = status !== 'idle' && tour !== null && stepIndex >= 0;
+    this.container.classList.toggle('active', active);
+    this.toggleButton.textContent = status === 'playing' ? '⏸' : '▶';
+    this.select.disabled = active;
+
+    if (!active) {
+      this.caption.textContent = '';
+      this.progress.textContent = '';
+      return;
+    }
+
+    if (this.tours.some(t => t.id === tour!.id)) {
+      this.select.value = tour!.id;
+    }
+    const lang = getCurrentLang();
+    const step = tour!.steps[stepIndex];
+    const text = step.caption[lang] || step.caption.en || step.caption.zh || '';
+    this.caption.textContent = status === 'paused' ? text + TEXT[lang].paused : text;
+    this.progress.textContent = `${stepIndex + 1}/${tour!.steps.length}`;
+  }
+
+  private createButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'tour-btn';
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  dispose(): void {
+    this.container?.remove();
+    this.container = null;
+    this.caption = null;
+    this.select = null;
+    this.toggleButton = null;
+    this.progress = null;
+  }
+}
+
+export function createTourPanel(callbacks?: TourPanelCallbacks): TourPanel {
+  return new TourPanel(callbacks);
+}